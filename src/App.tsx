@@ -1,10 +1,12 @@
 import {
 	type Component,
+	createEffect,
 	createMemo,
 	createResource,
 	createSignal,
 	For,
 	lazy,
+	on,
 	onCleanup,
 	onMount,
 	Show,
@@ -15,14 +17,36 @@ import PluginPanels from "./components/PluginPanels";
 import Plugins from "./components/Plugins";
 import Settings from "./components/Settings";
 import Skills from "./components/Skills";
+import Transcript from "./components/Transcript";
 import {
 	api,
+	type ConfigKey,
+	type ConfigValue,
 	type PluginUiComponentProps,
 	type Session,
-	type StreamEvent,
 	type UiComponentExtension,
 	type WebUiExtension,
 } from "./lib/api";
+import { type AuthSession, getAuthSession, logout, toAuthContext } from "./lib/auth";
+import { getBootstrap, webSocketUrl } from "./lib/bootstrap";
+import { describeError } from "./lib/errors";
+import { ReplyTracker } from "./lib/replies";
+import { CLOSE_GOING_AWAY, replyTo, StreamClient } from "./lib/stream";
+import {
+	addMessage,
+	appendReply,
+	finishReply,
+	fromHistory,
+	HISTORY_LIMIT,
+	mergeHistory,
+	setReply,
+	type TranscriptMessage,
+} from "./lib/transcript";
+import { WebMCPRegistry } from "./lib/webmcp";
+import { registerConversationTools } from "./lib/webmcp-conversation";
+
+// The daemon event stream, shared by the chat view, the header indicator and plugin components
+const stream = new StreamClient({ url: () => webSocketUrl(), eventsUrl: () => getBootstrap().eventsUrl });
 
 // Cache for dynamically imported components
 const componentCache = new Map<string, any>();
@@ -55,6 +79,8 @@ const PluginComponent: Component<{
 	const componentProps = createMemo(() => ({
 		api: props.api,
 		currentSession: props.currentSession,
+		// Not in PluginUiComponentProps yet; components can read it to show their own offline state
+		connectionState: stream.state,
 		pluginConfig: {}, // TODO: fetch plugin config
 		saveConfig: async () => {}, // TODO: implement
 	}));
@@ -76,20 +102,30 @@ const App: Component = () => {
 	const [sessions, setSessions] = createSignal<Session[]>([]);
 	const [selectedSession, setSelectedSession] = createSignal<string | null>(null);
 	const [message, setMessage] = createSignal("");
-	const [response, setResponse] = createSignal("");
-	const [streaming, setStreaming] = createSignal(false);
-	const [connected, setConnected] = createSignal(false);
+	// Message lists by session; the selected one is shown and kept current from the stream
+	const [transcripts, setTranscripts] = createSignal<Record<string, TranscriptMessage[]>>({});
+	const [historyLoading, setHistoryLoading] = createSignal(false);
+	const [historyError, setHistoryError] = createSignal<string | null>(null);
 	const [extensions, setExtensions] = createSignal<WebUiExtension[]>([]);
 	const [uiComponents, setUiComponents] = createSignal<UiComponentExtension[]>([]);
+	const [authSession, setAuthSession] = createSignal<AuthSession | null>(null);
 
-	let ws: WebSocket | null = null;
+	const bootstrap = getBootstrap();
+	// Replies being waited on, by session
+	const replies = new ReplyTracker();
+	const streaming = () => {
+		const session = selectedSession();
+		return session !== null && replies.streaming(session);
+	};
+	const webmcp = new WebMCPRegistry();
 
 	// API object passed to plugin components
 	const pluginApi: PluginUiComponentProps["api"] = {
 		getSessions: api.getSessions,
 		inject: api.inject,
 		getConfig: api.getConfig,
-		setConfigValue: api.setConfigValue,
+		// Plugins may set keys the dashboard has no type for, such as their own settings
+		setConfigValue: (key, value) => api.setConfigValue(key as ConfigKey, value as ConfigValue<ConfigKey>),
 	};
 
 	// Group components by slot
@@ -100,6 +136,18 @@ const App: Component = () => {
 	const chatFooterComponents = createMemo(() => uiComponents().filter((c) => c.slot === "chat-footer"));
 
 	onMount(async () => {
+		// Identify the signed-in user for WebMCP tools
+		try {
+			const session = await getAuthSession();
+			setAuthSession(session);
+			webmcp.setAuthContext(toAuthContext(session));
+		} catch (err) {
+			console.error("Failed to load auth session:", err);
+		}
+		if (bootstrap.features.webmcp && webmcp.isSupported()) {
+			registerConversationTools(webmcp, bootstrap.apiUrl);
+		}
+
 		// Load sessions
 		const data = await api.getSessions();
 		setSessions(data.sessions);
@@ -113,52 +161,129 @@ const App: Component = () => {
 		}
 
 		// Load UI components
-		try {
-			const compData = await api.getUiComponents();
-			setUiComponents(compData.components);
-		} catch (err) {
-			console.error("Failed to load UI components:", err);
+		if (bootstrap.features.pluginComponents) {
+			try {
+				const compData = await api.getUiComponents();
+				setUiComponents(compData.components);
+			} catch (err) {
+				console.error("Failed to load UI components:", err);
+			}
 		}
 
-		// Connect WebSocket
-		connectWebSocket();
+		stream.connect();
 	});
 
 	onCleanup(() => {
-		ws?.close();
+		stream.close();
+		webmcp.clear();
 	});
 
-	function connectWebSocket() {
-		const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-		const wsUrl = `${protocol}//${window.location.host}/ws`;
-
-		ws = new WebSocket(wsUrl);
-
-		ws.onopen = () => {
-			setConnected(true);
-			// Subscribe to all sessions
-			ws?.send(JSON.stringify({ type: "subscribe", sessions: ["*"] }));
-		};
+	const messages = createMemo(() => transcripts()[selectedSession() ?? ""] ?? []);
 
-		ws.onclose = () => {
-			setConnected(false);
-			// Reconnect after delay
-			setTimeout(connectWebSocket, 3000);
-		};
+	function updateTranscript(session: string, update: (messages: TranscriptMessage[]) => TranscriptMessage[]) {
+		setTranscripts((prev) => ({ ...prev, [session]: update(prev[session] ?? []) }));
+	}
 
-		ws.onmessage = (event) => {
-			const data = JSON.parse(event.data) as StreamEvent;
+	/** Load a session's history, keeping messages that arrived live while it loaded */
+	async function loadTranscript(session: string) {
+		setHistoryLoading(true);
+		setHistoryError(null);
+		try {
+			const { history } = await api.getSessionHistory(session, HISTORY_LIMIT);
+			updateTranscript(session, (live) => mergeHistory(fromHistory(history), live));
+		} catch (err) {
+			console.error("Failed to load session history:", err);
+			if (selectedSession() === session) setHistoryError(`Failed to load conversation: ${describeError(err)}`);
+		} finally {
+			if (selectedSession() === session) setHistoryLoading(false);
+		}
+	}
 
-			if (data.type === "stream" && data.session === selectedSession()) {
-				if (data.message.type === "text") {
-					setResponse((prev) => prev + data.message.content);
-				} else if (data.message.type === "complete") {
-					setStreaming(false);
+	// Follow the selected session's conversation; only a new selection re-runs this
+	createEffect(
+		on(selectedSession, (session) => {
+			if (!session) return;
+			// Subscribed before loading, so nothing sent in between is missed
+			const unsubscribe = stream.subscribe(session, "stream", (event) => {
+				if (event.message.type === "text") {
+					updateTranscript(session, (messages) => appendReply(messages, event.message.content, event.ts ?? Date.now()));
+				} else if (event.message.type === "complete" || event.message.type === "error") {
+					updateTranscript(session, finishReply);
+					const reply = replies.settle(session);
+					if (reply.stale && reply.message !== null) void recoverResponse(session, reply.message);
 				}
-			}
-		};
+			});
+			const unsubscribeInjections = stream.subscribe(session, "injection", (event) => {
+				// The dashboard's own message, already shown
+				if (replies.claimEcho(session, event.message.content)) return;
+				updateTranscript(session, (messages) =>
+					addMessage(messages, {
+						role: "injection",
+						content: event.message.content,
+						ts: event.ts ?? Date.now(),
+						from: event.from,
+					}),
+				);
+			});
+			const removeGapHandler = stream.onGap(session, () => {
+				const reply = replies.get(session);
+				if (!reply.streaming) {
+					// Injections may have been missed too; the history has them
+					void loadTranscript(session);
+					return;
+				}
+				replies.markStale(session);
+				if (reply.message !== null) void recoverResponse(session, reply.message);
+			});
+			void loadTranscript(session);
+			onCleanup(() => {
+				unsubscribe();
+				unsubscribeInjections();
+				removeGapHandler();
+			});
+		}),
+	);
+
+	/** Replace a reply whose stream had a gap with the one in the session history, once it is there */
+	async function recoverResponse(session: string, message: string) {
+		try {
+			const { history } = await api.getSessionHistory(session, 50);
+			const reply = replyTo(history, message);
+			// Still being written; tried again when "complete" arrives
+			if (reply === null) return;
+			// Another message was sent meanwhile; its reply is the last one now
+			const current = replies.get(session);
+			if (current.message !== null && current.message !== message) return;
+			updateTranscript(session, (messages) => setReply(messages, reply, Date.now()));
+			replies.settle(session);
+		} catch (err) {
+			console.error("Failed to recover response from history:", err);
+		}
 	}
 
+	const connectionStatus = createMemo(() => {
+		switch (stream.state()) {
+			case "open":
+				return { color: "bg-green-500", label: "Connected" };
+			case "connecting":
+				return { color: "bg-yellow-500", label: "Connecting..." };
+			case "reconnecting":
+				return stream.closeCode() === CLOSE_GOING_AWAY
+					? { color: "bg-yellow-500", label: "Server restarting..." }
+					: { color: "bg-red-500", label: "Reconnecting..." };
+			case "offline":
+				return { color: "bg-red-500", label: "Offline" };
+		}
+	});
+
+	// Which transport is in use, so a fallback to SSE behind a proxy is visible
+	const connection = createMemo(() => {
+		const status = connectionStatus();
+		return stream.transport() === "sse"
+			? { ...status, label: `${status.label} (SSE)`, title: "Streaming over Server-Sent Events: WebSockets failed" }
+			: { ...status, title: "Streaming over WebSocket" };
+	});
+
 	async function handleSubmit(e: Event) {
 		e.preventDefault();
 		const session = selectedSession();
@@ -166,15 +291,21 @@ const App: Component = () => {
 
 		if (!session || !msg.trim()) return;
 
-		setResponse("");
-		setStreaming(true);
+		updateTranscript(session, (messages) => addMessage(messages, { role: "user", content: msg, ts: Date.now() }));
+		replies.start(session, msg);
 		setMessage("");
 
 		try {
-			await api.inject(session, msg);
+			const result = await api.inject(session, msg);
+			// The reply is whole here, which the stream's can't be if it lost events, is down or moved to another session
+			if (replies.get(session).stale || stream.state() !== "open" || selectedSession() !== session) {
+				updateTranscript(session, (messages) => setReply(messages, result.response, Date.now()));
+			}
+			replies.settle(session);
 		} catch (err) {
 			console.error("Inject failed:", err);
-			setStreaming(false);
+			updateTranscript(session, finishReply);
+			replies.settle(session);
 		}
 	}
 
@@ -194,7 +325,7 @@ const App: Component = () => {
 			<header class="bg-wopr-panel border-b border-wopr-border px-4 py-3 flex items-center justify-between">
 				<div class="flex items-center gap-3">
 					<h1 class="text-xl font-bold text-wopr-accent">WOPR</h1>
-					<span class="text-wopr-muted text-sm">v0.0.1</span>
+					<span class="text-wopr-muted text-sm">v{bootstrap.version}</span>
 				</div>
 				<div class="flex items-center gap-4">
 					<div class="flex gap-2">
@@ -231,10 +362,19 @@ const App: Component = () => {
 						)}
 					</For>
 
-					<div class="flex items-center gap-2">
-						<span class={`w-2 h-2 rounded-full ${connected() ? "bg-green-500" : "bg-red-500"}`} />
-						<span class="text-sm text-wopr-muted">{connected() ? "Connected" : "Disconnected"}</span>
+					<div class="flex items-center gap-2" title={connection().title}>
+						<span class={`w-2 h-2 rounded-full ${connection().color}`} />
+						<span class="text-sm text-wopr-muted">{connection().label}</span>
 					</div>
+
+					<Show when={bootstrap.authMode !== "none" && authSession()?.user}>
+						<div class="flex items-center gap-2 text-sm">
+							<span class="text-wopr-muted">{authSession()?.user}</span>
+							<button onClick={logout} class="text-wopr-muted hover:text-wopr-text">
+								Sign out
+							</button>
+						</div>
+					</Show>
 				</div>
 			</header>
 
@@ -254,10 +394,7 @@ const App: Component = () => {
 								{(session) => (
 									<li>
 										<button
-											onClick={() => {
-												setSelectedSession(session.name);
-												setResponse("");
-											}}
+											onClick={() => setSelectedSession(session.name)}
 											class={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
 												selectedSession() === session.name
 													? "bg-wopr-accent/20 text-wopr-accent"
@@ -362,16 +499,12 @@ const App: Component = () => {
 								)}
 							</For>
 
-							{/* Response area */}
-							<div class="flex-1 p-6 overflow-auto">
-								<div class="max-w-4xl mx-auto">
-									<Show when={response()}>
-										<div class="bg-wopr-panel rounded-lg p-4 border border-wopr-border">
-											<pre class={`whitespace-pre-wrap ${streaming() ? "cursor-blink" : ""}`}>{response()}</pre>
-										</div>
-									</Show>
-								</div>
-							</div>
+							<Transcript
+								session={selectedSession() ?? ""}
+								messages={messages()}
+								loading={historyLoading()}
+								error={historyError()}
+							/>
 
 							{/* Input area */}
 							<div class="border-t border-wopr-border p-4">
@@ -0,0 +1,196 @@
+import { type Component, createMemo, createSignal, For, type JSX, onCleanup, Show } from "solid-js";
+import { Dynamic } from "solid-js/web";
+import { highlight, isHighlighted, type TokenType } from "../lib/highlight";
+import { type Block, type Inline, type ParsedMarkdown, parseMarkdown } from "../lib/markdown";
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+	comment: "hl-comment",
+	string: "hl-string",
+	number: "hl-number",
+	keyword: "hl-keyword",
+	literal: "hl-literal",
+	plain: "",
+};
+
+function InlineNodes(props: { nodes: Inline[] }): JSX.Element {
+	return (
+		<For each={props.nodes}>
+			{(node) => {
+				switch (node.type) {
+					case "text":
+						return node.text;
+					case "code":
+						return <code class="md-inline-code">{node.text}</code>;
+					case "strong":
+						return (
+							<strong>
+								<InlineNodes nodes={node.children} />
+							</strong>
+						);
+					case "em":
+						return (
+							<em>
+								<InlineNodes nodes={node.children} />
+							</em>
+						);
+					case "del":
+						return (
+							<del>
+								<InlineNodes nodes={node.children} />
+							</del>
+						);
+					case "link":
+						return (
+							<a href={node.href} target="_blank" rel="noopener noreferrer" class="text-wopr-accent underline">
+								<InlineNodes nodes={node.children} />
+							</a>
+						);
+					case "break":
+						return <br />;
+				}
+			}}
+		</For>
+	);
+}
+
+const CodeBlock: Component<{ lang: string; text: string }> = (props) => {
+	const [copied, setCopied] = createSignal(false);
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	onCleanup(() => clearTimeout(timer));
+
+	async function copy() {
+		try {
+			await navigator.clipboard.writeText(props.text);
+			setCopied(true);
+			clearTimeout(timer);
+			timer = setTimeout(() => setCopied(false), 2000);
+		} catch (err) {
+			console.error("Failed to copy code:", err);
+		}
+	}
+
+	return (
+		<div class="rounded border border-wopr-border bg-wopr-bg overflow-hidden">
+			<div class="flex items-center justify-between px-3 py-1 border-b border-wopr-border text-xs text-wopr-muted">
+				<span>{props.lang || "text"}</span>
+				<button type="button" onClick={copy} class="hover:text-wopr-text">
+					{copied() ? "Copied" : "Copy"}
+				</button>
+			</div>
+			<pre class="p-3 overflow-x-auto text-sm">
+				<code>
+					<Show when={isHighlighted(props.lang)} fallback={props.text}>
+						<For each={highlight(props.text, props.lang)}>
+							{(token) =>
+								token.type === "plain" ? token.text : <span class={TOKEN_CLASSES[token.type]}>{token.text}</span>
+							}
+						</For>
+					</Show>
+				</code>
+			</pre>
+		</div>
+	);
+};
+
+function Blocks(props: { blocks: Block[] }): JSX.Element {
+	return (
+		<For each={props.blocks}>
+			{(block) => {
+				switch (block.type) {
+					case "paragraph":
+						return (
+							<p class="whitespace-pre-wrap">
+								<InlineNodes nodes={block.children} />
+							</p>
+						);
+					case "heading":
+						return (
+							<Dynamic component={`h${block.level}`} class={`md-heading md-h${block.level}`}>
+								<InlineNodes nodes={block.children} />
+							</Dynamic>
+						);
+					case "code":
+						return <CodeBlock lang={block.lang} text={block.text} />;
+					case "list":
+						return (
+							<Dynamic
+								component={block.ordered ? "ol" : "ul"}
+								start={block.ordered && block.start !== 1 ? block.start : undefined}
+								class={`pl-6 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}
+							>
+								<For each={block.items}>
+									{(item) => (
+										<li class={item.checked === undefined ? "" : "list-none -ml-5"}>
+											<Show when={item.checked !== undefined}>
+												<input type="checkbox" checked={item.checked} disabled class="mr-2 align-middle" />
+											</Show>
+											<div class="inline-block align-top w-full space-y-2">
+												<Blocks blocks={item.children} />
+											</div>
+										</li>
+									)}
+								</For>
+							</Dynamic>
+						);
+					case "blockquote":
+						return (
+							<blockquote class="border-l-2 border-wopr-border pl-3 text-wopr-muted space-y-2">
+								<Blocks blocks={block.children} />
+							</blockquote>
+						);
+					case "table":
+						return (
+							<div class="overflow-x-auto">
+								<table class="md-table">
+									<thead>
+										<tr>
+											<For each={block.header}>
+												{(cell, col) => (
+													<th style={{ "text-align": block.align[col()] ?? undefined }}>
+														<InlineNodes nodes={cell} />
+													</th>
+												)}
+											</For>
+										</tr>
+									</thead>
+									<tbody>
+										<For each={block.rows}>
+											{(row) => (
+												<tr>
+													<For each={row}>
+														{(cell, col) => (
+															<td style={{ "text-align": block.align[col()] ?? undefined }}>
+																<InlineNodes nodes={cell} />
+															</td>
+														)}
+													</For>
+												</tr>
+											)}
+										</For>
+									</tbody>
+								</table>
+							</div>
+						);
+					case "rule":
+						return <hr class="border-wopr-border" />;
+				}
+			}}
+		</For>
+	);
+}
+
+/**
+ * Rendered markdown. As a reply streams, only the block being written is
+ * parsed again, and the other blocks keep their DOM.
+ */
+const Markdown: Component<{ text: string }> = (props) => {
+	const parsed = createMemo<ParsedMarkdown>((previous) => parseMarkdown(props.text, previous));
+
+	return (
+		<div class="markdown space-y-3">
+			<Blocks blocks={parsed().blocks} />
+		</div>
+	);
+};
+
+export default Markdown;
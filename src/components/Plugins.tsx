@@ -6,6 +6,8 @@ import {
 	type InstalledPlugin,
 	type PluginCategory,
 } from "../lib/api";
+import { redirectToLogin } from "../lib/auth";
+import { describeError, isSessionExpired, reportError } from "../lib/errors";
 
 type Tab = "installed" | "available";
 
@@ -23,6 +25,7 @@ const Plugins: Component = () => {
 	const [available, setAvailable] = createSignal<AvailablePlugin[]>([]);
 	const [loading, setLoading] = createSignal(true);
 	const [error, setError] = createSignal<string | null>(null);
+	const [offline, setOffline] = createSignal(false);
 	const [installing, setInstalling] = createSignal<string | null>(null);
 	const [uninstalling, setUninstalling] = createSignal<string | null>(null);
 	const [toggling, setToggling] = createSignal<string | null>(null);
@@ -38,12 +41,14 @@ const Plugins: Component = () => {
 	// Detail panel for available plugins
 	const [detailPlugin, setDetailPlugin] = createSignal<AvailablePlugin | null>(null);
 
+	const errorHandlers = { onOffline: () => setOffline(true), onError: setError };
+
 	async function loadInstalled() {
 		try {
 			const data = await api.getPlugins();
 			setInstalled(data.plugins);
-		} catch (err: any) {
-			setError(err.message);
+		} catch (err: unknown) {
+			reportError(err, errorHandlers);
 		}
 	}
 
@@ -51,16 +56,20 @@ const Plugins: Component = () => {
 		try {
 			const data = await api.getAvailablePlugins();
 			setAvailable(data.plugins);
-		} catch (err: any) {
-			setError(err.message);
+		} catch (err: unknown) {
+			reportError(err, errorHandlers);
 		}
 	}
 
-	onMount(async () => {
+	async function load() {
 		setLoading(true);
+		setError(null);
+		setOffline(false);
 		await Promise.all([loadInstalled(), loadAvailable()]);
 		setLoading(false);
-	});
+	}
+
+	onMount(load);
 
 	const filteredAvailable = createMemo(() => {
 		const filter = categoryFilter();
@@ -89,8 +98,8 @@ const Plugins: Component = () => {
 			await api.installPlugin(name);
 			await loadInstalled();
 			await loadAvailable();
-		} catch (err: any) {
-			setError(err.message);
+		} catch (err: unknown) {
+			reportError(err, errorHandlers);
 		} finally {
 			setInstalling(null);
 		}
@@ -108,8 +117,8 @@ const Plugins: Component = () => {
 				setConfigSchema(null);
 			}
 			await loadInstalled();
-		} catch (err: any) {
-			setError(err.message);
+		} catch (err: unknown) {
+			reportError(err, errorHandlers);
 		} finally {
 			setUninstalling(null);
 		}
@@ -125,8 +134,8 @@ const Plugins: Component = () => {
 				await api.enablePlugin(plugin.id);
 			}
 			await loadInstalled();
-		} catch (err: any) {
-			setError(err.message);
+		} catch (err: unknown) {
+			reportError(err, errorHandlers);
 		} finally {
 			setToggling(null);
 		}
@@ -160,8 +169,9 @@ const Plugins: Component = () => {
 			await api.updatePluginConfig(id, configValues());
 			setConfigMessage("Configuration saved!");
 			setTimeout(() => setConfigMessage(null), 3000);
-		} catch (err: any) {
-			setConfigMessage(`Error: ${err.message}`);
+		} catch (err: unknown) {
+			if (isSessionExpired(err)) redirectToLogin();
+			else setConfigMessage(`Error: ${describeError(err)}`);
 		} finally {
 			setSavingConfig(false);
 		}
@@ -203,6 +213,20 @@ const Plugins: Component = () => {
 				</div>
 			</div>
 
+			{/* Daemon offline banner */}
+			<Show when={offline()}>
+				<div class="mb-4 p-3 rounded bg-yellow-500/20 text-yellow-500 flex items-center justify-between">
+					<span>WOPR daemon offline. Check that it is running, then retry.</span>
+					<button
+						type="button"
+						onClick={load}
+						class="px-3 py-1 rounded text-sm bg-yellow-500/20 hover:bg-yellow-500/30"
+					>
+						Retry
+					</button>
+				</div>
+			</Show>
+
 			{/* Error banner */}
 			<Show when={error()}>
 				<div class="mb-4 p-3 rounded bg-red-500/20 text-red-500">{error()}</div>
@@ -1,5 +1,6 @@
-import { type Component, createSignal, For, onMount } from "solid-js";
+import { type Component, createSignal, onMount, Show } from "solid-js";
 import { api, type WoprConfig } from "../lib/api";
+import { describeError } from "../lib/errors";
 
 const Settings: Component = () => {
 	const [config, setConfig] = createSignal<WoprConfig | null>(null);
@@ -12,7 +13,7 @@ const Settings: Component = () => {
 			setConfig(cfg);
 		} catch (err) {
 			console.error("Failed to load config:", err);
-			setMessage("Failed to load config");
+			setMessage(`Failed to load config: ${describeError(err)}`);
 		}
 	});
 
@@ -24,13 +25,13 @@ const Settings: Component = () => {
 		setMessage(null);
 
 		try {
-			// Save each section
-			await api.setConfigValue("daemon", cfg.daemon);
-			await api.setConfigValue("anthropic", cfg.anthropic);
-			await api.setConfigValue("oauth", cfg.oauth);
+			// Save each section the daemon has; the form only shows those
+			if (cfg.daemon) await api.setConfigValue("daemon", cfg.daemon);
+			if (cfg.anthropic) await api.setConfigValue("anthropic", cfg.anthropic);
+			if (cfg.oauth) await api.setConfigValue("oauth", cfg.oauth);
 			if (cfg.discord) await api.setConfigValue("discord", cfg.discord);
-			await api.setConfigValue("discovery", cfg.discovery);
-			await api.setConfigValue("plugins", cfg.plugins);
+			if (cfg.discovery) await api.setConfigValue("discovery", cfg.discovery);
+			if (cfg.plugins) await api.setConfigValue("plugins", cfg.plugins);
 
 			setMessage("Configuration saved!");
 			setTimeout(() => setMessage(null), 3000);
@@ -89,63 +90,65 @@ const Settings: Component = () => {
 
 			{config() ? (
 				<div class="space-y-6">
-					{/* Daemon Settings */}
-					<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
-						<h2 class="text-lg font-semibold text-wopr-accent mb-4">Daemon</h2>
-						<div class="space-y-3">
-							<div>
-								<label class="block text-sm text-wopr-muted mb-1">Port</label>
-								<input
-									type="number"
-									value={config()!.daemon.port}
-									onInput={(e) =>
-										setConfig({
-											...config()!,
-											daemon: {
-												...config()!.daemon,
-												port: parseInt(e.currentTarget.value) || 7437,
-											},
-										})
-									}
-									class="w-full bg-wopr-bg border border-wopr-border rounded px-3 py-2 focus:outline-none focus:border-wopr-accent"
-								/>
-							</div>
-							<div>
-								<label class="block text-sm text-wopr-muted mb-1">Host</label>
-								<input
-									type="text"
-									value={config()!.daemon.host}
-									onInput={(e) =>
-										setConfig({
-											...config()!,
-											daemon: {
-												...config()!.daemon,
-												host: e.currentTarget.value,
-											},
-										})
-									}
-									class="w-full bg-wopr-bg border border-wopr-border rounded px-3 py-2 focus:outline-none focus:border-wopr-accent"
-								/>
+					<Show when={config()!.daemon}>
+						{/* Daemon Settings */}
+						<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
+							<h2 class="text-lg font-semibold text-wopr-accent mb-4">Daemon</h2>
+							<div class="space-y-3">
+								<div>
+									<label class="block text-sm text-wopr-muted mb-1">Port</label>
+									<input
+										type="number"
+										value={config()!.daemon!.port}
+										onInput={(e) =>
+											setConfig({
+												...config()!,
+												daemon: {
+													...config()!.daemon!,
+													port: parseInt(e.currentTarget.value) || 7437,
+												},
+											})
+										}
+										class="w-full bg-wopr-bg border border-wopr-border rounded px-3 py-2 focus:outline-none focus:border-wopr-accent"
+									/>
+								</div>
+								<div>
+									<label class="block text-sm text-wopr-muted mb-1">Host</label>
+									<input
+										type="text"
+										value={config()!.daemon!.host}
+										onInput={(e) =>
+											setConfig({
+												...config()!,
+												daemon: {
+													...config()!.daemon!,
+													host: e.currentTarget.value,
+												},
+											})
+										}
+										class="w-full bg-wopr-bg border border-wopr-border rounded px-3 py-2 focus:outline-none focus:border-wopr-accent"
+									/>
+								</div>
+								<div class="flex items-center gap-2">
+									<input
+										type="checkbox"
+										checked={config()!.daemon!.autoStart}
+										onChange={(e) =>
+											setConfig({
+												...config()!,
+												daemon: {
+													...config()!.daemon!,
+													autoStart: e.currentTarget.checked,
+												},
+											})
+										}
+										class="rounded border-wopr-border"
+									/>
+									<label class="text-sm text-wopr-text">Auto-start daemon on boot</label>
+								</div>
 							</div>
-							<div class="flex items-center gap-2">
-								<input
-									type="checkbox"
-									checked={config()!.daemon.autoStart}
-									onChange={(e) =>
-										setConfig({
-											...config()!,
-											daemon: {
-												...config()!.daemon,
-												autoStart: e.currentTarget.checked,
-											},
-										})
-									}
-									class="rounded border-wopr-border"
-								/>
-								<label class="text-sm text-wopr-text">Auto-start daemon on boot</label>
-							</div>
-						</div>
-					</section>
+						</section>
+					</Show>
 
 					{/* Anthropic */}
 					<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
@@ -154,7 +157,7 @@ const Settings: Component = () => {
 							<label class="block text-sm text-wopr-muted mb-1">API Key</label>
 							<input
 								type="password"
-								value={config()!.anthropic.apiKey || ""}
+								value={config()!.anthropic?.apiKey || ""}
 								onInput={(e) =>
 									setConfig({
 										...config()!,
@@ -178,7 +181,7 @@ const Settings: Component = () => {
 								<label class="block text-sm text-wopr-muted mb-1">Client ID</label>
 								<input
 									type="text"
-									value={config()!.oauth.clientId || ""}
+									value={config()!.oauth?.clientId || ""}
 									onInput={(e) =>
 										setConfig({
 											...config()!,
@@ -195,7 +198,7 @@ const Settings: Component = () => {
 								<label class="block text-sm text-wopr-muted mb-1">Client Secret</label>
 								<input
 									type="password"
-									value={config()!.oauth.clientSecret || ""}
+									value={config()!.oauth?.clientSecret || ""}
 									onInput={(e) =>
 										setConfig({
 											...config()!,
@@ -212,7 +215,7 @@ const Settings: Component = () => {
 								<label class="block text-sm text-wopr-muted mb-1">Redirect URI</label>
 								<input
 									type="text"
-									value={config()!.oauth.redirectUri || ""}
+									value={config()!.oauth?.redirectUri || ""}
 									onInput={(e) =>
 										setConfig({
 											...config()!,
@@ -270,71 +273,75 @@ const Settings: Component = () => {
 						</div>
 					</section>
 
-					{/* Discovery */}
-					<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
-						<h2 class="text-lg font-semibold text-wopr-accent mb-4">Discovery</h2>
-						<div class="space-y-3">
-							<div>
-								<label class="block text-sm text-wopr-muted mb-1">Auto-join Topics (comma-separated)</label>
-								<input
-									type="text"
-									value={config()!.discovery.topics.join(", ")}
-									onInput={(e) =>
-										setConfig({
-											...config()!,
-											discovery: {
-												...config()!.discovery,
-												topics: e.currentTarget.value.split(",").map((t) => t.trim()),
-											},
-										})
-									}
-									placeholder="ai-agents, wopr-network"
-									class="w-full bg-wopr-bg border border-wopr-border rounded px-3 py-2 focus:outline-none focus:border-wopr-accent"
-								/>
-							</div>
-							<div class="flex items-center gap-2">
-								<input
-									type="checkbox"
-									checked={config()!.discovery.autoJoin}
-									onChange={(e) =>
-										setConfig({
-											...config()!,
-											discovery: {
-												...config()!.discovery,
-												autoJoin: e.currentTarget.checked,
-											},
-										})
-									}
-									class="rounded border-wopr-border"
-								/>
-								<label class="text-sm text-wopr-text">Auto-join topics on startup</label>
+					<Show when={config()!.discovery}>
+						{/* Discovery */}
+						<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
+							<h2 class="text-lg font-semibold text-wopr-accent mb-4">Discovery</h2>
+							<div class="space-y-3">
+								<div>
+									<label class="block text-sm text-wopr-muted mb-1">Auto-join Topics (comma-separated)</label>
+									<input
+										type="text"
+										value={config()!.discovery!.topics.join(", ")}
+										onInput={(e) =>
+											setConfig({
+												...config()!,
+												discovery: {
+													...config()!.discovery!,
+													topics: e.currentTarget.value.split(",").map((t) => t.trim()),
+												},
+											})
+										}
+										placeholder="ai-agents, wopr-network"
+										class="w-full bg-wopr-bg border border-wopr-border rounded px-3 py-2 focus:outline-none focus:border-wopr-accent"
+									/>
+								</div>
+								<div class="flex items-center gap-2">
+									<input
+										type="checkbox"
+										checked={config()!.discovery!.autoJoin}
+										onChange={(e) =>
+											setConfig({
+												...config()!,
+												discovery: {
+													...config()!.discovery!,
+													autoJoin: e.currentTarget.checked,
+												},
+											})
+										}
+										class="rounded border-wopr-border"
+									/>
+									<label class="text-sm text-wopr-text">Auto-join topics on startup</label>
+								</div>
 							</div>
-						</div>
-					</section>
+						</section>
+					</Show>
 
-					{/* Plugins */}
-					<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
-						<h2 class="text-lg font-semibold text-wopr-accent mb-4">Plugins</h2>
-						<div class="space-y-3">
-							<div class="flex items-center gap-2">
-								<input
-									type="checkbox"
-									checked={config()!.plugins.autoLoad}
-									onChange={(e) =>
-										setConfig({
-											...config()!,
-											plugins: {
-												...config()!.plugins,
-												autoLoad: e.currentTarget.checked,
-											},
-										})
-									}
-									class="rounded border-wopr-border"
-								/>
-								<label class="text-sm text-wopr-text">Auto-load plugins on startup</label>
+					<Show when={config()!.plugins}>
+						{/* Plugins */}
+						<section class="bg-wopr-panel border border-wopr-border rounded-lg p-4">
+							<h2 class="text-lg font-semibold text-wopr-accent mb-4">Plugins</h2>
+							<div class="space-y-3">
+								<div class="flex items-center gap-2">
+									<input
+										type="checkbox"
+										checked={config()!.plugins!.autoLoad}
+										onChange={(e) =>
+											setConfig({
+												...config()!,
+												plugins: {
+													...config()!.plugins!,
+													autoLoad: e.currentTarget.checked,
+												},
+											})
+										}
+										class="rounded border-wopr-border"
+									/>
+									<label class="text-sm text-wopr-text">Auto-load plugins on startup</label>
+								</div>
 							</div>
-						</div>
-					</section>
+						</section>
+					</Show>
 				</div>
 			) : (
 				<div class="text-wopr-muted">Loading configuration...</div>
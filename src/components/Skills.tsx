@@ -1,5 +1,6 @@
 import { type Component, createSignal, For, onMount, Show } from "solid-js";
 import { type AvailableSkill, api, type InstalledSkill } from "../lib/api";
+import { reportError } from "../lib/errors";
 
 const Skills: Component = () => {
 	const [tab, setTab] = createSignal<"installed" | "available">("installed");
@@ -7,15 +8,17 @@ const Skills: Component = () => {
 	const [available, setAvailable] = createSignal<AvailableSkill[]>([]);
 	const [loading, setLoading] = createSignal(true);
 	const [error, setError] = createSignal<string | null>(null);
+	const [offline, setOffline] = createSignal(false);
 	const [actionInProgress, setActionInProgress] = createSignal<string | null>(null);
 
+	const errorHandlers = { onOffline: () => setOffline(true), onError: setError };
+
 	async function loadInstalled() {
 		try {
 			const data = await api.getSkills();
 			setInstalled(data.skills);
 		} catch (err: unknown) {
-			const msg = err instanceof Error ? err.message : "Unknown error";
-			setError(`Failed to load installed skills: ${msg}`);
+			reportError(err, errorHandlers, "Failed to load installed skills");
 		}
 	}
 
@@ -24,16 +27,19 @@ const Skills: Component = () => {
 			const data = await api.getAvailableSkills();
 			setAvailable(data.skills);
 		} catch (err: unknown) {
-			const msg = err instanceof Error ? err.message : "Unknown error";
-			setError(`Failed to load available skills: ${msg}`);
+			reportError(err, errorHandlers, "Failed to load available skills");
 		}
 	}
 
-	onMount(async () => {
+	async function load() {
 		setLoading(true);
+		setError(null);
+		setOffline(false);
 		await Promise.all([loadInstalled(), loadAvailable()]);
 		setLoading(false);
-	});
+	}
+
+	onMount(load);
 
 	async function handleToggle(skill: InstalledSkill) {
 		setActionInProgress(skill.id);
@@ -46,8 +52,7 @@ const Skills: Component = () => {
 			}
 			await loadInstalled();
 		} catch (err: unknown) {
-			const msg = err instanceof Error ? err.message : "Unknown error";
-			setError(`Failed to ${skill.enabled ? "disable" : "enable"} skill: ${msg}`);
+			reportError(err, errorHandlers, `Failed to ${skill.enabled ? "disable" : "enable"} skill`);
 		} finally {
 			setActionInProgress(null);
 		}
@@ -61,8 +66,7 @@ const Skills: Component = () => {
 			await api.uninstallSkill(skill.id);
 			await Promise.all([loadInstalled(), loadAvailable()]);
 		} catch (err: unknown) {
-			const msg = err instanceof Error ? err.message : "Unknown error";
-			setError(`Failed to uninstall skill: ${msg}`);
+			reportError(err, errorHandlers, "Failed to uninstall skill");
 		} finally {
 			setActionInProgress(null);
 		}
@@ -75,8 +79,7 @@ const Skills: Component = () => {
 			await api.installSkill(skill.id);
 			await Promise.all([loadInstalled(), loadAvailable()]);
 		} catch (err: unknown) {
-			const msg = err instanceof Error ? err.message : "Unknown error";
-			setError(`Failed to install skill: ${msg}`);
+			reportError(err, errorHandlers, "Failed to install skill");
 		} finally {
 			setActionInProgress(null);
 		}
@@ -108,6 +111,20 @@ const Skills: Component = () => {
 				</button>
 			</div>
 
+			{/* Daemon offline banner */}
+			<Show when={offline()}>
+				<div class="mb-4 p-3 rounded bg-yellow-500/20 text-yellow-500 flex items-center justify-between">
+					<span>WOPR daemon offline. Check that it is running, then retry.</span>
+					<button
+						type="button"
+						onClick={load}
+						class="px-3 py-1 rounded text-sm bg-yellow-500/20 hover:bg-yellow-500/30"
+					>
+						Retry
+					</button>
+				</div>
+			</Show>
+
 			{/* Error banner */}
 			<Show when={error()}>
 				<div class="mb-4 p-3 rounded bg-red-500/20 text-red-500">{error()}</div>
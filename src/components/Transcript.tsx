@@ -0,0 +1,120 @@
+import { type Component, createEffect, createSignal, Index, on, Show } from "solid-js";
+import { formatTimestamp, type TranscriptMessage } from "../lib/transcript";
+import Markdown from "./Markdown";
+
+// Scroll offsets by session, kept while the dashboard is open
+const scrollPositions = new Map<string, number>();
+
+// How close to the bottom still counts as following new messages, in pixels
+const FOLLOW_THRESHOLD = 40;
+
+const ROLE_LABELS: Record<TranscriptMessage["role"], string> = {
+	user: "You",
+	assistant: "WOPR",
+	injection: "Injected",
+};
+
+const Entry: Component<{ message: TranscriptMessage }> = (props) => {
+	// Replies are markdown; the raw text is a click away for copying or checking the source
+	const [raw, setRaw] = createSignal(false);
+	const rendered = () => props.message.role === "assistant" && !raw();
+
+	return (
+		<div class={`flex flex-col ${props.message.role === "user" ? "items-end" : "items-start"}`}>
+			<div class="flex items-center gap-2 mb-1 text-xs text-wopr-muted">
+				<span class="font-semibold">
+					{props.message.role === "injection" && props.message.from
+						? props.message.from
+						: ROLE_LABELS[props.message.role]}
+				</span>
+				<time dateTime={new Date(props.message.ts).toISOString()}>{formatTimestamp(props.message.ts)}</time>
+				<Show when={props.message.role === "assistant"}>
+					<button type="button" onClick={() => setRaw(!raw())} class="hover:text-wopr-text">
+						{raw() ? "Rendered" : "Raw"}
+					</button>
+				</Show>
+			</div>
+			<div
+				class={`rounded-lg p-4 border max-w-full ${
+					props.message.role === "user"
+						? "bg-wopr-accent/10 border-wopr-accent/30"
+						: props.message.role === "injection"
+							? "bg-wopr-panel/50 border-dashed border-wopr-border text-wopr-muted"
+							: "bg-wopr-panel border-wopr-border"
+				}`}
+			>
+				<Show
+					when={rendered()}
+					fallback={
+						<pre class={`whitespace-pre-wrap ${props.message.streaming ? "cursor-blink" : ""}`}>
+							{props.message.content}
+						</pre>
+					}
+				>
+					<div class={props.message.streaming ? "cursor-blink" : ""}>
+						<Markdown text={props.message.content} />
+					</div>
+				</Show>
+			</div>
+		</div>
+	);
+};
+
+const Transcript: Component<{
+	session: string;
+	messages: TranscriptMessage[];
+	loading: boolean;
+	error: string | null;
+}> = (props) => {
+	let container!: HTMLDivElement;
+	// Whether the view is at the bottom, so new messages keep it there
+	let following = true;
+
+	const atBottom = () => container.scrollHeight - container.scrollTop - container.clientHeight <= FOLLOW_THRESHOLD;
+
+	// Restore a session's scroll position when it is opened, and follow new messages at the bottom
+	createEffect(
+		on(
+			() => [props.session, props.messages] as const,
+			([session], previous) => {
+				if (previous?.[0] !== session) {
+					const saved = scrollPositions.get(session);
+					container.scrollTop = saved ?? container.scrollHeight;
+					following = saved === undefined || atBottom();
+				} else if (following) {
+					container.scrollTop = container.scrollHeight;
+				}
+			},
+		),
+	);
+
+	function handleScroll() {
+		scrollPositions.set(props.session, container.scrollTop);
+		following = atBottom();
+	}
+
+	return (
+		<div ref={container} onScroll={handleScroll} class="flex-1 p-6 overflow-auto">
+			<div class="max-w-4xl mx-auto space-y-4">
+				<Show when={props.error}>
+					<div class="p-3 bg-red-500/20 border border-red-500 rounded text-red-400 text-sm">{props.error}</div>
+				</Show>
+
+				<Show when={props.loading && props.messages.length === 0}>
+					<div class="text-center text-wopr-muted text-sm">Loading conversation...</div>
+				</Show>
+
+				<Show when={!props.loading && !props.error && props.messages.length === 0}>
+					<div class="text-center text-wopr-muted text-sm">No messages in this session yet</div>
+				</Show>
+
+				{/* By position, so a streaming reply updates in place instead of being rebuilt for every chunk */}
+				<Show when={props.session} keyed>
+					<Index each={props.messages}>{(message) => <Entry message={message()} />}</Index>
+				</Show>
+			</div>
+		</div>
+	);
+};
+
+export default Transcript;
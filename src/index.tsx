@@ -2,6 +2,7 @@
 import { render } from "solid-js/web";
 import "./index.css";
 import App from "./App";
+import { loadBootstrap } from "./lib/bootstrap";
 
 const root = document.getElementById("root");
 
@@ -9,4 +10,7 @@ if (!root) {
 	throw new Error("Root element not found");
 }
 
+// Learn the API and WebSocket URLs before anything talks to the server
+await loadBootstrap();
+
 render(() => <App />, root);
@@ -0,0 +1,270 @@
+/**
+ * API Response Schemas
+ *
+ * The shape of every daemon response the dashboard reads, matching the
+ * models in api.ts. request() checks responses against these before they
+ * reach a component.
+ */
+
+import type {
+	AvailablePlugin,
+	AvailableSkill,
+	ConfigFieldDef,
+	ConfigKey,
+	ConfigSchemaField,
+	ConfigValue,
+	Cron,
+	CronScript,
+	Identity,
+	InjectResponse,
+	InstalledPlugin,
+	InstalledSkill,
+	Peer,
+	PluginManifestSummary,
+	Session,
+	SessionHistoryEntry,
+	UiComponentExtension,
+	WebMCPToolDeclaration,
+	WebUIManifest,
+	WebUiExtension,
+	WoprConfig,
+} from "./api";
+import {
+	array,
+	boolean,
+	number,
+	type ObjectFields,
+	object,
+	oneOf,
+	optional,
+	record,
+	type Schema,
+	string,
+	unknown,
+} from "./schema";
+
+// --- Sessions ---
+
+export const sessionSchema = object<Session>({
+	name: string(),
+	id: optional(string()),
+	context: optional(string()),
+});
+
+export const sessionHistoryEntrySchema = object<SessionHistoryEntry>({
+	ts: number(),
+	from: string(),
+	content: string(),
+	type: string(),
+});
+
+export const injectResponseSchema = object<InjectResponse>({
+	session: string(),
+	sessionId: string(),
+	response: string(),
+	cost: number(),
+});
+
+export const authStatusSchema = object<{ authenticated: boolean; type?: string }>({
+	authenticated: boolean(),
+	type: optional(string()),
+});
+
+// --- Crons, peers and identity ---
+
+export const cronSchema = object<Cron>({
+	name: string(),
+	schedule: string(),
+	session: string(),
+	message: string(),
+	once: optional(boolean()),
+	runAt: optional(number()),
+	scripts: optional(
+		array(
+			object<CronScript>({ name: string(), command: string(), timeout: optional(number()), cwd: optional(string()) }),
+		),
+	),
+});
+
+export const peerSchema = object<Peer>({
+	id: string(),
+	name: optional(string()),
+	publicKey: string(),
+	encryptPub: optional(string()),
+	sessions: array(string()),
+	caps: array(string()),
+	added: number(),
+});
+
+export const identitySchema = object<Identity>({
+	shortId: string(),
+	publicKey: string(),
+	encryptPub: optional(string()),
+});
+
+// --- Plugins ---
+
+const pluginCategorySchema = oneOf("channel", "provider", "voice", "memory", "utility");
+
+const selectOptionSchema = object<{ label: string; value: string }>({ label: string(), value: string() });
+
+const configSchemaFieldSchema = object<ConfigSchemaField>({
+	type: oneOf("string", "number", "boolean", "select"),
+	label: string(),
+	description: optional(string()),
+	default: unknown(),
+	required: optional(boolean()),
+	options: optional(array(selectOptionSchema)),
+});
+
+export const installedPluginSchema = object<InstalledPlugin>({
+	id: string(),
+	name: string(),
+	version: string(),
+	enabled: boolean(),
+	healthy: boolean(),
+	description: optional(string()),
+	category: optional(pluginCategorySchema),
+	updateAvailable: optional(string()),
+	configSchema: optional(record(configSchemaFieldSchema)),
+});
+
+export const availablePluginSchema = object<AvailablePlugin>({
+	name: string(),
+	description: string(),
+	version: string(),
+	category: optional(pluginCategorySchema),
+	requirements: optional(array(string())),
+	setupSteps: optional(array(string())),
+	configSchema: optional(record(configSchemaFieldSchema)),
+});
+
+const configFieldDefSchema = object<ConfigFieldDef>({
+	name: string(),
+	type: string(),
+	label: string(),
+	placeholder: optional(string()),
+	required: optional(boolean()),
+	default: unknown(),
+	options: optional(array(selectOptionSchema)),
+	description: optional(string()),
+	secret: optional(boolean()),
+});
+
+const webUiManifestSchema = object<WebUIManifest>({
+	panels: optional(
+		array(
+			object({
+				id: string(),
+				title: string(),
+				icon: optional(string()),
+				type: oneOf("status", "config", "logs", "metrics", "custom"),
+				endpoints: optional(array(string())),
+				configFields: optional(array(string())),
+				component: optional(string()),
+				pollIntervalMs: optional(number()),
+			}),
+		),
+	),
+	routes: optional(array(object({ path: string(), title: string(), icon: optional(string()), component: string() }))),
+});
+
+const webMcpToolSchema = object<WebMCPToolDeclaration>({
+	name: string(),
+	description: string(),
+	inputSchema: optional(record(unknown())),
+	annotations: optional(object({ readOnlyHint: optional(boolean()) })),
+});
+
+export const pluginManifestSchema = object<PluginManifestSummary>({
+	name: string(),
+	version: string(),
+	description: string(),
+	icon: optional(string()),
+	capabilities: array(string()),
+	configSchema: optional(
+		object({ title: string(), description: optional(string()), fields: array(configFieldDefSchema) }),
+	),
+	lifecycle: optional(object({ healthEndpoint: optional(string()), healthIntervalMs: optional(number()) })),
+	webui: optional(webUiManifestSchema),
+	webmcpTools: optional(array(webMcpToolSchema)),
+});
+
+export const webUiExtensionSchema = object<WebUiExtension>({
+	id: string(),
+	title: string(),
+	url: string(),
+	description: optional(string()),
+	category: optional(string()),
+});
+
+export const uiComponentSchema = object<UiComponentExtension>({
+	id: string(),
+	title: string(),
+	moduleUrl: string(),
+	slot: oneOf("sidebar", "settings", "statusbar", "chat-header", "chat-footer"),
+	description: optional(string()),
+});
+
+// --- Skills ---
+
+export const installedSkillSchema = object<InstalledSkill>({
+	id: string(),
+	name: string(),
+	description: string(),
+	enabled: boolean(),
+	version: optional(string()),
+	category: optional(string()),
+});
+
+export const availableSkillSchema = object<AvailableSkill>({
+	id: string(),
+	name: string(),
+	description: string(),
+	category: optional(string()),
+	version: optional(string()),
+});
+
+// --- Config ---
+
+type SectionFields<S extends keyof WoprConfig> = {
+	[F in keyof NonNullable<WoprConfig[S]>]-?: Schema<NonNullable<WoprConfig[S]>[F]>;
+};
+
+const configFields: { [S in keyof WoprConfig]-?: SectionFields<S> } = {
+	daemon: { port: number(), host: string(), autoStart: boolean() },
+	anthropic: { apiKey: optional(string()) },
+	oauth: { clientId: optional(string()), clientSecret: optional(string()), redirectUri: optional(string()) },
+	discord: { token: optional(string()), guildId: optional(string()) },
+	discovery: { topics: array(string()), autoJoin: boolean() },
+	plugins: { autoLoad: boolean(), directories: array(string()) },
+};
+
+export const woprConfigSchema = object<WoprConfig>({
+	daemon: optional(object(configFields.daemon)),
+	anthropic: optional(object(configFields.anthropic)),
+	oauth: optional(object(configFields.oauth)),
+	discord: optional(object(configFields.discord)),
+	discovery: optional(object(configFields.discovery)),
+	plugins: optional(object(configFields.plugins)),
+});
+
+/**
+ * The schema for the value under a config key. Keys without one, such as
+ * settings from a newer daemon reached through a cast, pass through unchecked.
+ */
+export function configValueSchema<K extends ConfigKey>(key: K): Schema<ConfigValue<K>> {
+	const [section, field, ...rest] = key.split(".");
+	let schema: Schema<unknown> = unknown();
+	if (Object.hasOwn(configFields, section) && rest.length === 0) {
+		const fields: Record<string, Schema<unknown>> = configFields[section as keyof WoprConfig];
+		if (field === undefined) schema = woprConfigSchema.fields[section as keyof WoprConfig];
+		else if (Object.hasOwn(fields, field)) schema = fields[field];
+	}
+	return schema as Schema<ConfigValue<K>>;
+}
+
+/** A list response such as { plugins: [...] } */
+export function listOf<K extends string, T>(key: K, item: Schema<T>): Schema<{ [P in K]: T[] }> {
+	return object({ [key]: array(item) } as ObjectFields<{ [P in K]: T[] }>);
+}
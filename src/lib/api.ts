@@ -7,21 +7,43 @@ import type {
 	UiComponentExtension,
 	WebUiExtension,
 } from "@wopr-network/plugin-types";
-
+import {
+	authStatusSchema,
+	availablePluginSchema,
+	availableSkillSchema,
+	configValueSchema,
+	cronSchema,
+	identitySchema,
+	injectResponseSchema,
+	installedPluginSchema,
+	installedSkillSchema,
+	listOf,
+	peerSchema,
+	pluginManifestSchema,
+	sessionHistoryEntrySchema,
+	sessionSchema,
+	uiComponentSchema,
+	webUiExtensionSchema,
+	woprConfigSchema,
+} from "./api-schemas";
+import { getBootstrap } from "./bootstrap";
+import { ApiError } from "./errors";
+import { object, parse, record, type Schema, unknown, type ValidationMode } from "./schema";
+
+export { SchemaError, type ValidationMode } from "./schema";
 export type { PluginUiComponentProps, StreamMessage, UiComponentExtension, WebUiExtension };
 
-const API_BASE = "/api";
-
+/** The daemon leaves out sections that were never configured */
 export interface WoprConfig {
-	daemon: {
+	daemon?: {
 		port: number;
 		host: string;
 		autoStart: boolean;
 	};
-	anthropic: {
+	anthropic?: {
 		apiKey?: string;
 	};
-	oauth: {
+	oauth?: {
 		clientId?: string;
 		clientSecret?: string;
 		redirectUri?: string;
@@ -30,16 +52,28 @@ export interface WoprConfig {
 		token?: string;
 		guildId?: string;
 	};
-	discovery: {
+	discovery?: {
 		topics: string[];
 		autoJoin: boolean;
 	};
-	plugins: {
+	plugins?: {
 		autoLoad: boolean;
 		directories: string[];
 	};
 }
 
+/** A config section, or a field within one as "section.field" */
+export type ConfigKey = {
+	[S in keyof WoprConfig]-?: S | `${S}.${keyof NonNullable<WoprConfig[S]> & string}`;
+}[keyof WoprConfig];
+
+/** The type stored under a config key */
+export type ConfigValue<K extends ConfigKey> = K extends `${infer S extends keyof WoprConfig}.${infer F}`
+	? NonNullable<WoprConfig[S]>[F & keyof NonNullable<WoprConfig[S]>]
+	: K extends keyof WoprConfig
+		? WoprConfig[K]
+		: never;
+
 export interface Session {
 	name: string;
 	id?: string;
@@ -52,6 +86,10 @@ export interface StreamEvent {
 	from?: string;
 	message: StreamMessage;
 	ts?: number;
+	/** Increases with every event in a session; used to resume after a reconnect */
+	seq?: number;
+	/** On "subscribed": the sessions whose missed events are being replayed */
+	resumed?: string[];
 }
 
 // --- Manifest-driven panel types ---
@@ -117,6 +155,16 @@ export interface ConfigFieldDef {
 	secret?: boolean;
 }
 
+/** One entry in a session's conversation log */
+export interface SessionHistoryEntry {
+	/** Epoch milliseconds */
+	ts: number;
+	from: string;
+	content: string;
+	/** "message" for what was sent, "response" for the reply; the daemon also logs "context" and others */
+	type: string;
+}
+
 export interface InjectResponse {
 	session: string;
 	sessionId: string;
@@ -174,218 +222,429 @@ export interface AvailableSkill {
 	version?: string;
 }
 
-async function request<T>(path: string, options?: RequestInit): Promise<T> {
-	const res = await fetch(`${API_BASE}${path}`, {
-		...options,
-		headers: {
-			"Content-Type": "application/json",
-			...options?.headers,
-		},
+/** A script a cron job runs before its message, whose output is added to the message */
+export interface CronScript {
+	name: string;
+	command: string;
+	/** Milliseconds before the script is killed */
+	timeout?: number;
+	cwd?: string;
+}
+
+/** A scheduled injection into a session */
+export interface Cron {
+	name: string;
+	/** Five-field cron expression */
+	schedule: string;
+	session: string;
+	message: string;
+	/** Run once at runAt instead of on the schedule */
+	once?: boolean;
+	/** Epoch milliseconds of a one-off run */
+	runAt?: number;
+	scripts?: CronScript[];
+}
+
+export type NewCron = Pick<Cron, "name" | "schedule" | "session" | "message"> &
+	Partial<Pick<Cron, "once" | "runAt" | "scripts">>;
+
+/** A P2P peer this daemon has accepted */
+export interface Peer {
+	/** Short form of the peer's public key */
+	id: string;
+	name?: string;
+	publicKey: string;
+	encryptPub?: string;
+	/** Sessions the peer may inject into */
+	sessions: string[];
+	caps: string[];
+	/** Epoch milliseconds the peer was added */
+	added: number;
+}
+
+/** This daemon's P2P identity; private keys never leave the daemon */
+export interface Identity {
+	/** Short form of the public key, as peers see it */
+	shortId: string;
+	publicKey: string;
+	encryptPub?: string;
+}
+
+/** Parse a Retry-After header, either delay-seconds or an HTTP date, into whole seconds */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+	if (!value) return null;
+	if (/^\d+$/.test(value.trim())) return Number(value);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/** Per-call options accepted by every API method */
+export interface CallOptions {
+	/** Abort the call, e.g. when the component that made it unmounts */
+	signal?: AbortSignal;
+	/** Give up on each attempt after this long; 0 waits forever */
+	timeoutMs?: number;
+	/** Extra attempts after a network error or 502/503/504; only GETs are retried */
+	retries?: number;
+}
+
+type RequestOptions<T> = RequestInit &
+	Omit<CallOptions, "signal"> & {
+		/** Checked against the response before it is returned */
+		schema?: Schema<T>;
+	};
+
+// Development builds throw on drift so it gets fixed; production keeps rendering what it can
+let validationMode: ValidationMode = import.meta.env.DEV ? "strict" : "lenient";
+
+/** Override how responses of the wrong shape are handled */
+export function setValidationMode(mode: ValidationMode): void {
+	validationMode = mode;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15_000;
+export const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Longer Retry-After waits are not worth holding a page on "Loading..."; the error is shown instead
+const RETRY_MAX_DELAY_MS = 10_000;
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/** Whether a failed attempt is worth repeating: the daemon may come back, the request itself was fine */
+function isRetryable(err: unknown): err is ApiError {
+	return err instanceof ApiError && (err.isNetworkError || RETRYABLE_STATUSES.has(err.status));
+}
+
+/**
+ * How long to wait before retry number `attempt` (0-based): the server's
+ * Retry-After when it sent one, else exponential backoff with full jitter
+ * so reconnecting dashboards don't retry in lockstep. Null when the
+ * server asks for a longer wait than is worth blocking on.
+ */
+export function retryDelay(attempt: number, retryAfter: number | null, random = Math.random): number | null {
+	if (retryAfter !== null) return retryAfter * 1000 <= RETRY_MAX_DELAY_MS ? retryAfter * 1000 : null;
+	return Math.round(random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			},
+			{ once: true },
+		);
 	});
+}
+
+/** One attempt at a call, with its own timeout */
+async function attempt<T>(path: string, init: RequestInit, timeoutMs: number): Promise<T> {
+	const method = init.method ?? "GET";
+	const timeout = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : null;
+	const signals = [init.signal, timeout].filter((signal): signal is AbortSignal => Boolean(signal));
+	let res: Response;
+	try {
+		res = await fetch(`${getBootstrap().apiUrl}${path}`, {
+			...init,
+			signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+			headers: {
+				"Content-Type": "application/json",
+				...init.headers,
+			},
+		});
+	} catch (err) {
+		// The caller's own abort is passed through as is
+		if (init.signal?.aborted) throw err;
+		if (timeout?.aborted) {
+			throw new ApiError(`Request timed out after ${timeoutMs / 1000}s`, {
+				status: 0,
+				code: "TIMEOUT",
+				path,
+				method,
+				cause: err,
+			});
+		}
+		throw new ApiError("Cannot reach the WOPR web UI server", { status: 0, path, method, cause: err });
+	}
 
 	if (!res.ok) {
-		const error = await res.json().catch(() => ({ error: "Request failed" }));
-		throw new Error(error.error || "Request failed");
+		const body = await res.json().catch(() => null);
+		const fields = (body && typeof body === "object" ? body : {}) as { error?: unknown; code?: unknown };
+		throw new ApiError(typeof fields.error === "string" && fields.error ? fields.error : "Request failed", {
+			status: res.status,
+			code: typeof fields.code === "string" ? fields.code : undefined,
+			path,
+			method,
+			body,
+			retryAfter: parseRetryAfter(res.headers?.get("Retry-After")),
+		});
 	}
 
 	return res.json();
 }
 
+/**
+ * Call the daemon API. Every attempt times out after timeoutMs. GETs
+ * are retried on network errors and 502/503/504; other methods are never
+ * retried, since a request that timed out may still have taken effect.
+ * With a schema, the response is checked in the current validation mode.
+ */
+async function request<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+	const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, schema, ...init } = options;
+	const method = init.method ?? "GET";
+	for (let tries = 0; ; tries++) {
+		try {
+			const data = await attempt<T>(path, init, timeoutMs);
+			return schema ? parse(schema, data, method, path, validationMode) : data;
+		} catch (err) {
+			const delay = method === "GET" && tries < retries && isRetryable(err) ? retryDelay(tries, err.retryAfter) : null;
+			if (delay === null) throw err;
+			await sleep(delay, init.signal);
+		}
+	}
+}
+
 export const api = {
 	// Sessions
-	async getSessions(): Promise<{ sessions: Session[] }> {
-		return request("/sessions");
+	async getSessions(call?: CallOptions): Promise<{ sessions: Session[] }> {
+		return request("/sessions", { ...call, schema: listOf("sessions", sessionSchema) });
 	},
 
-	async createSession(name: string, context?: string): Promise<Session> {
+	async createSession(name: string, context?: string, call?: CallOptions): Promise<Session> {
 		return request("/sessions", {
+			...call,
+			schema: sessionSchema,
 			method: "POST",
 			body: JSON.stringify({ name, context }),
 		});
 	},
 
-	async deleteSession(name: string): Promise<void> {
+	async getSessionHistory(
+		name: string,
+		limit?: number,
+		call?: CallOptions,
+	): Promise<{ history: SessionHistoryEntry[] }> {
+		const query = limit ? `?limit=${limit}` : "";
+		return request(`/sessions/${encodeURIComponent(name)}/history${query}`, {
+			...call,
+			schema: listOf("history", sessionHistoryEntrySchema),
+		});
+	},
+
+	async deleteSession(name: string, call?: CallOptions): Promise<void> {
 		await request(`/sessions/${encodeURIComponent(name)}`, {
+			...call,
 			method: "DELETE",
 		});
 	},
 
-	async inject(session: string, message: string): Promise<InjectResponse> {
+	async inject(session: string, message: string, call?: CallOptions): Promise<InjectResponse> {
+		// The reply is sent once the model finishes, which can take minutes
 		return request(`/sessions/${encodeURIComponent(session)}/inject`, {
+			timeoutMs: 0,
+			...call,
+			schema: injectResponseSchema,
 			method: "POST",
 			body: JSON.stringify({ message }),
 		});
 	},
 
 	// Auth
-	async getAuthStatus(): Promise<{ authenticated: boolean; type?: string }> {
-		return request("/auth");
+	async getAuthStatus(call?: CallOptions): Promise<{ authenticated: boolean; type?: string }> {
+		return request("/auth", { ...call, schema: authStatusSchema });
 	},
 
 	// Crons
-	async getCrons(): Promise<{ crons: any[] }> {
-		return request("/crons");
+	async getCrons(call?: CallOptions): Promise<{ crons: Cron[] }> {
+		return request("/crons", { ...call, schema: listOf("crons", cronSchema) });
 	},
 
-	async createCron(cron: { name: string; schedule: string; session: string; message: string }): Promise<any> {
+	async createCron(cron: NewCron, call?: CallOptions): Promise<Cron> {
 		return request("/crons", {
+			...call,
+			schema: cronSchema,
 			method: "POST",
 			body: JSON.stringify(cron),
 		});
 	},
 
-	async deleteCron(name: string): Promise<void> {
+	async deleteCron(name: string, call?: CallOptions): Promise<void> {
 		await request(`/crons/${encodeURIComponent(name)}`, {
+			...call,
 			method: "DELETE",
 		});
 	},
 
 	// Peers
-	async getPeers(): Promise<{ peers: any[] }> {
-		return request("/peers");
+	async getPeers(call?: CallOptions): Promise<{ peers: Peer[] }> {
+		return request("/peers", { ...call, schema: listOf("peers", peerSchema) });
 	},
 
 	// Plugins
-	async getPlugins(): Promise<{ plugins: InstalledPlugin[] }> {
-		return request("/plugins");
+	async getPlugins(call?: CallOptions): Promise<{ plugins: InstalledPlugin[] }> {
+		return request("/plugins", { ...call, schema: listOf("plugins", installedPluginSchema) });
 	},
 
-	async getAvailablePlugins(): Promise<{ plugins: AvailablePlugin[] }> {
-		return request("/plugins/available");
+	async getAvailablePlugins(call?: CallOptions): Promise<{ plugins: AvailablePlugin[] }> {
+		return request("/plugins/available", { ...call, schema: listOf("plugins", availablePluginSchema) });
 	},
 
-	async installPlugin(name: string): Promise<{ plugin: InstalledPlugin }> {
+	async installPlugin(name: string, call?: CallOptions): Promise<{ plugin: InstalledPlugin }> {
 		return request("/plugins/install", {
+			// Installs wait on npm
+			timeoutMs: 0,
+			...call,
+			schema: object({ plugin: installedPluginSchema }),
 			method: "POST",
 			body: JSON.stringify({ name }),
 		});
 	},
 
-	async uninstallPlugin(id: string): Promise<void> {
+	async uninstallPlugin(id: string, call?: CallOptions): Promise<void> {
 		await request("/plugins/uninstall", {
+			...call,
 			method: "POST",
 			body: JSON.stringify({ id }),
 		});
 	},
 
-	async enablePlugin(id: string): Promise<void> {
+	async enablePlugin(id: string, call?: CallOptions): Promise<void> {
 		await request(`/plugins/${encodeURIComponent(id)}/enable`, {
+			...call,
 			method: "POST",
 		});
 	},
 
-	async disablePlugin(id: string): Promise<void> {
+	async disablePlugin(id: string, call?: CallOptions): Promise<void> {
 		await request(`/plugins/${encodeURIComponent(id)}/disable`, {
+			...call,
 			method: "POST",
 		});
 	},
 
-	async getPluginConfig(id: string): Promise<Record<string, unknown>> {
-		return request(`/plugins/${encodeURIComponent(id)}/config`);
+	async getPluginConfig(id: string, call?: CallOptions): Promise<Record<string, unknown>> {
+		return request(`/plugins/${encodeURIComponent(id)}/config`, { ...call, schema: record(unknown()) });
 	},
 
-	async updatePluginConfig(id: string, config: Record<string, unknown>): Promise<void> {
+	async updatePluginConfig(id: string, config: Record<string, unknown>, call?: CallOptions): Promise<void> {
 		await request(`/plugins/${encodeURIComponent(id)}/config`, {
+			...call,
 			method: "PUT",
 			body: JSON.stringify(config),
 		});
 	},
 
 	// Plugin manifests (declarative panels)
-	async getPluginManifests(): Promise<{ manifests: PluginManifestSummary[] }> {
-		return request("/plugins/manifests");
+	async getPluginManifests(call?: CallOptions): Promise<{ manifests: PluginManifestSummary[] }> {
+		return request("/plugins/manifests", { ...call, schema: listOf("manifests", pluginManifestSchema) });
 	},
 
 	// Poll a plugin endpoint (status/metrics)
-	async pollPluginEndpoint(pluginName: string, endpoint: string): Promise<unknown> {
+	async pollPluginEndpoint(pluginName: string, endpoint: string, call?: CallOptions): Promise<unknown> {
 		const normalized = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
-		return request(`/plugins/${encodeURIComponent(pluginName)}/proxy${normalized}`);
+		return request(`/plugins/${encodeURIComponent(pluginName)}/proxy${normalized}`, call);
 	},
 
 	// Set a plugin config value
-	async setPluginConfigValue(pluginName: string, key: string, value: unknown): Promise<void> {
+	async setPluginConfigValue(pluginName: string, key: string, value: unknown, call?: CallOptions): Promise<void> {
 		await request(`/plugins/${encodeURIComponent(pluginName)}/config/${encodeURIComponent(key)}`, {
+			...call,
 			method: "PUT",
 			body: JSON.stringify({ value }),
 		});
 	},
 
 	// Web UI Extensions
-	async getWebUiExtensions(): Promise<{ extensions: WebUiExtension[] }> {
-		return request("/plugins/ui");
+	async getWebUiExtensions(call?: CallOptions): Promise<{ extensions: WebUiExtension[] }> {
+		return request("/plugins/ui", { ...call, schema: listOf("extensions", webUiExtensionSchema) });
 	},
 
 	// UI Component Extensions
-	async getUiComponents(): Promise<{ components: UiComponentExtension[] }> {
-		return request("/plugins/components");
+	async getUiComponents(call?: CallOptions): Promise<{ components: UiComponentExtension[] }> {
+		return request("/plugins/components", { ...call, schema: listOf("components", uiComponentSchema) });
 	},
 
 	// Identity
-	async getIdentity(): Promise<any> {
-		return request("/identity");
+	async getIdentity(call?: CallOptions): Promise<Identity> {
+		return request("/identity", { ...call, schema: identitySchema });
 	},
 
-	async initIdentity(force?: boolean): Promise<any> {
+	async initIdentity(force?: boolean, call?: CallOptions): Promise<Identity> {
 		return request("/identity", {
+			...call,
+			schema: identitySchema,
 			method: "POST",
 			body: JSON.stringify({ force }),
 		});
 	},
 
 	// Config
-	async getConfig(): Promise<WoprConfig> {
-		return request("/config");
+	async getConfig(call?: CallOptions): Promise<WoprConfig> {
+		return request("/config", { ...call, schema: woprConfigSchema });
 	},
 
-	async getConfigValue(key: string): Promise<any> {
-		const data = await request<{ key: string; value: any }>(`/config/${encodeURIComponent(key)}`);
+	async getConfigValue<K extends ConfigKey>(key: K, call?: CallOptions): Promise<ConfigValue<K>> {
+		const data = await request(`/config/${encodeURIComponent(key)}`, {
+			...call,
+			schema: object<{ value: ConfigValue<K> }>({ value: configValueSchema(key) }),
+		});
 		return data.value;
 	},
 
-	async setConfigValue(key: string, value: any): Promise<void> {
+	async setConfigValue<K extends ConfigKey>(key: K, value: ConfigValue<K>, call?: CallOptions): Promise<void> {
 		await request(`/config/${encodeURIComponent(key)}`, {
+			...call,
 			method: "PUT",
 			body: JSON.stringify({ value }),
 		});
 	},
 
-	async resetConfig(): Promise<void> {
+	async resetConfig(call?: CallOptions): Promise<void> {
 		await request("/config", {
+			...call,
 			method: "DELETE",
 		});
 	},
 
 	// Skills
-	async getSkills(): Promise<{ skills: InstalledSkill[] }> {
-		return request("/skills");
+	async getSkills(call?: CallOptions): Promise<{ skills: InstalledSkill[] }> {
+		return request("/skills", { ...call, schema: listOf("skills", installedSkillSchema) });
 	},
 
-	async getAvailableSkills(): Promise<{ skills: AvailableSkill[] }> {
-		return request("/skills/available");
+	async getAvailableSkills(call?: CallOptions): Promise<{ skills: AvailableSkill[] }> {
+		return request("/skills/available", { ...call, schema: listOf("skills", availableSkillSchema) });
 	},
 
-	async installSkill(id: string): Promise<void> {
+	async installSkill(id: string, call?: CallOptions): Promise<void> {
 		await request("/skills/install", {
+			// Installs wait on npm
+			timeoutMs: 0,
+			...call,
 			method: "POST",
 			body: JSON.stringify({ id }),
 		});
 	},
 
-	async uninstallSkill(id: string): Promise<void> {
+	async uninstallSkill(id: string, call?: CallOptions): Promise<void> {
 		await request("/skills/uninstall", {
+			...call,
 			method: "POST",
 			body: JSON.stringify({ id }),
 		});
 	},
 
-	async enableSkill(id: string): Promise<void> {
+	async enableSkill(id: string, call?: CallOptions): Promise<void> {
 		await request(`/skills/${encodeURIComponent(id)}/enable`, {
+			...call,
 			method: "POST",
 		});
 	},
 
-	async disableSkill(id: string): Promise<void> {
+	async disableSkill(id: string, call?: CallOptions): Promise<void> {
 		await request(`/skills/${encodeURIComponent(id)}/disable`, {
+			...call,
 			method: "POST",
 		});
 	},
@@ -0,0 +1,60 @@
+/**
+ * Dashboard Session Client
+ *
+ * Reads the login session established by the plugin server so the UI
+ * and the WebMCP registry know who is signed in.
+ */
+
+import { withBase } from "./base-path";
+import type { AuthContext } from "./webmcp";
+
+export type AuthMode = "none" | "password" | "token";
+
+export interface AuthSession {
+	authenticated: boolean;
+	mode: AuthMode;
+	user?: string;
+	sessionId?: string;
+	roles?: string[];
+}
+
+const SESSION_PATH = withBase("/auth/session");
+const LOGIN_PATH = withBase("/login");
+const LOGOUT_PATH = withBase("/logout");
+
+// Used when the server has no session endpoint (e.g. the Vite dev server)
+const NO_AUTH: AuthSession = { authenticated: true, mode: "none" };
+
+/** Fetch the current dashboard session from the plugin server */
+export async function getAuthSession(): Promise<AuthSession> {
+	const res = await fetch(SESSION_PATH, { headers: { Accept: "application/json" } });
+	const type = res.headers.get("Content-Type") ?? "";
+	if (!type.includes("application/json")) {
+		return NO_AUTH;
+	}
+	const data = (await res.json()) as AuthSession;
+	return { ...data, authenticated: res.ok && data.authenticated };
+}
+
+/** Map a dashboard session onto the WebMCP auth context */
+export function toAuthContext(session: AuthSession): AuthContext {
+	if (!session.authenticated || session.mode === "none") {
+		return {};
+	}
+	return {
+		userId: session.user,
+		sessionId: session.sessionId,
+		roles: session.roles ?? [],
+	};
+}
+
+/** Send the browser to the login page */
+export function redirectToLogin(): void {
+	window.location.assign(LOGIN_PATH);
+}
+
+/** End the session and return to the login page */
+export async function logout(): Promise<void> {
+	await fetch(LOGOUT_PATH, { method: "POST", headers: { Accept: "application/json" } });
+	redirectToLogin();
+}
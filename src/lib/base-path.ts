@@ -0,0 +1,21 @@
+/**
+ * Base Path
+ *
+ * The plugin server can mount the dashboard under a prefix such as /wopr/
+ * and announces it through a <base href> in index.html, so a single build
+ * works at any mount point. URLs for the plugin server go through withBase().
+ */
+
+/** Read the prefix from <base href>; "" at the root and under the Vite dev server */
+function readBasePath(): string {
+	if (typeof document === "undefined") return "";
+	const href = document.querySelector("base")?.getAttribute("href");
+	return href ? new URL(href, window.location.origin).pathname.replace(/\/+$/, "") : "";
+}
+
+export const BASE_PATH = readBasePath();
+
+/** Prefix a root-relative server path with the base path */
+export function withBase(path: string): string {
+	return `${BASE_PATH}${path}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Client Bootstrap
+ *
+ * Loads /webui-config.json from the plugin server before the app renders,
+ * so the API, WebSocket and event stream URLs, version, feature flags and auth mode come
+ * from the deployment instead of being compiled into the bundle.
+ */
+
+import type { AuthMode } from "./auth";
+import { BASE_PATH, withBase } from "./base-path";
+
+export interface FeatureFlags {
+	webmcp: boolean;
+	pluginComponents: boolean;
+}
+
+export interface WebUiBootstrap {
+	version: string;
+	basePath: string;
+	apiUrl: string;
+	wsUrl: string;
+	/** Server-Sent Events fallback for the WebSocket */
+	eventsUrl: string;
+	authMode: AuthMode;
+	features: FeatureFlags;
+}
+
+const BOOTSTRAP_PATH = withBase("/webui-config.json");
+
+// Used until the document loads, and when there is none (e.g. the Vite dev server)
+const DEFAULT_BOOTSTRAP: WebUiBootstrap = {
+	version: "dev",
+	basePath: BASE_PATH,
+	apiUrl: withBase("/api"),
+	wsUrl: withBase("/ws"),
+	eventsUrl: withBase("/events"),
+	authMode: "none",
+	features: { webmcp: true, pluginComponents: true },
+};
+
+let current: WebUiBootstrap = DEFAULT_BOOTSTRAP;
+
+/** The loaded bootstrap, or the defaults before loadBootstrap() resolves */
+export function getBootstrap(): WebUiBootstrap {
+	return current;
+}
+
+/** Fetch the bootstrap document once at startup. Never rejects. */
+export async function loadBootstrap(): Promise<WebUiBootstrap> {
+	try {
+		const res = await fetch(BOOTSTRAP_PATH, { headers: { Accept: "application/json" } });
+		const type = res.headers.get("Content-Type") ?? "";
+		if (res.ok && type.includes("application/json")) {
+			const data = (await res.json()) as Partial<WebUiBootstrap>;
+			current = {
+				...DEFAULT_BOOTSTRAP,
+				...data,
+				features: { ...DEFAULT_BOOTSTRAP.features, ...data.features },
+			};
+		}
+	} catch (err) {
+		console.error("Failed to load web UI config:", err);
+	}
+	return current;
+}
+
+/** Absolute WebSocket URL for the bootstrap's wsUrl path */
+export function webSocketUrl(bootstrap: WebUiBootstrap = current): string {
+	const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+	return `${protocol}//${window.location.host}${bootstrap.wsUrl}`;
+}
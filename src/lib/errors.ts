@@ -0,0 +1,97 @@
+/**
+ * API Errors
+ *
+ * The error the API client throws and how the UI reports it. Kept apart
+ * from the client so the session helpers in ./auth can recognise an
+ * expired session without importing the client.
+ */
+
+import { redirectToLogin } from "./auth";
+import { getBootstrap } from "./bootstrap";
+import { SchemaError } from "./schema";
+
+/** Error code the plugin server sends when its proxy cannot reach the daemon */
+export const DAEMON_UNREACHABLE = "DAEMON_UNREACHABLE";
+
+export interface ApiErrorDetails {
+	/** HTTP status, or 0 when no response arrived */
+	status: number;
+	/** Machine-readable error code from the response body, when there is one */
+	code?: string;
+	path: string;
+	method: string;
+	/** Parsed JSON response body, or null */
+	body?: unknown;
+	/** Seconds to wait before retrying, from Retry-After */
+	retryAfter?: number | null;
+	cause?: unknown;
+}
+
+/** A failed API call, with enough detail for callers to react to the kind of failure */
+export class ApiError extends Error {
+	readonly status: number;
+	readonly code: string | undefined;
+	readonly path: string;
+	readonly method: string;
+	readonly body: unknown;
+	readonly retryAfter: number | null;
+
+	constructor(message: string, details: ApiErrorDetails) {
+		super(message, { cause: details.cause });
+		this.name = "ApiError";
+		this.status = details.status;
+		this.code = details.code;
+		this.path = details.path;
+		this.method = details.method;
+		this.body = details.body ?? null;
+		this.retryAfter = details.retryAfter ?? null;
+	}
+
+	/** The request never got a response, e.g. the server is down or the network is gone */
+	get isNetworkError(): boolean {
+		return this.status === 0;
+	}
+
+	/** The dashboard cannot reach the daemon, either directly or through the plugin server's proxy */
+	get isDaemonOffline(): boolean {
+		return this.isNetworkError || this.code === DAEMON_UNREACHABLE;
+	}
+}
+
+/** Whether an API call failed because the dashboard session expired; never when auth is off */
+export function isSessionExpired(err: unknown): boolean {
+	return err instanceof ApiError && err.status === 401 && getBootstrap().authMode !== "none";
+}
+
+/** A message for an error from the API client, phrased for the UI */
+export function describeError(err: unknown): string {
+	if (err instanceof ApiError) {
+		if (err.isDaemonOffline) return "WOPR daemon is offline";
+		if (err.retryAfter !== null) return `${err.message} (try again in ${err.retryAfter}s)`;
+		return err.message;
+	}
+	// The field-level detail is for developers, in the console
+	if (err instanceof SchemaError) return `Unexpected response from the WOPR daemon (${err.method} ${err.path})`;
+	return err instanceof Error ? err.message : "Unknown error";
+}
+
+/**
+ * Route a failed call to where the UI shows it. An expired session goes
+ * back to the login page; an unreachable daemon gets its own banner.
+ * Everything else becomes a message, after `prefix` when one is given.
+ */
+export function reportError(
+	err: unknown,
+	handlers: { onOffline: () => void; onError: (message: string) => void },
+	prefix?: string,
+): void {
+	if (isSessionExpired(err)) {
+		redirectToLogin();
+		return;
+	}
+	if (err instanceof ApiError && err.isDaemonOffline) {
+		handlers.onOffline();
+		return;
+	}
+	handlers.onError(prefix ? `${prefix}: ${describeError(err)}` : describeError(err));
+}
@@ -0,0 +1,189 @@
+/**
+ * Code Highlighting
+ *
+ * A small tokenizer for the languages replies are most often written in.
+ * It colours comments, strings, numbers and keywords and leaves the rest
+ * plain, which is enough to read a snippet without shipping a grammar
+ * per language. Unknown languages come back as one plain token.
+ */
+
+export type TokenType = "comment" | "string" | "number" | "keyword" | "literal" | "plain";
+
+export interface Token {
+	type: TokenType;
+	text: string;
+}
+
+interface Language {
+	keywords: Set<string>;
+	/** Keywords for values, such as true and null */
+	literals: Set<string>;
+	lineComment?: string[];
+	blockComment?: [string, string];
+	/** Quote characters that start a string */
+	quotes: string[];
+}
+
+const words = (list: string) => new Set(list.split(" "));
+
+const C_LIKE_LITERALS = words("true false null undefined NaN Infinity this super");
+
+const JAVASCRIPT: Language = {
+	keywords: words(
+		"as async await break case catch class const continue debugger default delete do else enum export extends finally for from function get if implements import in instanceof interface let new of private protected public readonly return satisfies set static switch throw try type typeof var void while with yield keyof declare namespace abstract",
+	),
+	literals: C_LIKE_LITERALS,
+	lineComment: ["//"],
+	blockComment: ["/*", "*/"],
+	quotes: ['"', "'", "`"],
+};
+
+const PYTHON: Language = {
+	keywords: words(
+		"and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case",
+	),
+	literals: words("True False None self"),
+	lineComment: ["#"],
+	quotes: ['"', "'"],
+};
+
+const SHELL: Language = {
+	keywords: words(
+		"if then else elif fi for while until do done case esac in function return export local readonly unset sudo echo cd exit source",
+	),
+	literals: words("true false"),
+	lineComment: ["#"],
+	quotes: ['"', "'"],
+};
+
+const GO: Language = {
+	keywords: words(
+		"break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var",
+	),
+	literals: words("true false nil iota"),
+	lineComment: ["//"],
+	blockComment: ["/*", "*/"],
+	quotes: ['"', "'", "`"],
+};
+
+const RUST: Language = {
+	keywords: words(
+		"as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return static struct trait type unsafe use where while",
+	),
+	literals: words("true false self Self None Some Ok Err"),
+	lineComment: ["//"],
+	blockComment: ["/*", "*/"],
+	quotes: ['"'],
+};
+
+const JSON_LANGUAGE: Language = {
+	keywords: new Set(),
+	literals: words("true false null"),
+	quotes: ['"'],
+};
+
+const SQL: Language = {
+	keywords: words(
+		"select from where and or not insert into values update set delete create table drop alter index join left right inner outer on group by order having limit offset as distinct union all primary key references default",
+	),
+	literals: words("null true false"),
+	lineComment: ["--"],
+	blockComment: ["/*", "*/"],
+	quotes: ["'", '"'],
+};
+
+const LANGUAGES: Record<string, Language> = {
+	js: JAVASCRIPT,
+	javascript: JAVASCRIPT,
+	jsx: JAVASCRIPT,
+	ts: JAVASCRIPT,
+	typescript: JAVASCRIPT,
+	tsx: JAVASCRIPT,
+	py: PYTHON,
+	python: PYTHON,
+	sh: SHELL,
+	bash: SHELL,
+	shell: SHELL,
+	zsh: SHELL,
+	go: GO,
+	rs: RUST,
+	rust: RUST,
+	json: JSON_LANGUAGE,
+	sql: SQL,
+};
+
+/** Whether the language has highlighting */
+export function isHighlighted(lang: string): boolean {
+	return Object.hasOwn(LANGUAGES, lang.toLowerCase());
+}
+
+function push(tokens: Token[], type: TokenType, text: string): void {
+	const last = tokens[tokens.length - 1];
+	if (last?.type === type) last.text += text;
+	else if (text) tokens.push({ type, text });
+}
+
+/** Split code into coloured tokens; joined, they give back the code unchanged */
+export function highlight(code: string, lang: string): Token[] {
+	const language = LANGUAGES[lang.toLowerCase()];
+	if (!language) return code ? [{ type: "plain", text: code }] : [];
+	// SQL keywords are written in either case
+	const caseless = language === SQL;
+
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < code.length) {
+		const rest = code.slice(i);
+
+		const line = language.lineComment?.find((marker) => rest.startsWith(marker));
+		if (line && (line !== "#" || i === 0 || /\s/.test(code[i - 1]))) {
+			const end = code.indexOf("\n", i);
+			const stop = end === -1 ? code.length : end;
+			push(tokens, "comment", code.slice(i, stop));
+			i = stop;
+			continue;
+		}
+
+		if (language.blockComment && rest.startsWith(language.blockComment[0])) {
+			const end = code.indexOf(language.blockComment[1], i + language.blockComment[0].length);
+			const stop = end === -1 ? code.length : end + language.blockComment[1].length;
+			push(tokens, "comment", code.slice(i, stop));
+			i = stop;
+			continue;
+		}
+
+		const quote = language.quotes.find((q) => rest.startsWith(q));
+		if (quote) {
+			let end = i + 1;
+			while (end < code.length && code[end] !== quote) {
+				// Only template literals span lines; an unclosed string ends with its line
+				if (code[end] === "\n" && quote !== "`") break;
+				end += code[end] === "\\" ? 2 : 1;
+			}
+			const stop = Math.min(code.length, end + (code[end] === quote ? 1 : 0));
+			push(tokens, "string", code.slice(i, stop));
+			i = stop;
+			continue;
+		}
+
+		const number = /^(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i.exec(rest);
+		if (number && !/[\w$]/.test(code[i - 1] ?? "")) {
+			push(tokens, "number", number[0]);
+			i += number[0].length;
+			continue;
+		}
+
+		const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+		if (word) {
+			const key = caseless ? word[0].toLowerCase() : word[0];
+			const type = language.keywords.has(key) ? "keyword" : language.literals.has(key) ? "literal" : "plain";
+			push(tokens, type, word[0]);
+			i += word[0].length;
+			continue;
+		}
+
+		push(tokens, "plain", code[i]);
+		i++;
+	}
+	return tokens;
+}
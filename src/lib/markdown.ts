@@ -0,0 +1,567 @@
+/**
+ * Markdown Parser
+ *
+ * Turns a reply into a tree the Markdown component renders with JSX.
+ * Nothing is ever inserted as HTML: raw tags in a reply come out as
+ * text, and links keep only http(s), mailto and relative URLs, so a
+ * reply can't run script in the dashboard.
+ *
+ * Covers what models write: headings, paragraphs, emphasis, inline code,
+ * fenced code blocks, bullet, numbered and task lists, block quotes,
+ * tables, rules and links. Replies are parsed again as they stream; an
+ * unfinished code fence is still a code block, and parseMarkdown()
+ * starts again near the block being written, keeping the blocks before
+ * it, so only that block re-renders.
+ */
+
+export type Inline =
+	| { type: "text"; text: string }
+	| { type: "code"; text: string }
+	| { type: "strong" | "em" | "del"; children: Inline[] }
+	| { type: "link"; href: string; children: Inline[] }
+	| { type: "break" };
+
+export type Alignment = "left" | "center" | "right" | null;
+
+export interface ListItem {
+	children: Block[];
+	/** Task list items: whether the box is ticked */
+	checked?: boolean;
+}
+
+export type Block = { source: string } & (
+	| { type: "paragraph"; children: Inline[] }
+	| { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: Inline[] }
+	| { type: "code"; lang: string; text: string; closed: boolean }
+	| { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+	| { type: "blockquote"; children: Block[] }
+	| { type: "table"; align: Alignment[]; header: Inline[][]; rows: Inline[][][] }
+	| { type: "rule" }
+);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const TASK = /^\[([ xX])\][ \t]+/;
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+/**
+ * The URL if a link to it is safe to render: http(s), mailto, or one
+ * relative to the dashboard. Null for javascript:, data: and the like.
+ */
+export function safeHref(href: string): string | null {
+	const url = href.trim();
+	if (!url) return null;
+	// Control characters and whitespace can hide a scheme from a naive check
+	if ([...url].some((char) => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f)) return null;
+	const scheme = /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(url);
+	if (!scheme) return url.startsWith("//") ? null : url;
+	return SAFE_PROTOCOLS.has(`${scheme[1].toLowerCase()}:`) ? url : null;
+}
+
+function isBlank(line: string): boolean {
+	return line.trim() === "";
+}
+
+/** Split a table row into its cells, without the outer pipes */
+function splitRow(line: string): string[] {
+	let row = line.trim();
+	if (row.startsWith("|")) row = row.slice(1);
+	if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+	const cells: string[] = [];
+	let cell = "";
+	for (let i = 0; i < row.length; i++) {
+		if (row[i] === "\\" && row[i + 1] === "|") {
+			cell += "|";
+			i++;
+		} else if (row[i] === "|") {
+			cells.push(cell.trim());
+			cell = "";
+		} else {
+			cell += row[i];
+		}
+	}
+	cells.push(cell.trim());
+	return cells;
+}
+
+function alignmentOf(cell: string): Alignment {
+	const left = cell.startsWith(":");
+	const right = cell.endsWith(":");
+	if (left && right) return "center";
+	if (right) return "right";
+	return left ? "left" : null;
+}
+
+/** Whether a line ends a paragraph by starting another block */
+function interruptsParagraph(line: string): boolean {
+	if (FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)) return true;
+	const item = LIST_ITEM.exec(line);
+	// A number only starts a list inside a paragraph when it is 1, so "in 2024. we" stays text
+	return item !== null && item[4] !== "" && (/^[-*+]$/.test(item[2]) || /^1[.)]$/.test(item[2]));
+}
+
+function parseList(lines: string[], start: number): { block: Block; end: number } {
+	const first = LIST_ITEM.exec(lines[start]) as RegExpExecArray;
+	const ordered = /\d/.test(first[2]);
+	const marker = ordered ? first[2].slice(-1) : first[2];
+	const items: ListItem[] = [];
+	let i = start;
+
+	while (i < lines.length) {
+		const match = LIST_ITEM.exec(lines[i]);
+		if (!match || /\d/.test(match[2]) !== ordered || (ordered ? match[2].slice(-1) : match[2]) !== marker) break;
+		const indent = match[1].length + match[2].length + Math.max(1, Math.min(match[3].length, 4));
+		const itemLines = [match[4]];
+		i++;
+		while (i < lines.length) {
+			const line = lines[i];
+			if (isBlank(line)) {
+				// A blank line continues the item only if indented content follows
+				const next = lines.slice(i + 1).find((candidate) => !isBlank(candidate));
+				if (next === undefined || next.search(/\S/) < indent) break;
+				itemLines.push("");
+				i++;
+			} else if (line.search(/\S/) >= indent) {
+				itemLines.push(line.slice(indent));
+				i++;
+			} else if (!LIST_ITEM.test(line) && !interruptsParagraph(line) && !isBlank(itemLines[itemLines.length - 1])) {
+				// A lazy continuation of the item's paragraph
+				itemLines.push(line.trim());
+				i++;
+			} else {
+				break;
+			}
+		}
+		const task = TASK.exec(itemLines[0]);
+		if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+		items.push({
+			children: parseBlocks(itemLines.join("\n")),
+			...(task ? { checked: task[1] !== " " } : {}),
+		});
+		// A blank line between items does not end the list
+		if (i + 1 < lines.length && isBlank(lines[i]) && LIST_ITEM.test(lines[i + 1])) i++;
+	}
+
+	return {
+		block: {
+			type: "list",
+			ordered,
+			start: ordered ? Number.parseInt(first[2], 10) : 1,
+			items,
+			source: lines.slice(start, i).join("\n"),
+		},
+		end: i,
+	};
+}
+
+function normalizeNewlines(markdown: string): string {
+	return markdown.replace(/\r\n?/g, "\n");
+}
+
+/** Parse markdown into blocks */
+export function parseBlocks(markdown: string): Block[] {
+	return parseLines(normalizeNewlines(markdown).split("\n")).blocks;
+}
+
+/** Parse lines into blocks, with the line each block starts on */
+function parseLines(lines: string[]): { blocks: Block[]; starts: number[] } {
+	const blocks: Block[] = [];
+	const starts: number[] = [];
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		const start = i;
+		if (isBlank(line)) {
+			i++;
+			continue;
+		}
+		// Every branch below adds exactly one block
+		starts.push(start);
+
+		const fence = FENCE.exec(line);
+		if (fence) {
+			const closing = new RegExp(`^ {0,3}${fence[1][0] === "`" ? "`" : "~"}{${fence[1].length},}[ \\t]*$`);
+			const body: string[] = [];
+			i++;
+			while (i < lines.length && !closing.test(lines[i])) body.push(lines[i++]);
+			const closed = i < lines.length;
+			if (closed) i++;
+			blocks.push({
+				type: "code",
+				lang: fence[2].toLowerCase(),
+				text: body.join("\n"),
+				closed,
+				source: lines.slice(start, i).join("\n"),
+			});
+			continue;
+		}
+
+		const heading = HEADING.exec(line);
+		if (heading) {
+			i++;
+			blocks.push({
+				type: "heading",
+				level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+				children: parseInline(heading[2] ?? ""),
+				source: line,
+			});
+			continue;
+		}
+
+		if (RULE.test(line)) {
+			i++;
+			blocks.push({ type: "rule", source: line });
+			continue;
+		}
+
+		if (QUOTE.test(line)) {
+			const quoted: string[] = [];
+			while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ""));
+			blocks.push({
+				type: "blockquote",
+				children: parseBlocks(quoted.join("\n")),
+				source: lines.slice(start, i).join("\n"),
+			});
+			continue;
+		}
+
+		if (LIST_ITEM.exec(line)?.[4]) {
+			const list = parseList(lines, i);
+			blocks.push(list.block);
+			i = list.end;
+			continue;
+		}
+
+		if (line.includes("|") && TABLE_DELIMITER.test(lines[i + 1] ?? "")) {
+			const header = splitRow(line);
+			const delimiter = splitRow(lines[i + 1]);
+			if (header.length === delimiter.length) {
+				i += 2;
+				const rows: Inline[][][] = [];
+				while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|")) {
+					const cells = splitRow(lines[i++]);
+					rows.push(header.map((_, col) => parseInline(cells[col] ?? "")));
+				}
+				blocks.push({
+					type: "table",
+					align: delimiter.map(alignmentOf),
+					header: header.map((cell) => parseInline(cell)),
+					rows,
+					source: lines.slice(start, i).join("\n"),
+				});
+				continue;
+			}
+		}
+
+		const paragraph = [line];
+		i++;
+		while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) paragraph.push(lines[i++]);
+		blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")), source: paragraph.join("\n") });
+	}
+
+	return { blocks, starts };
+}
+
+const PUNCTUATION = /[!-/:-@[-`{-~]/;
+// (url) or (url "title"); the URL may hold one level of balanced parentheses
+const LINK_TARGET = /\(\s*<?((?:[^\s()<>]|\([^\s()]*\))*)>?(?:\s+"[^"]*")?\s*\)/y;
+const BARE_URL = /https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/y;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y;
+const EMPHASIS: [string, "strong" | "em" | "del"][] = [
+	["**", "strong"],
+	["__", "strong"],
+	["~~", "del"],
+	["*", "em"],
+	["_", "em"],
+];
+// Spans nested deeper than this are left as text, so each level's pass over the text stays bounded
+const MAX_NESTING = 16;
+
+/** Join adjacent text nodes */
+function pushText(nodes: Inline[], text: string): void {
+	const last = nodes[nodes.length - 1];
+	if (last?.type === "text") last.text += text;
+	else if (text) nodes.push({ type: "text", text });
+}
+
+/** Match a sticky pattern at i, without copying the rest of the text */
+function matchAt(pattern: RegExp, text: string, i: number): RegExpExecArray | null {
+	pattern.lastIndex = i;
+	return pattern.exec(text);
+}
+
+/** Whether `delimiter` at i can close a span */
+function canClose(text: string, i: number, delimiter: string): boolean {
+	const before = text[i - 1];
+	return (
+		!/\s/.test(before) &&
+		before !== "\\" &&
+		// A single * must not be half of a ** around a strong span inside it
+		(delimiter.length === 2 || (text[i + 1] !== delimiter && before !== delimiter)) &&
+		// Nor may an underscore inside a word (snake_case)
+		(delimiter[0] !== "_" || !/\w/.test(text[i + delimiter.length] ?? ""))
+	);
+}
+
+/** The first position in a sorted list at or after `from`, or -1 */
+function firstFrom(positions: number[], from: number): number {
+	let low = 0;
+	let high = positions.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (positions[mid] < from) low = mid + 1;
+		else high = mid;
+	}
+	return low < positions.length ? positions[low] : -1;
+}
+
+/**
+ * Where brackets, code spans and emphasis in a text close, each found in
+ * one pass over the text the first time it is needed. Openers look their
+ * closer up here instead of scanning ahead, which made a reply full of
+ * unclosed `[`, `*` or backticks quadratic to parse.
+ */
+interface Closers {
+	/** Index of the `]` closing the `[` at i, allowing nested brackets, or -1 */
+	bracket(i: number): number;
+	/** Start of the first run of exactly `length` backticks at or after `from`, or -1 */
+	backticks(length: number, from: number): number;
+	/** First index at or after `from` where `delimiter` can close a span, or -1 */
+	emphasis(delimiter: string, from: number): number;
+}
+
+function findClosers(text: string): Closers {
+	let brackets: Map<number, number> | undefined;
+	let runs: Map<number, number[]> | undefined;
+	const delimiters = new Map<string, number[]>();
+
+	const matchBrackets = () => {
+		const matches = new Map<number, number>();
+		const open: number[] = [];
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === "\\") i++;
+			else if (text[i] === "[") open.push(i);
+			else if (text[i] === "]" && open.length) matches.set(open.pop() as number, i);
+		}
+		return matches;
+	};
+	const findRuns = () => {
+		const byLength = new Map<number, number[]>();
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] !== "`") continue;
+			const start = i;
+			while (text[i + 1] === "`") i++;
+			const length = i - start + 1;
+			const starts = byLength.get(length);
+			if (starts) starts.push(start);
+			else byLength.set(length, [start]);
+		}
+		return byLength;
+	};
+	const findDelimiters = (delimiter: string) => {
+		const found: number[] = [];
+		for (let i = text.indexOf(delimiter, 1); i !== -1; i = text.indexOf(delimiter, i + 1)) {
+			if (canClose(text, i, delimiter)) found.push(i);
+		}
+		return found;
+	};
+
+	return {
+		bracket(i) {
+			brackets ??= matchBrackets();
+			return brackets.get(i) ?? -1;
+		},
+		backticks(length, from) {
+			runs ??= findRuns();
+			return firstFrom(runs.get(length) ?? [], from);
+		},
+		emphasis(delimiter, from) {
+			let found = delimiters.get(delimiter);
+			if (!found) {
+				found = findDelimiters(delimiter);
+				delimiters.set(delimiter, found);
+			}
+			return firstFrom(found, from);
+		},
+	};
+}
+
+/** A delimited span like **strong** starting at i, or null when it is not closed */
+function emphasis(text: string, i: number, closers: Closers, depth: number): { node: Inline; end: number } | null {
+	for (const [delimiter, type] of EMPHASIS) {
+		if (!text.startsWith(delimiter, i)) continue;
+		// Underscores inside words (snake_case) do not open emphasis
+		if (delimiter[0] === "_" && /\w/.test(text[i - 1] ?? "")) continue;
+		const from = i + delimiter.length;
+		if (/\s/.test(text[from] ?? " ")) continue;
+		const close = closers.emphasis(delimiter, from + 1);
+		if (close === -1) continue;
+		return {
+			node: { type, children: parseSpan(text.slice(from, close), depth + 1) },
+			end: close + delimiter.length,
+		};
+	}
+	return null;
+}
+
+/** Parse the inline markdown of a paragraph, heading or cell */
+export function parseInline(text: string): Inline[] {
+	return parseSpan(text, 0);
+}
+
+function parseSpan(text: string, depth: number): Inline[] {
+	if (depth > MAX_NESTING) return text ? [{ type: "text", text }] : [];
+	const closers = findClosers(text);
+	const nodes: Inline[] = [];
+	let i = 0;
+
+	while (i < text.length) {
+		const char = text[i];
+
+		if (char === "\\" && PUNCTUATION.test(text[i + 1] ?? "")) {
+			pushText(nodes, text[i + 1]);
+			i += 2;
+			continue;
+		}
+
+		if (char === "\n") {
+			// Two trailing spaces or a backslash make a hard break
+			const hard = (text[i - 1] === " " && text[i - 2] === " ") || text[i - 1] === "\\";
+			if (hard) {
+				const last = nodes[nodes.length - 1];
+				if (last?.type === "text") {
+					let end = last.text.length;
+					while (end > 0 && (last.text[end - 1] === " " || last.text[end - 1] === "\\")) end--;
+					last.text = last.text.slice(0, end);
+				}
+				nodes.push({ type: "break" });
+			} else {
+				pushText(nodes, "\n");
+			}
+			i++;
+			continue;
+		}
+
+		if (char === "`") {
+			let length = 1;
+			while (text[i + length] === "`") length++;
+			const close = closers.backticks(length, i + length);
+			if (close !== -1) {
+				let code = text.slice(i + length, close).replace(/\n/g, " ");
+				if (code.startsWith(" ") && code.endsWith(" ") && code.trim()) code = code.slice(1, -1);
+				nodes.push({ type: "code", text: code });
+				i = close + length;
+				continue;
+			}
+			pushText(nodes, text.slice(i, i + length));
+			i += length;
+			continue;
+		}
+
+		if (char === "[") {
+			const close = closers.bracket(i);
+			const target = close === -1 ? null : matchAt(LINK_TARGET, text, close + 1);
+			if (target) {
+				const children = parseSpan(text.slice(i + 1, close), depth + 1);
+				const href = safeHref(target[1]);
+				if (href) nodes.push({ type: "link", href, children });
+				else for (const child of children) child.type === "text" ? pushText(nodes, child.text) : nodes.push(child);
+				i = close + 1 + target[0].length;
+				continue;
+			}
+		}
+
+		if (char === "<") {
+			const autolink = matchAt(AUTOLINK, text, i);
+			if (autolink) {
+				nodes.push({
+					type: "link",
+					href: autolink[1],
+					children: [{ type: "text", text: autolink[1].replace(/^mailto:/, "") }],
+				});
+				i += autolink[0].length;
+				continue;
+			}
+		}
+
+		if (char === "h" && !/\w/.test(text[i - 1] ?? "")) {
+			const url = matchAt(BARE_URL, text, i);
+			if (url) {
+				nodes.push({ type: "link", href: url[0], children: [{ type: "text", text: url[0] }] });
+				i += url[0].length;
+				continue;
+			}
+		}
+
+		if (char === "*" || char === "_" || char === "~") {
+			const span = emphasis(text, i, closers, depth);
+			if (span) {
+				nodes.push(span.node);
+				i = span.end;
+				continue;
+			}
+		}
+
+		pushText(nodes, char);
+		i++;
+	}
+
+	return nodes;
+}
+
+/**
+ * The new blocks, with each one whose source did not change replaced by
+ * the block it was parsed to before. Rendering keyed on the blocks then
+ * leaves everything but the changed blocks alone while a reply streams.
+ */
+export function reuseBlocks(previous: Block[], next: Block[]): Block[] {
+	return next.map((block, i) => (previous[i]?.source === block.source ? previous[i] : block));
+}
+
+/** Parsed markdown, with what parseMarkdown() needs to continue from it */
+export interface ParsedMarkdown {
+	/** The text parsed, with newlines normalized */
+	text: string;
+	blocks: Block[];
+	/** Where in text each block starts */
+	offsets: number[];
+}
+
+/**
+ * Parse markdown, continuing from an earlier parse of the same reply.
+ * When the text only grew, the blocks before the last two are kept as
+ * they are: each was ended by a line that is already complete. The last
+ * block's first line may not be, and finishing it can join the block to
+ * the one before ("1. a", a blank line, then "1" gaining its "."), so
+ * parsing resumes at the second-to-last block. Any other change parses
+ * everything, keeping the blocks that did not change.
+ */
+export function parseMarkdown(markdown: string, previous?: ParsedMarkdown): ParsedMarkdown {
+	const text = normalizeNewlines(markdown);
+	let keep = 0;
+	let from = 0;
+	if (previous && text.startsWith(previous.text)) {
+		keep = Math.max(0, previous.blocks.length - 2);
+		from = keep ? previous.offsets[keep] : 0;
+	}
+
+	const lines = text.slice(from).split("\n");
+	const { blocks, starts } = parseLines(lines);
+	const lineOffsets: number[] = [];
+	let offset = from;
+	for (const line of lines) {
+		lineOffsets.push(offset);
+		offset += line.length + 1;
+	}
+
+	return {
+		text,
+		blocks: [...(previous?.blocks.slice(0, keep) ?? []), ...reuseBlocks(previous?.blocks.slice(keep) ?? [], blocks)],
+		offsets: [...(previous?.offsets.slice(0, keep) ?? []), ...starts.map((line) => lineOffsets[line])],
+	};
+}
@@ -0,0 +1,72 @@
+/**
+ * Replies In Progress
+ *
+ * What the dashboard is waiting on in each session: the message it sent,
+ * whether the reply is still streaming, and whether the stream lost
+ * events on the way. Kept per session, so switching sessions mid-reply
+ * leaves the other session's reply to finish on its own.
+ */
+
+import { type Accessor, createSignal, type Setter } from "solid-js";
+
+export interface ReplyState {
+	/** The message sent from this dashboard, for finding its reply in the history */
+	message: string | null;
+	/** Whether the daemon's echo of the message has been seen */
+	echoed: boolean;
+	streaming: boolean;
+	/** Events were lost in a reconnect, so the streamed text is incomplete */
+	stale: boolean;
+}
+
+const IDLE: ReplyState = { message: null, echoed: false, streaming: false, stale: false };
+
+export class ReplyTracker {
+	private readonly states: Accessor<Record<string, ReplyState>>;
+	private readonly setStates: Setter<Record<string, ReplyState>>;
+
+	constructor() {
+		[this.states, this.setStates] = createSignal<Record<string, ReplyState>>({});
+	}
+
+	get(session: string): ReplyState {
+		return this.states()[session] ?? IDLE;
+	}
+
+	/** Whether a reply is streaming in the session; reactive */
+	streaming(session: string): boolean {
+		return this.get(session).streaming;
+	}
+
+	/** A message was sent; its reply starts streaming */
+	start(session: string, message: string): void {
+		this.set(session, { message, echoed: false, streaming: true, stale: false });
+	}
+
+	markStale(session: string): void {
+		this.set(session, { ...this.get(session), stale: true });
+	}
+
+	/**
+	 * Whether an injection is the daemon's echo of the message this
+	 * dashboard sent. Only the first match counts, so the same text
+	 * injected again from elsewhere is still shown.
+	 */
+	claimEcho(session: string, content: string): boolean {
+		const state = this.get(session);
+		if (state.message !== content || state.echoed) return false;
+		this.set(session, { ...state, echoed: true });
+		return true;
+	}
+
+	/** The reply is done; returns what was being waited on */
+	settle(session: string): ReplyState {
+		const state = this.get(session);
+		this.setStates(({ [session]: _, ...rest }) => rest);
+		return state;
+	}
+
+	private set(session: string, state: ReplyState): void {
+		this.setStates((prev) => ({ ...prev, [session]: state }));
+	}
+}
@@ -0,0 +1,185 @@
+/**
+ * Response Schemas
+ *
+ * Small runtime checks for what the daemon sends back. The API client's
+ * types are only a promise about the daemon's responses; when the daemon
+ * changes shape underneath the dashboard, checking at the boundary turns
+ * an undefined-property crash deep in a component into a SchemaError that
+ * names the request and the fields that differ.
+ */
+
+const INVALID = Symbol("invalid");
+
+/**
+ * How a response of the wrong shape is handled. Strict throws, so drift is
+ * noticed in development; lenient drops what it can and logs the rest, so
+ * a dashboard in production keeps rendering what is still usable.
+ */
+export type ValidationMode = "strict" | "lenient";
+
+/** Checks an unknown value against the shape of T */
+export interface Schema<T> {
+	/** Every way the value differs from the schema, as "at: problem"; empty when it matches */
+	check(value: unknown, at: string): string[];
+	/**
+	 * The value with malformed array entries and optional fields dropped,
+	 * adding a "at: problem" issue for each. INVALID when what is wrong
+	 * can't be dropped.
+	 */
+	read(value: unknown, at: string, issues: string[]): T | typeof INVALID;
+	/** Carries T for type inference only */
+	readonly type?: T;
+}
+
+export type ObjectFields<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export interface ObjectSchema<T> extends Schema<T> {
+	readonly fields: ObjectFields<T>;
+}
+
+/** A response that does not match the schema its request expects */
+export class SchemaError extends Error {
+	readonly path: string;
+	readonly method: string;
+	readonly issues: string[];
+
+	constructor(method: string, path: string, issues: string[]) {
+		super(`Unexpected response from ${method} ${path}: ${issues.join("; ")}`);
+		this.name = "SchemaError";
+		this.path = path;
+		this.method = method;
+		this.issues = issues;
+	}
+}
+
+function describe(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
+
+/** Record a problem and give up on the value */
+function invalid(issues: string[], at: string, expected: string, value: unknown): typeof INVALID {
+	issues.push(`${at || "response"}: expected ${expected}, got ${describe(value)}`);
+	return INVALID;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function define<T>(read: Schema<T>["read"]): Schema<T> {
+	return {
+		read,
+		check(value, at) {
+			const issues: string[] = [];
+			read(value, at, issues);
+			return issues;
+		},
+	};
+}
+
+function primitive<T>(type: "string" | "number" | "boolean"): Schema<T> {
+	return define((value, at, issues) => (typeof value === type ? (value as T) : invalid(issues, at, type, value)));
+}
+
+export function string(): Schema<string> {
+	return primitive("string");
+}
+
+export function number(): Schema<number> {
+	return primitive("number");
+}
+
+export function boolean(): Schema<boolean> {
+	return primitive("boolean");
+}
+
+/** One of a fixed set of strings */
+export function oneOf<const T extends string>(...values: T[]): Schema<T> {
+	const expected = values.map((v) => JSON.stringify(v)).join(" | ");
+	return define((value, at, issues) =>
+		values.includes(value as T) ? (value as T) : invalid(issues, at, expected, value),
+	);
+}
+
+/** Anything at all, for values the dashboard passes through without reading */
+export function unknown(): Schema<unknown> {
+	return define((value) => value);
+}
+
+/**
+ * A field that may be missing, or null as the daemon writes unset values.
+ * Lenient reads drop it when it is null or malformed; strict checks leave
+ * a null in place, so read it with ?. or ?? rather than === undefined.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+	return define((value, at, issues) => {
+		if (value === undefined || value === null) return undefined;
+		const read = schema.read(value, at, issues);
+		return read === INVALID ? undefined : read;
+	});
+}
+
+/** An array; lenient reads drop malformed entries */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+	return define((value, at, issues) => {
+		if (!Array.isArray(value)) return invalid(issues, at, "array", value);
+		return value.flatMap((entry, i) => {
+			const read = item.read(entry, `${at}[${i}]`, issues);
+			return read === INVALID ? [] : [read];
+		});
+	});
+}
+
+/** An object used as a map; lenient reads drop malformed entries */
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+	return define((value, at, issues) => {
+		if (!isRecord(value)) return invalid(issues, at, "object", value);
+		const result: Record<string, T> = {};
+		for (const [key, item] of Object.entries(value)) {
+			const read = entry.read(item, at ? `${at}.${key}` : key, issues);
+			if (read !== INVALID) result[key] = read;
+		}
+		return result;
+	});
+}
+
+/**
+ * An object with at least the given fields. Fields the dashboard does not
+ * know about are allowed and kept, so a daemon that adds to a response
+ * stays compatible.
+ */
+export function object<T>(fields: ObjectFields<T>): ObjectSchema<T> {
+	const schema = define<T>((value, at, issues) => {
+		if (!isRecord(value)) return invalid(issues, at, "object", value);
+		const result: Record<string, unknown> = { ...value };
+		let valid = true;
+		for (const [key, field] of Object.entries<Schema<unknown>>(fields)) {
+			const read = field.read(value[key], at ? `${at}.${key}` : key, issues);
+			if (read === INVALID) valid = false;
+			else if (read === undefined) delete result[key];
+			else result[key] = read;
+		}
+		return valid ? (result as T) : INVALID;
+	});
+	return { ...schema, fields };
+}
+
+/**
+ * The value, typed. Strict mode throws a SchemaError naming the request
+ * on any mismatch; lenient mode logs the mismatches and returns what is
+ * left after dropping them, throwing only when nothing usable remains.
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, method: string, path: string, mode: ValidationMode): T {
+	if (mode === "strict") {
+		const issues = schema.check(value, "");
+		if (issues.length) throw new SchemaError(method, path, issues);
+		return value as T;
+	}
+	const issues: string[] = [];
+	const read = schema.read(value, "", issues);
+	if (read === INVALID) throw new SchemaError(method, path, issues);
+	if (issues.length) console.warn(`Dropped malformed data from ${method} ${path}:`, issues);
+	return read;
+}
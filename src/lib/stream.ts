@@ -0,0 +1,516 @@
+/**
+ * Stream Client
+ *
+ * The dashboard's connection to the daemon's event stream at /ws. Dropped
+ * connections are retried with exponential backoff and jitter, a heartbeat
+ * notices connections that died without closing, and subscriptions are
+ * per session, so the daemon only sends events for sessions the dashboard
+ * is showing. Subscriptions are restored after every reconnect.
+ *
+ * Events carry a seq and ts, and the client remembers the last one it saw
+ * per session. On reconnect it asks the daemon to replay each session from
+ * there; sessions the daemon can't replay are reported as gaps, so the
+ * view can fill them in from the session history instead.
+ *
+ * Some proxies drop WebSocket upgrades. When a WebSocket fails to open
+ * several times in a row, the client switches to the plugin server's
+ * Server-Sent Events bridge at /events, which carries the same events.
+ * An EventSource can't send, so its subscriptions and resume cursors go
+ * in the URL and the stream is reopened whenever they change.
+ */
+
+import { type Accessor, createSignal, type Setter, untrack } from "solid-js";
+import type { SessionHistoryEntry, StreamEvent } from "./api";
+
+export type ConnectionState = "connecting" | "open" | "reconnecting" | "offline";
+
+/** How events reach the client: a WebSocket, or Server-Sent Events as a fallback */
+export type Transport = "websocket" | "sse";
+
+/** Event types the daemon sends about one session */
+export type SessionEventType = "stream" | "injection";
+
+export type SessionEvent<K extends SessionEventType = SessionEventType> = StreamEvent & { type: K; session: string };
+
+export type SessionEventHandler<K extends SessionEventType> = (event: SessionEvent<K>) => void;
+
+/** The last event seen for a session, sent to the daemon to resume from */
+export interface StreamCursor {
+	seq?: number;
+	ts?: number;
+}
+
+/** Called after a reconnect when events a session missed can't be replayed */
+export type GapHandler = (session: string) => void;
+
+export interface StreamClientOptions {
+	/** The /ws URL, read on every connect so a reloaded bootstrap is picked up */
+	url: () => string;
+	/** The /events URL; without it the client never falls back to SSE */
+	eventsUrl?: () => string;
+	/** WebSocket attempts in a row that must fail to open before falling back to SSE */
+	fallbackAfter?: number;
+	/** How often to check the connection, asking the daemon for a reply when it has been quiet */
+	heartbeatIntervalMs?: number;
+	/** Reconnect when nothing, not even a heartbeat reply, has arrived for this long */
+	heartbeatTimeoutMs?: number;
+	/** First reconnect delay before jitter; doubles on every failed attempt */
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	/** How long to wait for the daemon to confirm a resume before treating it as a gap */
+	resumeTimeoutMs?: number;
+	WebSocket?: typeof WebSocket;
+	EventSource?: typeof EventSource;
+	random?: () => number;
+}
+
+/** Sent by the plugin server when it shuts down or restarts */
+export const CLOSE_GOING_AWAY = 1001;
+
+/** Close code recorded when the heartbeat gives up on a connection */
+export const CLOSE_HEARTBEAT_TIMEOUT = 4000;
+
+/** SSE event the plugin server ends an /events stream with; its data is the close code */
+export const SSE_CLOSE_EVENT = "close";
+
+/** SSE event the plugin server sends whenever the daemon answers its ping */
+export const SSE_HEARTBEAT_EVENT = "heartbeat";
+
+// WebSocket.OPEN, which the injected constructor in tests may not define
+const OPEN = 1;
+
+interface Subscription {
+	type: SessionEventType;
+	handler: SessionEventHandler<SessionEventType>;
+}
+
+interface SubscribeMessage {
+	type: "subscribe";
+	sessions: string[];
+	resume?: Record<string, StreamCursor>;
+}
+
+/** An open WebSocket or EventSource */
+interface Connection {
+	/** Send a message to the daemon; EventSources can't, so this does nothing on SSE */
+	send(message: object): void;
+	close(code?: number, reason?: string): void;
+}
+
+/** Parse a frame from the daemon, or null when it is not an event */
+export function parseStreamEvent(data: unknown): StreamEvent | null {
+	if (typeof data !== "string") return null;
+	let event: unknown;
+	try {
+		event = JSON.parse(data);
+	} catch {
+		return null;
+	}
+	if (typeof event !== "object" || event === null || typeof (event as { type?: unknown }).type !== "string") {
+		return null;
+	}
+	return event as StreamEvent;
+}
+
+/**
+ * The reply logged after the last time `message` was sent to a session,
+ * for filling in a response whose stream had a gap. Null while the reply
+ * is still being written.
+ */
+export function replyTo(history: SessionHistoryEntry[], message: string): string | null {
+	const sent = history.findLastIndex((entry) => entry.type === "message" && entry.content === message);
+	if (sent === -1) return null;
+	return history.slice(sent + 1).find((entry) => entry.type === "response")?.content ?? null;
+}
+
+/** The /events URL carrying a subscribe message's sessions and resume cursors */
+export function eventsStreamUrl(url: string, request: SubscribeMessage | null): string {
+	const params = new URLSearchParams();
+	for (const session of request?.sessions ?? []) params.append("session", session);
+	if (request?.resume) params.set("resume", JSON.stringify(request.resume));
+	const query = params.toString();
+	return query ? `${url}${url.includes("?") ? "&" : "?"}${query}` : url;
+}
+
+/**
+ * Delay before reconnect attempt number `attempt` (0-based): exponential
+ * with full jitter, so dashboards reconnecting after a daemon restart
+ * don't all arrive at once.
+ */
+export function reconnectDelay(attempt: number, baseMs: number, maxMs: number, random = Math.random): number {
+	return Math.round(random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+export class StreamClient {
+	readonly state: Accessor<ConnectionState>;
+	/** Close code of the last dropped connection, e.g. 1001 while the server restarts; null while open */
+	readonly closeCode: Accessor<number | null>;
+	/** Which transport the client is using; it stays on SSE once it has fallen back */
+	readonly transport: Accessor<Transport>;
+
+	private setState: Setter<ConnectionState>;
+	private setCloseCode: Setter<number | null>;
+	private setTransport: Setter<Transport>;
+	private options: Required<Omit<StreamClientOptions, "eventsUrl">> & Pick<StreamClientOptions, "eventsUrl">;
+	private connection: Connection | null = null;
+	private running = false;
+	private attempts = 0;
+	// WebSockets in a row that closed without ever opening
+	private failedWebSockets = 0;
+	private reopenQueued = false;
+	private lastMessageAt = 0;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private subscriptions = new Map<string, Set<Subscription>>();
+	private gapHandlers = new Map<string, Set<GapHandler>>();
+	private cursors = new Map<string, StreamCursor>();
+	private connectedBefore = false;
+	// Sessions waiting for the daemon to confirm their replay
+	private pendingResume: string[] = [];
+	private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(options: StreamClientOptions) {
+		this.options = {
+			heartbeatIntervalMs: 25_000,
+			heartbeatTimeoutMs: 60_000,
+			baseDelayMs: 1000,
+			maxDelayMs: 30_000,
+			resumeTimeoutMs: 5000,
+			fallbackAfter: 3,
+			WebSocket: globalThis.WebSocket,
+			EventSource: globalThis.EventSource,
+			random: Math.random,
+			...options,
+		};
+		[this.state, this.setState] = createSignal<ConnectionState>("connecting");
+		[this.closeCode, this.setCloseCode] = createSignal<number | null>(null);
+		[this.transport, this.setTransport] = createSignal<Transport>("websocket");
+	}
+
+	/** Start connecting; the client keeps reconnecting until close() */
+	connect(): void {
+		if (this.running) return;
+		this.running = true;
+		globalThis.addEventListener?.("online", this.handleOnline);
+		globalThis.addEventListener?.("offline", this.handleOffline);
+		this.open();
+	}
+
+	/** Disconnect for good and stop reconnecting */
+	close(): void {
+		this.running = false;
+		globalThis.removeEventListener?.("online", this.handleOnline);
+		globalThis.removeEventListener?.("offline", this.handleOffline);
+		this.clearTimers();
+		this.detach()?.close();
+		this.setState("offline");
+	}
+
+	/**
+	 * Receive one type of event for a session. The first subscription to a
+	 * session subscribes to it on the daemon, and the last unsubscribe
+	 * unsubscribes. Returns the unsubscribe function.
+	 */
+	subscribe<K extends SessionEventType>(session: string, type: K, handler: SessionEventHandler<K>): () => void {
+		let subscriptions = this.subscriptions.get(session);
+		if (!subscriptions) {
+			subscriptions = new Set();
+			this.subscriptions.set(session, subscriptions);
+			this.send({ type: "subscribe", sessions: [session] });
+			this.reopenEventSource();
+		}
+		const subscription = { type, handler } as Subscription;
+		subscriptions.add(subscription);
+
+		return () => {
+			const current = this.subscriptions.get(session);
+			if (!current?.delete(subscription) || current.size > 0) return;
+			this.subscriptions.delete(session);
+			this.cursors.delete(session);
+			this.send({ type: "unsubscribe", sessions: [session] });
+			this.reopenEventSource();
+		};
+	}
+
+	/** Be told when a session may have missed events that could not be replayed. Returns the remove function. */
+	onGap(session: string, handler: GapHandler): () => void {
+		let handlers = this.gapHandlers.get(session);
+		if (!handlers) {
+			handlers = new Set();
+			this.gapHandlers.set(session, handlers);
+		}
+		handlers.add(handler);
+		return () => {
+			handlers.delete(handler);
+			if (handlers.size === 0 && this.gapHandlers.get(session) === handlers) this.gapHandlers.delete(session);
+		};
+	}
+
+	private open(): void {
+		if (globalThis.navigator?.onLine === false) {
+			// Reconnects on the "online" event
+			this.setState("offline");
+			return;
+		}
+		// Still open when an SSE stream is reopened for new subscriptions
+		if (this.state() !== "open") this.setState(this.attempts === 0 ? "connecting" : "reconnecting");
+
+		const connection = this.transport() === "sse" ? this.openEventSource() : this.openWebSocket();
+		if (!connection) {
+			this.dropped(null);
+			return;
+		}
+		this.connection = connection;
+	}
+
+	private openWebSocket(): Connection | null {
+		let socket: WebSocket;
+		try {
+			socket = new this.options.WebSocket(this.options.url());
+		} catch (err) {
+			console.error("Failed to open WebSocket:", err);
+			this.webSocketFailed();
+			return null;
+		}
+		let opened = false;
+		const connection: Connection = {
+			send: (message) => {
+				if (socket.readyState === OPEN) socket.send(JSON.stringify(message));
+			},
+			close: (code, reason) => socket.close(code, reason),
+		};
+		socket.onopen = () => {
+			if (this.connection !== connection) return;
+			opened = true;
+			this.failedWebSockets = 0;
+			this.opened();
+		};
+		socket.onmessage = (message) => {
+			if (this.connection === connection) this.received(message.data);
+		};
+		socket.onclose = (event) => {
+			if (this.connection !== connection) return;
+			this.detach();
+			if (!opened) this.webSocketFailed();
+			this.dropped(event.code);
+		};
+		return connection;
+	}
+
+	private openEventSource(): Connection | null {
+		let source: EventSource;
+		try {
+			source = new this.options.EventSource(eventsStreamUrl(this.options.eventsUrl?.() ?? "", this.subscribeMessage()));
+		} catch (err) {
+			console.error("Failed to open event stream:", err);
+			return null;
+		}
+		const connection: Connection = { send: () => {}, close: () => source.close() };
+		const drop = (code: number | null) => {
+			if (this.connection !== connection) return;
+			// EventSource retries on its own schedule; this client's backoff decides instead
+			this.detach()?.close();
+			this.dropped(code);
+		};
+		source.onopen = () => {
+			if (this.connection === connection) this.opened();
+		};
+		source.onmessage = (message) => {
+			if (this.connection === connection) this.received(message.data);
+		};
+		source.addEventListener(SSE_HEARTBEAT_EVENT, () => {
+			if (this.connection === connection) this.lastMessageAt = Date.now();
+		});
+		source.addEventListener(SSE_CLOSE_EVENT, (event) => {
+			const code = Number((event as MessageEvent).data);
+			drop(Number.isInteger(code) ? code : null);
+		});
+		source.onerror = () => drop(null);
+		return connection;
+	}
+
+	/** Count a WebSocket that never opened, falling back to SSE once there have been enough in a row */
+	private webSocketFailed(): void {
+		this.failedWebSockets++;
+		if (this.failedWebSockets < this.options.fallbackAfter || !this.options.eventsUrl || !this.options.EventSource) {
+			return;
+		}
+		console.warn(`WebSocket failed to open ${this.failedWebSockets} times; falling back to Server-Sent Events`);
+		this.setTransport("sse");
+		this.attempts = 0;
+	}
+
+	private opened(): void {
+		this.attempts = 0;
+		this.lastMessageAt = Date.now();
+		this.setCloseCode(null);
+		this.setState("open");
+		this.resubscribe();
+		this.heartbeatTimer = setInterval(() => this.checkHeartbeat(), this.options.heartbeatIntervalMs);
+	}
+
+	private received(data: unknown): void {
+		this.lastMessageAt = Date.now();
+		const event = parseStreamEvent(data);
+		if (!event) console.warn("Ignoring malformed stream event:", data);
+		else if (event.type === "subscribed" && this.pendingResume.length) this.finishResume(event.resumed ?? []);
+		else this.dispatch(event);
+	}
+
+	/**
+	 * An EventSource's subscriptions are fixed when it opens, so reopen it
+	 * with the current ones, resuming from the cursors. Changes made in the
+	 * same tick share one reopen.
+	 */
+	private reopenEventSource(): void {
+		// Reached from subscribe(), often inside an effect, which must not come to depend on the transport
+		if (untrack(this.transport) !== "sse" || !this.connection || this.reopenQueued) return;
+		this.reopenQueued = true;
+		queueMicrotask(() => {
+			this.reopenQueued = false;
+			if (!this.running || !this.connection) return;
+			this.clearTimers();
+			this.detach()?.close();
+			this.open();
+		});
+	}
+
+	/**
+	 * Subscribe to every session again. After a drop, also ask the daemon to
+	 * replay what each session missed; the "subscribed" reply lists the
+	 * sessions it is replaying.
+	 */
+	private resubscribe(): void {
+		const message = this.subscribeMessage();
+		this.connectedBefore = true;
+		if (!message) return;
+		// A no-op on SSE, whose URL already carries it
+		this.send(message);
+		if (!message.resume) return;
+		this.pendingResume = message.sessions;
+		this.resumeTimer = setTimeout(() => this.finishResume([]), this.options.resumeTimeoutMs);
+	}
+
+	/** Subscribe to every session, with where to resume each from after a drop; null with no subscriptions */
+	private subscribeMessage(): SubscribeMessage | null {
+		const sessions = [...this.subscriptions.keys()];
+		if (!sessions.length) return null;
+		if (!this.connectedBefore) return { type: "subscribe", sessions };
+		const resume = Object.fromEntries(
+			sessions.flatMap((session) => {
+				const cursor = this.cursors.get(session);
+				return cursor ? [[session, cursor]] : [];
+			}),
+		);
+		return { type: "subscribe", sessions, resume };
+	}
+
+	/** Report a gap for every session the daemon is not replaying */
+	private finishResume(resumed: string[]): void {
+		if (this.resumeTimer) clearTimeout(this.resumeTimer);
+		this.resumeTimer = null;
+		const gaps = this.pendingResume.filter((session) => !resumed.includes(session));
+		this.pendingResume = [];
+		for (const session of gaps) {
+			for (const handler of this.gapHandlers.get(session) ?? []) {
+				try {
+					handler(session);
+				} catch (err) {
+					console.error(`Gap handler for ${session} failed:`, err);
+				}
+			}
+		}
+	}
+
+	private dispatch(event: StreamEvent): void {
+		if (!event.session || !this.subscriptions.has(event.session)) return;
+		const cursor = this.cursors.get(event.session);
+		// Already delivered, e.g. replayed again after a second drop
+		if (event.seq !== undefined && cursor?.seq !== undefined && event.seq <= cursor.seq) return;
+		this.cursors.set(event.session, { seq: event.seq ?? cursor?.seq, ts: event.ts ?? cursor?.ts });
+
+		for (const subscription of this.subscriptions.get(event.session) ?? []) {
+			if (subscription.type !== event.type) continue;
+			try {
+				subscription.handler(event as SessionEvent);
+			} catch (err) {
+				console.error(`Stream handler for ${event.session} failed:`, err);
+			}
+		}
+	}
+
+	/**
+	 * Drop a connection nothing has arrived on for too long. Browsers can't
+	 * send WebSocket pings, and the daemon answers every subscribe with
+	 * "subscribed", so repeating the current subscribe is the ping. Over
+	 * SSE, where nothing can be sent, the plugin server's heartbeat events
+	 * keep the connection alive instead.
+	 */
+	private checkHeartbeat(): void {
+		const sessions = [...this.subscriptions.keys()];
+		// Nothing to miss while nothing is subscribed; the next subscribe starts the clock again
+		if (!sessions.length) this.lastMessageAt = Date.now();
+		if (Date.now() - this.lastMessageAt <= this.options.heartbeatTimeoutMs) {
+			// A pending resume is waiting on a "subscribed" of its own, which this one must not be taken for
+			if (sessions.length && !this.pendingResume.length) this.send({ type: "subscribe", sessions });
+			return;
+		}
+		// A dead connection may never finish its closing handshake, so don't wait for onclose
+		this.detach()?.close(CLOSE_HEARTBEAT_TIMEOUT, "Heartbeat timeout");
+		this.dropped(CLOSE_HEARTBEAT_TIMEOUT);
+	}
+
+	private dropped(code: number | null): void {
+		this.clearTimers();
+		this.setCloseCode(code);
+		if (!this.running) return;
+		this.setState("reconnecting");
+		const delay = reconnectDelay(
+			this.attempts++,
+			this.options.baseDelayMs,
+			this.options.maxDelayMs,
+			this.options.random,
+		);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			this.open();
+		}, delay);
+	}
+
+	/** Stop listening to the current connection and hand it back */
+	private detach(): Connection | null {
+		const connection = this.connection;
+		this.connection = null;
+		return connection;
+	}
+
+	private clearTimers(): void {
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+		if (this.resumeTimer) clearTimeout(this.resumeTimer);
+		this.reconnectTimer = null;
+		this.heartbeatTimer = null;
+		this.resumeTimer = null;
+		// An unfinished resume is asked for again on the next connect
+		this.pendingResume = [];
+	}
+
+	private send(message: object): void {
+		this.connection?.send(message);
+	}
+
+	private handleOnline = (): void => {
+		if (!this.running || this.connection) return;
+		this.clearTimers();
+		this.attempts = 0;
+		this.open();
+	};
+
+	private handleOffline = (): void => {
+		if (!this.running) return;
+		this.clearTimers();
+		this.detach()?.close();
+		this.setCloseCode(null);
+		this.setState("offline");
+	};
+}
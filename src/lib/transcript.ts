@@ -0,0 +1,94 @@
+/**
+ * Session Transcripts
+ *
+ * The chat view's message list for a session: loaded from the session
+ * history, then kept current from stream events. Each helper returns a
+ * new list and leaves the one it was given alone, so a signal holding
+ * the list re-renders only the messages that changed.
+ */
+
+import type { SessionHistoryEntry } from "./api";
+
+/**
+ * Who a message is from: the dashboard's user, the model, or something
+ * else that put text into the session, such as another plugin, a cron or
+ * a peer.
+ */
+export type TranscriptRole = "user" | "assistant" | "injection";
+
+export interface TranscriptMessage {
+	role: TranscriptRole;
+	content: string;
+	/** Epoch milliseconds */
+	ts: number;
+	/** The sender the daemon logged, shown for injections */
+	from?: string;
+	/** A reply still being streamed */
+	streaming?: boolean;
+}
+
+/** How many history entries are loaded when a session is opened */
+export const HISTORY_LIMIT = 100;
+
+function roleOf(entry: SessionHistoryEntry): TranscriptRole {
+	if (entry.type === "response") return "assistant";
+	if (entry.type === "message") return "user";
+	return "injection";
+}
+
+export function fromHistory(history: SessionHistoryEntry[]): TranscriptMessage[] {
+	return history.map((entry) => ({ role: roleOf(entry), content: entry.content, ts: entry.ts, from: entry.from }));
+}
+
+/**
+ * A freshly loaded history followed by the messages that arrived live and
+ * are not in it yet: a reply still streaming, or anything newer than the
+ * history's last entry that it does not already hold.
+ */
+export function mergeHistory(loaded: TranscriptMessage[], live: TranscriptMessage[]): TranscriptMessage[] {
+	const lastTs = loaded.length ? loaded[loaded.length - 1].ts : Number.NEGATIVE_INFINITY;
+	const logged = (message: TranscriptMessage) =>
+		loaded.some((entry) => entry.role === message.role && entry.content === message.content);
+	return [...loaded, ...live.filter((message) => message.streaming || (message.ts > lastTs && !logged(message)))];
+}
+
+/** Add a message at the end */
+export function addMessage(messages: TranscriptMessage[], message: TranscriptMessage): TranscriptMessage[] {
+	return [...messages, message];
+}
+
+/** Add streamed text to the reply being written, starting one if there is none */
+export function appendReply(messages: TranscriptMessage[], text: string, ts: number): TranscriptMessage[] {
+	const last = messages[messages.length - 1];
+	if (last?.role === "assistant" && last.streaming) {
+		return [...messages.slice(0, -1), { ...last, content: last.content + text }];
+	}
+	return [...messages, { role: "assistant", content: text, ts, streaming: true }];
+}
+
+/** Mark the reply being written as finished */
+export function finishReply(messages: TranscriptMessage[]): TranscriptMessage[] {
+	const last = messages[messages.length - 1];
+	if (!(last?.role === "assistant" && last.streaming)) return messages;
+	return [...messages.slice(0, -1), { ...last, streaming: false }];
+}
+
+/**
+ * Replace the reply to the last user message with the whole text, e.g.
+ * one recovered from history after the stream lost events. Adds the reply
+ * when none has arrived.
+ */
+export function setReply(messages: TranscriptMessage[], text: string, ts: number): TranscriptMessage[] {
+	const sent = messages.findLastIndex((message) => message.role === "user");
+	const reply = messages.findIndex((message, i) => i > sent && message.role === "assistant");
+	if (reply === -1) return [...messages, { role: "assistant", content: text, ts }];
+	return messages.map((message, i) => (i === reply ? { ...message, content: text, streaming: false } : message));
+}
+
+/** A message's time, with the date too when it is not from today */
+export function formatTimestamp(ts: number, now = Date.now()): string {
+	const date = new Date(ts);
+	const sameDay = date.toDateString() === new Date(now).toDateString();
+	const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+	return sameDay ? time : `${date.toLocaleDateString()} ${time}`;
+}
@@ -5,28 +5,116 @@
  * Built with SolidJS, TailwindCSS, and Vite.
  */
 
-import { createReadStream, existsSync } from "node:fs";
+import { existsSync } from "node:fs";
 import http from "node:http";
-import { extname, join } from "node:path";
-import type { ConfigSchema, PluginManifest, WOPRPlugin, WOPRPluginContext } from "@wopr-network/plugin-types";
+import https from "node:https";
+import type { Socket } from "node:net";
+import { dirname, extname, join } from "node:path";
+import type { Duplex } from "node:stream";
+import { isDeepStrictEqual } from "node:util";
+import type {
+	ConfigSchema,
+	PluginManifest,
+	WebUiExtension,
+	WOPRPlugin,
+	WOPRPluginContext,
+} from "@wopr-network/plugin-types";
+import { type AccessLogWriter, clientIp, recordAccess, writeAccessLog } from "./server/access-log.js";
+import { AuthManager, LOGIN_PATH } from "./server/auth.js";
+import { BOOTSTRAP_PATH, buildBootstrap, sendBootstrap } from "./server/bootstrap.js";
+import {
+	DEFAULT_API_RATE_LIMIT,
+	DEFAULT_DAEMON_HOST,
+	DEFAULT_DAEMON_PORT,
+	DEFAULT_LOGIN_RATE_LIMIT,
+	DEFAULT_SESSION_IDLE_MINUTES,
+	DEFAULT_USERNAME,
+	formatListenAddress,
+	type ListenAddress,
+	type ResolvedConfig,
+	resolveConfig,
+	serverUrl,
+	tcpHosts,
+	type WebUiConfig,
+} from "./server/config.js";
+import { type EventStream, handleEvents, isEventsPath } from "./server/events.js";
+import { HEALTH_PATH, handleHealth } from "./server/health.js";
+import { applySocketMode, bindServer, listenKey } from "./server/listeners.js";
+import { renderMaintenancePage, sendMaintenancePage } from "./server/maintenance.js";
+import { authorizeMetrics, handleMetrics, METRICS_PATH, Metrics, type ProxyKind, routeOf } from "./server/metrics.js";
+import {
+	COMPONENTS_API_PATH,
+	PLUGIN_ASSETS_PREFIX,
+	rewriteComponents,
+	sendComponents,
+	servePluginAsset,
+} from "./server/plugin-assets.js";
+import { isApiPath, isWsPath, proxyRequest, proxyUpgrade } from "./server/proxy.js";
+import { enforceRateLimit, RateLimiter } from "./server/rate-limit.js";
+import {
+	applySecurityHeaders,
+	buildContentSecurityPolicy,
+	CSP_REPORT_PATH,
+	CspReportLog,
+	handleCspReport,
+	originOf,
+} from "./server/security-headers.js";
+import { drainServer, trackSockets } from "./server/shutdown.js";
+import { serveStatic } from "./server/static.js";
+import { createRedirectServer, loadTlsCredentials, type TlsCredentials } from "./server/tls.js";
 
 let ctx: WOPRPluginContext | null = null;
 const cleanups: Array<() => void | Promise<void>> = [];
 
-// Content types for static files
-const CONTENT_TYPES: Record<string, string> = {
-	".html": "text/html",
-	".js": "application/javascript",
-	".css": "text/css",
-	".json": "application/json",
-	".svg": "image/svg+xml",
-	".png": "image/png",
-	".jpg": "image/jpeg",
-	".ico": "image/x-icon",
-	".woff": "font/woff",
-	".woff2": "font/woff2",
-	".ttf": "font/ttf",
-};
+const SHUTDOWN_TIMEOUT_MS = 5000;
+// Force-close connections a little before the host's deadline so the remaining cleanups still run
+const DRAIN_TIMEOUT_MS = SHUTDOWN_TIMEOUT_MS - 500;
+
+interface RunningServer {
+	server: http.Server;
+	/** Every accepted socket, for forced shutdown */
+	sockets: Set<Socket>;
+	/** Proxied WebSockets, browser socket to daemon socket */
+	webSockets: Map<Duplex, Duplex>;
+	/** Event streams bridged from the daemon over SSE */
+	eventStreams: Set<EventStream>;
+	/** The address as configured */
+	address: ListenAddress;
+	/** Where it bound, with the real port when port 0 was configured */
+	bound: ListenAddress;
+}
+
+/** Settings the request handlers read per request, so a config change applies without rebinding */
+interface ServerState {
+	config: ResolvedConfig;
+	auth: AuthManager;
+	limiters: Limiters;
+	/** Kept across config reloads so counters only reset when the plugin restarts */
+	metrics: Metrics;
+	startedAt: number;
+}
+
+/** Per client IP limits on daemon API calls and sign-in attempts */
+interface Limiters {
+	api: RateLimiter;
+	login: RateLimiter;
+}
+
+interface ActiveServer {
+	pluginDir: string;
+	state: ServerState;
+	tls: TlsCredentials | null;
+	/** One server per listen address, in config order */
+	listeners: RunningServer[];
+	/** Plain HTTP listeners that redirect to HTTPS, when configured */
+	redirects: http.Server[];
+	/** dist/ has no build, so the maintenance page is served instead */
+	degraded: boolean;
+}
+
+let active: ActiveServer | null = null;
+// Config changes are applied one at a time, in the order they arrive
+let reloading: Promise<void> = Promise.resolve();
 
 const configSchema: ConfigSchema = {
 	title: "Web UI",
@@ -48,6 +136,280 @@ const configSchema: ConfigSchema = {
 			default: "127.0.0.1",
 			description: "Host address to bind the web UI server",
 		},
+		{
+			name: "listen",
+			type: "array",
+			label: "Listen Addresses",
+			items: {
+				name: "address",
+				type: "text",
+				label: "Address",
+				placeholder: "192.168.1.10:3000",
+			},
+			description:
+				'Addresses to bind instead of host and port: "host:port", "[::1]:port" or "unix:/path/to/socket". The first is the registered URL',
+		},
+		{
+			name: "socketMode",
+			type: "text",
+			label: "Socket File Mode",
+			placeholder: "660",
+			description: "Octal file mode for Unix socket listen addresses, e.g. 660 to let a reverse proxy group connect",
+		},
+		{
+			name: "basePath",
+			type: "text",
+			label: "Base Path",
+			placeholder: "/wopr",
+			default: "",
+			description: "URL prefix the dashboard is served under, e.g. when a reverse proxy mounts it at /wopr/",
+		},
+		{
+			name: "daemonHost",
+			type: "text",
+			label: "Daemon Host",
+			placeholder: DEFAULT_DAEMON_HOST,
+			default: DEFAULT_DAEMON_HOST,
+			description: "Host of the WOPR daemon that /api and /ws are proxied to",
+		},
+		{
+			name: "daemonPort",
+			type: "number",
+			label: "Daemon Port",
+			placeholder: String(DEFAULT_DAEMON_PORT),
+			default: DEFAULT_DAEMON_PORT,
+			description: "Port of the WOPR daemon that /api and /ws are proxied to",
+		},
+		{
+			name: "authMode",
+			type: "select",
+			label: "Authentication",
+			default: "none",
+			options: [
+				{ value: "none", label: "None (trusted network only)" },
+				{ value: "password", label: "Username and password" },
+				{ value: "token", label: "Access token" },
+			],
+			description: "How users must sign in before they can use the dashboard",
+		},
+		{
+			name: "username",
+			type: "text",
+			label: "Username",
+			placeholder: DEFAULT_USERNAME,
+			default: DEFAULT_USERNAME,
+			description: "Login name for password authentication",
+		},
+		{
+			name: "passwordHash",
+			type: "password",
+			label: "Password Hash",
+			placeholder: "scrypt$<salt>$<hash>",
+			description: "scrypt hash of the dashboard password (see README for how to generate one)",
+			secret: true,
+		},
+		{
+			name: "authToken",
+			type: "password",
+			label: "Access Token",
+			description: "Shared token for token authentication",
+			secret: true,
+		},
+		{
+			name: "sessionSecret",
+			type: "password",
+			label: "Session Secret",
+			description: "Key used to sign session cookies. Random per start if empty, which signs everyone out on restart.",
+			secret: true,
+		},
+		{
+			name: "sessionIdleMinutes",
+			type: "number",
+			label: "Session Idle Timeout (minutes)",
+			placeholder: String(DEFAULT_SESSION_IDLE_MINUTES),
+			default: DEFAULT_SESSION_IDLE_MINUTES,
+			description: "Sign users out after this many minutes without a request",
+		},
+		{
+			name: "tls",
+			type: "object",
+			label: "HTTPS",
+			description: "Serve the dashboard over HTTPS",
+			fields: [
+				{
+					name: "mode",
+					type: "select",
+					label: "Mode",
+					default: "off",
+					options: [
+						{ value: "off", label: "Off (plain HTTP)" },
+						{ value: "files", label: "Certificate and key files" },
+						{ value: "self-signed", label: "Self-signed (generated automatically)" },
+					],
+					description: "Where the TLS certificate comes from",
+				},
+				{
+					name: "certPath",
+					type: "text",
+					label: "Certificate Path",
+					placeholder: "/etc/ssl/certs/wopr.pem",
+					description: "PEM certificate (chain) file, used in 'files' mode",
+				},
+				{
+					name: "keyPath",
+					type: "text",
+					label: "Key Path",
+					placeholder: "/etc/ssl/private/wopr.key",
+					description: "PEM private key file, used in 'files' mode",
+				},
+				{
+					name: "redirectPort",
+					type: "number",
+					label: "HTTP Redirect Port",
+					placeholder: "80",
+					description: "Also listen for plain HTTP on this port and redirect to HTTPS. Leave empty to disable.",
+				},
+			],
+		},
+		{
+			name: "csp",
+			type: "object",
+			label: "Content Security Policy",
+			description: "Which origins the dashboard may load scripts and data from",
+			fields: [
+				{
+					name: "allowedOrigins",
+					type: "array",
+					label: "Allowed Origins",
+					items: {
+						name: "origin",
+						type: "text",
+						label: "Origin",
+						placeholder: "https://cdn.example.com",
+					},
+					description:
+						"Extra origins allowed besides the dashboard itself and the origins of registered plugin UI components",
+				},
+				{
+					name: "reportOnly",
+					type: "boolean",
+					label: "Report Only",
+					default: false,
+					description: "Log policy violations instead of blocking them, to try out a change safely",
+				},
+			],
+		},
+		{
+			name: "features",
+			type: "object",
+			label: "Features",
+			description: "Optional dashboard features",
+			fields: [
+				{
+					name: "webmcp",
+					type: "boolean",
+					label: "WebMCP Tools",
+					default: true,
+					description: "Expose conversation tools to browser agents through WebMCP",
+				},
+				{
+					name: "pluginComponents",
+					type: "boolean",
+					label: "Plugin Components",
+					default: true,
+					description: "Load UI components registered by other plugins",
+				},
+			],
+		},
+		{
+			name: "accessLog",
+			type: "object",
+			label: "Access Log",
+			description: "Log every dashboard request with its client IP and signed-in user",
+			fields: [
+				{
+					name: "enabled",
+					type: "boolean",
+					label: "Enabled",
+					default: true,
+					description: "Write access log entries through the plugin logger",
+				},
+				{
+					name: "sampleRate",
+					type: "number",
+					label: "Sample Rate",
+					placeholder: "1",
+					default: 1,
+					description: "Fraction of successful requests to log, 0 to 1. Errors and rejected requests are always logged",
+				},
+			],
+		},
+		{
+			name: "rateLimit",
+			type: "object",
+			label: "Rate Limits",
+			description: "Per client IP token buckets; set a rate to 0 to turn that limit off",
+			fields: [
+				{
+					name: "apiPerMinute",
+					type: "number",
+					label: "API Requests per Minute",
+					default: DEFAULT_API_RATE_LIMIT.perMinute,
+					description: "Sustained rate of /api and /ws requests per client",
+				},
+				{
+					name: "apiBurst",
+					type: "number",
+					label: "API Burst",
+					default: DEFAULT_API_RATE_LIMIT.burst,
+					description: "API requests a client can make at once",
+				},
+				{
+					name: "loginPerMinute",
+					type: "number",
+					label: "Login Attempts per Minute",
+					default: DEFAULT_LOGIN_RATE_LIMIT.perMinute,
+					description: "Sustained rate of sign-in attempts per client",
+				},
+				{
+					name: "loginBurst",
+					type: "number",
+					label: "Login Burst",
+					default: DEFAULT_LOGIN_RATE_LIMIT.burst,
+					description: "Sign-in attempts a client can make at once",
+				},
+			],
+		},
+		{
+			name: "trustProxy",
+			type: "boolean",
+			label: "Trust Proxy Headers",
+			default: false,
+			description: "Take client IPs from X-Forwarded-For; only enable behind a reverse proxy that sets it",
+		},
+		{
+			name: "metrics",
+			type: "object",
+			label: "Metrics",
+			description: "Prometheus metrics at /metrics",
+			fields: [
+				{
+					name: "enabled",
+					type: "boolean",
+					label: "Enabled",
+					default: true,
+					description: "Serve request, latency and proxy metrics in the Prometheus text format",
+				},
+				{
+					name: "token",
+					type: "password",
+					label: "Metrics Token",
+					description:
+						"Bearer token for scrapers. Signed-in dashboard sessions can always read the metrics; with auth off, the token is required once set",
+					secret: true,
+				},
+			],
+		},
 	],
 };
 
@@ -75,74 +437,480 @@ const manifest: PluginManifest = {
 		],
 	},
 	lifecycle: {
-		healthEndpoint: "/",
+		healthEndpoint: HEALTH_PATH,
 		healthIntervalMs: 30000,
 		shutdownBehavior: "graceful",
-		shutdownTimeoutMs: 5000,
+		shutdownTimeoutMs: SHUTDOWN_TIMEOUT_MS,
 	},
 	configSchema,
 };
 
-/** Start HTTP server to serve built web UI. Returns the server instance. */
-function startServer(pluginDir: string, port: number, host: string): http.Server {
+/**
+ * Strip the base path from a request URL. Returns null for URLs outside
+ * it and "" for the bare base path, which needs a trailing slash.
+ */
+function stripBasePath(url: string, basePath: string): string | null {
+	if (!basePath) return url;
+	if (url === basePath || url.startsWith(`${basePath}?`)) return "";
+	return url.startsWith(`${basePath}/`) ? url.slice(basePath.length) : null;
+}
+
+/** Create an HTTP server for one listen address that serves the built web UI. The caller binds it. */
+function startServer(
+	pluginDir: string,
+	state: ServerState,
+	tls: TlsCredentials | null,
+	address: ListenAddress,
+): RunningServer {
 	const distDir = join(pluginDir, "dist");
+	// Plugins are installed side by side, so other plugins' directories are this one's siblings
+	const pluginsRoot = dirname(pluginDir);
+	const webSockets = new Map<Duplex, Duplex>();
+	const eventStreams = new Set<EventStream>();
+	const onProxyError = (kind: ProxyKind) => (err: Error) => {
+		state.metrics.recordProxyError(kind);
+		ctx?.log?.warn(`Daemon proxy error: ${err.message}`);
+	};
+	const onApiProxyError = onProxyError("http");
+	const onWsProxyError = onProxyError("websocket");
+	const cspReports = new CspReportLog((message) => ctx?.log?.warn(message));
+
+	const handleRequest: http.RequestListener = (req, res) => {
+		const { config, auth, limiters, metrics } = state;
+		const observed = metrics.observeRequest(req, res);
 
-	const httpServer = http.createServer((req, res) => {
-		// Security headers
-		res.setHeader("X-Content-Type-Options", "nosniff");
-		res.setHeader("X-Frame-Options", "DENY");
-		res.setHeader("X-XSS-Protection", "1; mode=block");
+		// Security headers; components can register at any time, so the policy is built per request
+		const components = rewriteComponents(ctx?.getUiComponents() ?? [], pluginsRoot, config.basePath);
+		const moduleUrls = components.map((component) => component.moduleUrl);
+		const policy = buildContentSecurityPolicy(moduleUrls, config.csp, config.basePath);
+		applySecurityHeaders(res, policy, config.csp.reportOnly);
+
+		// Health checks come from the host without a session, at the root or under the base path
+		const healthPath = (req.url ?? "/").split("?")[0];
+		if (healthPath === HEALTH_PATH || healthPath === `${config.basePath}${HEALTH_PATH}`) {
+			observed.route = "healthz";
+			void handleHealth(res, {
+				distDir,
+				daemon: config.daemon,
+				version: manifest.version,
+				startedAt: state.startedAt,
+				connections: { size: openWebSockets() },
+				// The full report is open to whoever may scrape /metrics
+				detailed: authorizeMetrics(req, config.metrics, auth),
+			});
+			return;
+		}
 
-		// CORS for development
-		res.setHeader("Access-Control-Allow-Origin", "*");
+		// Health checks are left out of the access log; the host polls them on a timer
+		const ip = clientIp(req, config.trustProxy);
+		const access = recordAccess(req, res, ip, config.accessLog, logAccess);
+
+		// Everything below routes on paths relative to the base path
+		const mounted = stripBasePath(req.url ?? "/", config.basePath);
+		if (mounted === null) {
+			res.statusCode = 404;
+			res.end("Not found");
+			return;
+		}
+		if (mounted === "") {
+			res.statusCode = 301;
+			res.setHeader("Location", `${config.basePath}/${(req.url ?? "").slice(config.basePath.length)}`);
+			res.end();
+			return;
+		}
+		req.url = mounted;
 
 		// Determine file path
 		let urlPath = req.url === "/" ? "/index.html" : (req.url ?? "/index.html");
 		// Strip query string
 		const qIdx = urlPath.indexOf("?");
 		if (qIdx !== -1) urlPath = urlPath.slice(0, qIdx);
+		observed.route = routeOf(urlPath);
 
-		// Handle client-side routing - serve index.html for non-file paths
-		if (!extname(urlPath)) {
-			urlPath = "/index.html";
+		// Browsers may send violation reports without the session cookie, so the rate limit is all that guards it
+		if (urlPath === CSP_REPORT_PATH) {
+			if (!enforceRateLimit(limiters.api, ip, res)) return;
+			handleCspReport(req, res, cspReports, config.csp.reportOnly);
+			return;
 		}
 
-		const filePath = join(distDir, urlPath);
+		// Sign-in attempts are limited per client to slow down password guessing
+		if (urlPath === LOGIN_PATH && req.method === "POST" && !enforceRateLimit(limiters.login, ip, res)) return;
 
-		// Security: prevent directory traversal
-		if (!filePath.startsWith(distDir)) {
-			res.statusCode = 403;
-			res.end("Forbidden");
+		// Login, logout and session info
+		if (auth.handleRoute(req, res, urlPath)) return;
+
+		// Scrapers authenticate with the metrics token instead of a session
+		if (urlPath === METRICS_PATH && config.metrics.enabled) {
+			handleMetrics(req, res, config.metrics, auth, () =>
+				metrics.render({
+					version: manifest.version,
+					webSockets: openWebSockets(),
+					uptimeSeconds: Math.floor((Date.now() - state.startedAt) / 1000),
+				}),
+			);
 			return;
 		}
 
-		// Check if file exists
-		if (!existsSync(filePath)) {
-			// Serve index.html for client-side routing
-			const indexPath = join(distDir, "index.html");
-			if (existsSync(indexPath)) {
-				res.setHeader("Content-Type", "text/html");
-				createReadStream(indexPath).pipe(res);
+		// Everything else requires a session when auth is enabled
+		if (auth.enabled) {
+			const identity = auth.authenticate(req);
+			if (!identity) {
+				auth.reject(req, res);
 				return;
 			}
-			res.statusCode = 404;
-			res.end("Not found");
+			access.user = identity.user;
+		}
+
+		// Deployment settings for the SPA
+		if (urlPath === BOOTSTRAP_PATH) {
+			sendBootstrap(res, buildBootstrap(config, manifest.version));
+			return;
+		}
+
+		// The event stream as Server-Sent Events, for browsers whose WebSocket upgrades are blocked
+		if (isEventsPath(urlPath)) {
+			if (!enforceRateLimit(limiters.api, ip, res)) return;
+			handleEvents(req, res, config.daemon, onWsProxyError, eventStreams);
+			return;
+		}
+
+		// Forward daemon API calls
+		if (isApiPath(urlPath)) {
+			if (!enforceRateLimit(limiters.api, ip, res)) return;
+			// Answered here so component modules are loaded from this server
+			if (urlPath === COMPONENTS_API_PATH && (req.method === "GET" || req.method === "HEAD")) {
+				sendComponents(res, components);
+				return;
+			}
+			proxyRequest(req, res, config.daemon, onApiProxyError);
+			return;
+		}
+
+		// Component bundles from other plugins' directories
+		if (urlPath.startsWith(`${PLUGIN_ASSETS_PREFIX}/`)) {
+			servePluginAsset(req, res, urlPath, pluginsRoot, ctx?.getUiComponents() ?? []);
+			return;
+		}
+
+		// Without a build, dashboard pages explain why
+		const built = existsSync(join(distDir, "index.html"));
+		setDegraded(!built);
+		if (!built && (!extname(urlPath) || urlPath === "/index.html")) {
+			sendMaintenancePage(res, renderMaintenancePage(maintenancePageOptions(config)));
+			return;
+		}
+
+		serveStatic(req, res, distDir, urlPath, config.basePath);
+	};
+
+	const httpServer = tls ? https.createServer(tls, handleRequest) : http.createServer(handleRequest);
+	const sockets = trackSockets(httpServer);
+
+	// Forward daemon WebSocket connections
+	httpServer.on("upgrade", (req, socket, head) => {
+		// A browser resetting while its upgrade is refused must not crash the process
+		socket.on("error", () => socket.destroy());
+		const { config, auth, limiters, metrics } = state;
+		const ip = clientIp(req, config.trustProxy);
+		const path = (req.url ?? "/").split("?")[0];
+		// Upgrades have no response to wait for, so they are logged as they are decided
+		const log = (status: number, user: string | null = null) => {
+			metrics.recordUpgrade(status);
+			writeAccessLog(
+				config.accessLog,
+				{ method: req.method ?? "GET", path, status, durationMs: 0, ip, user, aborted: false },
+				logAccess,
+			);
+		};
+
+		const mounted = stripBasePath(req.url ?? "/", config.basePath);
+		if (!mounted || !isWsPath(mounted.split("?")[0])) {
+			log(404);
+			socket.destroy();
+			return;
+		}
+		req.url = mounted;
+		const identity = auth.enabled ? auth.authenticate(req) : null;
+		if (auth.enabled && !identity) {
+			log(401);
+			socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+			return;
+		}
+		const user = identity?.user ?? null;
+		const retryAfter = limiters.api.take(ip);
+		if (retryAfter > 0) {
+			log(429, user);
+			socket.end(`HTTP/1.1 429 Too Many Requests\r\nRetry-After: ${retryAfter}\r\nConnection: close\r\n\r\n`);
 			return;
 		}
+		log(101, user);
+		proxyUpgrade(req, socket, head, config.daemon, onWsProxyError, webSockets);
+	});
+
+	return { server: httpServer, sockets, webSockets, eventStreams, address, bound: address };
+}
+
+const logAccess: AccessLogWriter = (message, entry) => {
+	ctx?.log.info(message, entry);
+};
+
+function createLimiters(config: ResolvedConfig): Limiters {
+	return { api: new RateLimiter(config.rateLimit.api), login: new RateLimiter(config.rateLimit.login) };
+}
+
+/** Daemon WebSockets held for browsers across every listener, proxied on /ws or bridged to /events */
+function openWebSockets(): number {
+	return (
+		active?.listeners.reduce((count, running) => count + running.webSockets.size + running.eventStreams.size, 0) ?? 0
+	);
+}
+
+function logServerError(err: Error): void {
+	ctx?.log?.error("webui server error", { err });
+}
+
+/** Start and bind a server per address, closing them all again if any fails to bind */
+async function startListeners(
+	current: Pick<ActiveServer, "pluginDir" | "state" | "tls">,
+	addresses: ListenAddress[],
+): Promise<RunningServer[]> {
+	const started: RunningServer[] = [];
+	for (const address of addresses) {
+		const running = startServer(current.pluginDir, current.state, current.tls, address);
+		try {
+			running.bound = await bindServer(running.server, address);
+		} catch (error: unknown) {
+			await Promise.all(started.map((other) => closeServer(other.server)));
+			throw new Error(
+				`Cannot bind ${formatListenAddress(address)}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		running.server.on("error", logServerError);
+		started.push(running);
+	}
+	return started;
+}
+
+/** The URL registered for the dashboard: the first listener's, as bound */
+function dashboardUrl(current: ActiveServer): string {
+	return serverUrl(current.state.config, current.listeners[0].bound);
+}
+
+function describeListeners(current: ActiveServer): string {
+	return current.listeners.map((running) => formatListenAddress(running.bound)).join(", ");
+}
+
+/** Declare the TCP ports actually bound in the manifest */
+function updateManifestPorts(current: ActiveServer): void {
+	const ports = current.listeners.flatMap(({ bound }) => (bound.type === "tcp" ? [bound.port] : []));
+	const { redirectPort } = current.state.config.tls;
+	if (current.redirects.length && redirectPort) ports.push(redirectPort);
+	manifest.requires = {
+		...manifest.requires,
+		network: { ...manifest.requires?.network, ports: [...new Set(ports)] },
+	};
+}
+
+/** Close a server and any connections still open on it */
+function closeServer(server: http.Server): Promise<void> {
+	return new Promise((resolve, reject) => {
+		server.close((err) => (err ? reject(err) : resolve()));
+		server.closeAllConnections?.();
+	});
+}
+
+/** Drain a dashboard listener, logging connections that outlived the deadline */
+async function drainRunning(running: RunningServer): Promise<void> {
+	const { forced } = await drainServer(running.server, { ...running, timeoutMs: DRAIN_TIMEOUT_MS });
+	if (forced > 0) {
+		ctx?.log.warn(`Closed ${forced} connection(s) still open after ${DRAIN_TIMEOUT_MS}ms`);
+	}
+}
 
-		// Serve file
-		const ext = extname(filePath).toLowerCase();
-		const contentType = CONTENT_TYPES[ext] || "application/octet-stream";
-		res.setHeader("Content-Type", contentType);
+/** Send plain HTTP visitors on tls.redirectPort to the HTTPS listener on the same host */
+function startRedirects(current: ActiveServer): http.Server[] {
+	const { redirectPort } = current.state.config.tls;
+	if (!current.tls || !redirectPort) return [];
 
-		createReadStream(filePath).pipe(res);
+	// The HTTPS port to send each host's visitors to; the first listener on a host wins
+	const httpsPorts = new Map<string, number>();
+	for (const { bound } of current.listeners) {
+		if (bound.type === "tcp" && !httpsPorts.has(bound.host)) httpsPorts.set(bound.host, bound.port);
+	}
+	return [...httpsPorts].map(([host, port]) => {
+		const redirectServer = createRedirectServer(port);
+		redirectServer.on("error", (err) => {
+			ctx?.log?.error("webui redirect server error", { err });
+		});
+		redirectServer.listen(redirectPort, host);
+		ctx?.log.info(`Redirecting http://${formatListenAddress({ type: "tcp", host, port: redirectPort })} to HTTPS`);
+		return redirectServer;
 	});
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+/** Log auth setups that leave the dashboard unusable or exposed */
+function checkAuth(config: ResolvedConfig, auth: AuthManager): void {
+	const exposed = tcpHosts(config).filter((host) => !LOOPBACK_HOSTS.includes(host));
+	if (!auth.isConfigured()) {
+		ctx?.log.error(
+			`Authentication mode "${config.auth.mode}" has no credentials configured; nobody will be able to sign in`,
+		);
+	} else if (!auth.enabled && exposed.length > 0) {
+		ctx?.log.warn(
+			`Web UI is bound to ${exposed.join(", ")} without authentication; anyone who can reach it has full control`,
+		);
+	}
+}
+
+function checkCspOptions(config: ResolvedConfig): void {
+	for (const origin of config.csp.allowedOrigins) {
+		if (!originOf(origin)) ctx?.log.warn(`Ignoring invalid CSP allowed origin "${origin}"`);
+	}
+	if (config.csp.reportOnly) {
+		ctx?.log.warn("Content-Security-Policy is in report-only mode; violations are logged but not blocked");
+	}
+}
+
+/** Settings shown on the maintenance page; nothing secret */
+function maintenancePageOptions(config: ResolvedConfig) {
+	return {
+		version: manifest.version,
+		settings: {
+			"Listening on": active ? describeListeners(active) : "",
+			TLS: config.tls.mode,
+			"Auth mode": config.auth.mode,
+			Daemon: `${config.daemon.host}:${config.daemon.port}`,
+			"Build directory": join(active?.pluginDir ?? "", "dist"),
+		},
+	};
+}
+
+/** The main extension carries a degraded flag so other dashboards can show that the UI is not built */
+function registerMainExtension(url: string, degraded: boolean): void {
+	const extension: WebUiExtension & { degraded: boolean } = {
+		id: "main",
+		title: "Web Dashboard",
+		url,
+		description: degraded ? "WOPR web interface (not built)" : "WOPR web interface",
+		category: "core",
+		degraded,
+	};
+	ctx?.registerWebUiExtension(extension);
+}
+
+/** Record whether a build is present, re-registering the main extension when that changes */
+function setDegraded(degraded: boolean): void {
+	if (!active || active.degraded === degraded) return;
+	active.degraded = degraded;
+	ctx?.unregisterWebUiExtension("main");
+	registerMainExtension(dashboardUrl(active), degraded);
+	if (degraded) ctx?.log.warn("Web UI build disappeared; serving the maintenance page");
+	else ctx?.log.info("Web UI build found; serving the dashboard");
+}
+
+/** Two TCP addresses on one port can't both be bound when either is a wildcard; treat any shared port as a clash */
+function clashes(a: ListenAddress, b: ListenAddress): boolean {
+	return a.type === "tcp" && b.type === "tcp" && a.port !== 0 && a.port === b.port;
+}
+
+/**
+ * Apply the plugin's current config to the running server. Most settings
+ * take effect on the next request. New listen addresses are bound next to
+ * the old listeners, which are only drained once every new one is up, so
+ * an address that is already in use leaves the dashboard where it was.
+ */
+async function reloadConfig(): Promise<void> {
+	if (!ctx || !active) return;
+	const current = active;
+	const previous = current.state.config;
+	const previousUrl = dashboardUrl(current);
+
+	let next: ResolvedConfig;
+	try {
+		next = resolveConfig(ctx.getConfig<WebUiConfig>());
+	} catch (error: unknown) {
+		ctx.log.error(
+			`Invalid Web UI config: ${error instanceof Error ? error.message : String(error)}; keeping the previous settings`,
+		);
+		return;
+	}
+	if (!isDeepStrictEqual(next.tls, previous.tls)) {
+		ctx.log.warn("TLS settings changed; restart the plugin to apply them");
+		next = { ...next, tls: previous.tls };
+	}
+	if (isDeepStrictEqual(next, previous)) return;
+
+	const existing = new Map(current.listeners.map((running) => [listenKey(running.address), running]));
+	const wanted = new Set(next.listen.map(listenKey));
+	const added = next.listen.filter((address) => !existing.has(listenKey(address)));
+	const retired = current.listeners.filter((running) => !wanted.has(listenKey(running.address)));
+
+	// Listeners being replaced on the same port stop accepting first, or the new address could never bind
+	const released = retired.filter((running) => added.some((address) => clashes(address, running.bound)));
+	for (const running of released) running.server.close();
 
-	httpServer.on("error", (err) => {
-		ctx?.log?.error("webui server error", { err });
+	let started: RunningServer[];
+	try {
+		started = await startListeners(current, added);
+	} catch (error: unknown) {
+		for (const running of released) {
+			await bindServer(running.server, running.address).catch((err: Error) => {
+				ctx?.log.error(`Cannot rebind ${formatListenAddress(running.address)}: ${err.message}`);
+			});
+		}
+		ctx?.log.error(
+			`${error instanceof Error ? error.message : String(error)}; still serving at ${describeListeners(current)}`,
+		);
+		return;
+	}
+	// The plugin shut down while the new listeners were binding
+	if (active !== current) {
+		await Promise.all(started.map((running) => closeServer(running.server)));
+		return;
+	}
+
+	const byKey = new Map([
+		...existing,
+		...started.map((running): [string, RunningServer] => [listenKey(running.address), running]),
+	]);
+	current.listeners = next.listen.map((address) => {
+		const running = byKey.get(listenKey(address)) as RunningServer;
+		if (!isDeepStrictEqual(running.address, address)) {
+			// Same socket path with a new file mode
+			running.address = address;
+			applySocketMode(address);
+		}
+		return running;
 	});
-	httpServer.listen(port, host);
-	return httpServer;
+	const rebound = added.length > 0 || retired.length > 0;
+
+	// A new auth manager signs everyone out, so only replace it when its settings change
+	const authChanged = !isDeepStrictEqual(next.auth, previous.auth);
+	if (authChanged) current.state.auth = new AuthManager(next.auth);
+	if (authChanged || rebound) checkAuth(next, current.state.auth);
+	if (!isDeepStrictEqual(next.rateLimit, previous.rateLimit)) current.state.limiters = createLimiters(next);
+	if (!isDeepStrictEqual(next.csp, previous.csp)) checkCspOptions(next);
+	current.state.config = next;
+
+	const url = dashboardUrl(current);
+	if (url !== previousUrl) {
+		ctx?.unregisterWebUiExtension("main");
+		registerMainExtension(url, current.degraded);
+		ctx?.log.info(`Web UI server moved to ${url}`);
+	} else {
+		ctx?.log.info("Web UI config reloaded");
+	}
+
+	if (rebound) {
+		ctx?.log.info(`Web UI listening on ${describeListeners(current)}`);
+		await Promise.all(current.redirects.map(closeServer));
+		current.redirects = startRedirects(current);
+		updateManifestPorts(current);
+		await Promise.all(retired.map(drainRunning));
+	}
 }
 
 const plugin: WOPRPlugin = {
@@ -161,47 +929,93 @@ const plugin: WOPRPlugin = {
 			ctx?.unregisterConfigSchema("wopr-plugin-webui");
 		});
 
-		const config = ctx.getConfig<{ port?: number; host?: string }>();
-		const port = config?.port || 3000;
-		const host = config?.host || "127.0.0.1";
+		let config: ResolvedConfig;
+		try {
+			config = resolveConfig(ctx.getConfig<WebUiConfig>());
+		} catch (error: unknown) {
+			ctx.log.error(`Invalid Web UI config: ${error instanceof Error ? error.message : String(error)}`);
+			ctx.unregisterConfigSchema("wopr-plugin-webui");
+			cleanups.length = 0;
+			ctx = null;
+			return;
+		}
+
+		// Without a build, still start so visitors get the maintenance page instead of a refused connection
+		const built = existsSync(join(ctx.getPluginDir(), "dist", "index.html"));
+		if (!built) {
+			ctx.log.error("dist/ folder has no build. Run 'npm run build:ui' first.");
+			ctx.log.info("Serving a maintenance page until the Web UI is built.");
+		}
+
+		// Load the certificate before binding anything
+		let tls: TlsCredentials | null = null;
+		if (config.tls.mode !== "off") {
+			try {
+				tls = loadTlsCredentials(ctx.getPluginDir(), config.tls, tcpHosts(config));
+			} catch (error: unknown) {
+				ctx.log.error(`Failed to load TLS certificate: ${error instanceof Error ? error.message : String(error)}`);
+				ctx.log.info("Fix the tls settings or set tls.mode to 'off' to serve plain HTTP.");
+				ctx.unregisterConfigSchema("wopr-plugin-webui");
+				cleanups.length = 0;
+				ctx = null;
+				return;
+			}
+		}
+
+		const auth = new AuthManager(config.auth);
+		checkAuth(config, auth);
+		checkCspOptions(config);
 
-		// Check if dist folder exists
-		const distDir = join(ctx.getPluginDir(), "dist");
-		if (!existsSync(distDir)) {
-			ctx.log.error("dist/ folder not found. Run 'npm run build:ui' first.");
-			ctx.log.info("The Web UI needs to be built before it can be served.");
-			// Clean up what we registered before bailing
+		// Start a server on every listen address
+		const current: ActiveServer = {
+			pluginDir: ctx.getPluginDir(),
+			state: { config, auth, limiters: createLimiters(config), metrics: new Metrics(), startedAt: Date.now() },
+			tls,
+			listeners: [],
+			redirects: [],
+			degraded: !built,
+		};
+		try {
+			current.listeners = await startListeners(current, config.listen);
+		} catch (error: unknown) {
+			ctx.log.error(error instanceof Error ? error.message : String(error));
 			ctx.unregisterConfigSchema("wopr-plugin-webui");
 			cleanups.length = 0;
 			ctx = null;
 			return;
 		}
+		active = current;
+		cleanups.push(async () => {
+			if (active === current) active = null;
+			await Promise.all(current.redirects.map(closeServer));
+			await Promise.all(current.listeners.map(drainRunning));
+		});
 
-		// Start server
-		const server = startServer(ctx.getPluginDir(), port, host);
-		cleanups.push(
-			() =>
-				new Promise<void>((resolve, reject) => {
-					server.close((err) => (err ? reject(err) : resolve()));
-				}),
-		);
+		const url = dashboardUrl(current);
+		ctx.log.info(`Web UI server running at ${url}`);
+		if (current.listeners.length > 1) ctx.log.info(`Web UI listening on ${describeListeners(current)}`);
 
-		ctx.log.info(`Web UI server running at http://${host}:${port}`);
+		current.redirects = startRedirects(current);
+		updateManifestPorts(current);
 
 		// Register as the main web UI
-		ctx.registerWebUiExtension({
-			id: "main",
-			title: "Web Dashboard",
-			url: `http://${host}:${port}`,
-			description: "WOPR web interface",
-			category: "core",
-		});
+		registerMainExtension(url, !built);
 		cleanups.push(() => {
 			ctx?.unregisterWebUiExtension("main");
 		});
 
+		// Apply config changes in place instead of waiting for a restart
+		const unsubscribe = ctx.events.on("config:change", (event) => {
+			if (event.plugin && event.plugin !== "wopr-plugin-webui") return;
+			reloading = reloading.then(reloadConfig).catch((error: unknown) => {
+				ctx?.log.error(`Failed to reload Web UI config: ${error instanceof Error ? error.message : String(error)}`);
+			});
+			return reloading;
+		});
+		cleanups.push(unsubscribe);
+
 		ctx.log.info("Registered Web UI extension");
-		ctx.log.info("Make sure the WOPR daemon API is accessible from the browser");
+		ctx.log.info(`Proxying /api and /ws to the WOPR daemon at ${config.daemon.host}:${config.daemon.port}`);
 	},
 
 	async shutdown() {
@@ -0,0 +1,91 @@
+/**
+ * Access Log
+ *
+ * One structured entry per request through ctx.log, so there is a record
+ * of who used the dashboard and how. Successful requests can be sampled to
+ * keep a busy dashboard's log quiet; errors, rejections and aborted
+ * requests are always logged.
+ */
+
+import type http from "node:http";
+import { performance } from "node:perf_hooks";
+
+export interface AccessLogOptions {
+	enabled: boolean;
+	/** Fraction of successful requests to log, 0 to 1 */
+	sampleRate: number;
+}
+
+export interface AccessLogEntry {
+	method: string;
+	/** Request path without the query string, which may carry tokens */
+	path: string;
+	status: number;
+	durationMs: number;
+	ip: string;
+	/** Signed-in user, or null when auth is off or the request had no session */
+	user: string | null;
+	/** The client went away before the response finished */
+	aborted: boolean;
+}
+
+export type AccessLogWriter = (message: string, entry: AccessLogEntry) => void;
+
+/**
+ * The client's address. Behind a reverse proxy every request comes from
+ * the proxy, so with trustProxy the first X-Forwarded-For hop is used.
+ * Unix socket clients have no address and are reported as "local".
+ */
+export function clientIp(req: http.IncomingMessage, trustProxy: boolean): string {
+	const forwarded = req.headers["x-forwarded-for"];
+	const header = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+	const first = trustProxy ? header?.split(",")[0]?.trim() : undefined;
+	const address = first || req.socket?.remoteAddress || "local";
+	return address.startsWith("::ffff:") ? address.slice("::ffff:".length) : address;
+}
+
+export function shouldLog(options: AccessLogOptions, entry: AccessLogEntry, random = Math.random): boolean {
+	if (!options.enabled) return false;
+	if (entry.status >= 400 || entry.aborted) return true;
+	return random() < options.sampleRate;
+}
+
+/** Common-log style summary: ip user "METHOD /path" status duration */
+export function formatAccessLog(entry: AccessLogEntry): string {
+	const aborted = entry.aborted ? " (aborted)" : "";
+	return `${entry.ip} ${entry.user ?? "-"} "${entry.method} ${entry.path}" ${entry.status} ${entry.durationMs}ms${aborted}`;
+}
+
+/** Write an entry unless it is sampled out */
+export function writeAccessLog(options: AccessLogOptions, entry: AccessLogEntry, write: AccessLogWriter): void {
+	if (shouldLog(options, entry)) write(formatAccessLog(entry), entry);
+}
+
+/**
+ * Log a request once its response closes. Returns the fields the handler
+ * fills in as it learns them, such as the signed-in user.
+ */
+export function recordAccess(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	ip: string,
+	options: AccessLogOptions,
+	write: AccessLogWriter,
+): { user: string | null } {
+	const started = performance.now();
+	const path = (req.url ?? "/").split("?")[0];
+	const context = { user: null as string | null };
+	res.once("close", () => {
+		const entry: AccessLogEntry = {
+			method: req.method ?? "GET",
+			path,
+			status: res.statusCode,
+			durationMs: Math.round(performance.now() - started),
+			ip,
+			user: context.user,
+			aborted: !res.writableFinished,
+		};
+		writeAccessLog(options, entry, write);
+	});
+	return context;
+}
@@ -0,0 +1,366 @@
+/**
+ * Dashboard Authentication
+ *
+ * Optional login gate for the plugin server. Credentials are either a
+ * scrypt password hash or a shared token from the plugin config. A
+ * successful login creates a server-side session referenced by a signed,
+ * HttpOnly cookie that expires after a period of inactivity.
+ */
+
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import type http from "node:http";
+import { renderLoginPage } from "./login-page.js";
+
+export type AuthMode = "none" | "password" | "token";
+
+export interface AuthOptions {
+	mode: AuthMode;
+	username: string;
+	passwordHash?: string;
+	token?: string;
+	sessionSecret?: string;
+	idleTimeoutMs: number;
+	/** Prefix for the login redirect, form action and cookie path; "" for the root */
+	basePath?: string;
+}
+
+export interface AuthIdentity {
+	user: string;
+	sessionId: string;
+	roles: string[];
+}
+
+interface SessionRecord {
+	user: string;
+	lastSeen: number;
+}
+
+export const SESSION_COOKIE = "wopr_webui_session";
+export const LOGIN_PATH = "/login";
+export const LOGOUT_PATH = "/logout";
+export const SESSION_PATH = "/auth/session";
+
+const MAX_LOGIN_BODY_BYTES = 8 * 1024;
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Hash a password for the `passwordHash` config field.
+ * Format: scrypt$<salt hex>$<derived key hex>
+ */
+export function hashPassword(password: string, salt = randomBytes(16)): string {
+	const key = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+	return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+/** Check a password against a hash produced by hashPassword() */
+export function verifyPassword(password: string, stored: string): boolean {
+	const [scheme, saltHex, keyHex] = stored.split("$");
+	if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+	const expected = Buffer.from(keyHex, "hex");
+	if (expected.length === 0) return false;
+	const actual = scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+	return timingSafeEqual(actual, expected);
+}
+
+/** Constant-time string comparison that does not leak length */
+export function safeEqual(a: string, b: string): boolean {
+	const ha = createHash("sha256").update(a).digest();
+	const hb = createHash("sha256").update(b).digest();
+	return timingSafeEqual(ha, hb);
+}
+
+/** Parse a Cookie header into a name/value map */
+export function parseCookies(header: string | undefined): Record<string, string> {
+	const cookies: Record<string, string> = {};
+	if (!header) return cookies;
+	for (const part of header.split(";")) {
+		const eq = part.indexOf("=");
+		if (eq === -1) continue;
+		const name = part.slice(0, eq).trim();
+		const value = part.slice(eq + 1).trim();
+		if (!name || name in cookies) continue;
+		try {
+			cookies[name] = decodeURIComponent(value);
+		} catch {
+			cookies[name] = value;
+		}
+	}
+	return cookies;
+}
+
+/** Read a small request body, rejecting anything over the limit */
+function readBody(req: http.IncomingMessage, limit: number): Promise<string> {
+	return new Promise((resolve, reject) => {
+		let size = 0;
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > limit) {
+				reject(new Error("Request body too large"));
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+		req.on("error", reject);
+	});
+}
+
+function parseLoginBody(req: http.IncomingMessage, body: string): Record<string, string> {
+	const type = req.headers["content-type"] ?? "";
+	if (type.includes("application/json")) {
+		try {
+			const parsed = JSON.parse(body) as Record<string, unknown>;
+			const result: Record<string, string> = {};
+			for (const [key, value] of Object.entries(parsed)) {
+				if (typeof value === "string") result[key] = value;
+			}
+			return result;
+		} catch {
+			return {};
+		}
+	}
+	return Object.fromEntries(new URLSearchParams(body));
+}
+
+function wantsJson(req: http.IncomingMessage): boolean {
+	const accept = req.headers.accept ?? "";
+	return accept.includes("application/json") && !accept.includes("text/html");
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+	res.statusCode = status;
+	res.setHeader("Content-Type", "application/json");
+	res.setHeader("Cache-Control", "no-store");
+	res.end(JSON.stringify(data));
+}
+
+function redirect(res: http.ServerResponse, location: string): void {
+	res.statusCode = 303;
+	res.setHeader("Location", location);
+	res.end();
+}
+
+export class AuthManager {
+	private sessions: Map<string, SessionRecord> = new Map();
+	private secret: Buffer;
+
+	constructor(private options: AuthOptions) {
+		this.secret = options.sessionSecret ? Buffer.from(options.sessionSecret) : randomBytes(32);
+	}
+
+	/** Whether requests must carry a valid session */
+	get enabled(): boolean {
+		return this.options.mode !== "none";
+	}
+
+	get mode(): AuthMode {
+		return this.options.mode;
+	}
+
+	/** Whether the configured credentials make login possible at all */
+	isConfigured(): boolean {
+		if (this.options.mode === "password") return Boolean(this.options.passwordHash);
+		if (this.options.mode === "token") return Boolean(this.options.token);
+		return true;
+	}
+
+	/**
+	 * Check submitted credentials. Returns the authenticated user name,
+	 * or null if the credentials are wrong or none are configured.
+	 */
+	verifyCredentials(fields: Record<string, string>): string | null {
+		if (this.options.mode === "password") {
+			const hash = this.options.passwordHash;
+			if (!hash || !fields.password) return null;
+			const username = fields.username ?? this.options.username;
+			const userOk = safeEqual(username, this.options.username);
+			const passwordOk = verifyPassword(fields.password, hash);
+			return userOk && passwordOk ? this.options.username : null;
+		}
+		if (this.options.mode === "token") {
+			const token = this.options.token;
+			if (!token || !fields.token) return null;
+			return safeEqual(fields.token, token) ? "token" : null;
+		}
+		return null;
+	}
+
+	/** Start a session for a user and return the identity plus its Set-Cookie value */
+	createSession(user: string, secure = false): { identity: AuthIdentity; cookie: string } {
+		this.pruneExpired();
+		const sessionId = randomBytes(32).toString("base64url");
+		this.sessions.set(sessionId, { user, lastSeen: Date.now() });
+		return {
+			identity: { user, sessionId, roles: ["admin"] },
+			cookie: this.serializeCookie(`${sessionId}.${this.sign(sessionId)}`, secure),
+		};
+	}
+
+	/**
+	 * Resolve the session behind a request. Refreshes the idle timer on
+	 * success; returns null for missing, forged or expired sessions.
+	 */
+	authenticate(req: http.IncomingMessage): AuthIdentity | null {
+		const sessionId = this.readSessionId(req);
+		if (!sessionId) return null;
+		const record = this.sessions.get(sessionId);
+		if (!record) return null;
+		const now = Date.now();
+		if (now - record.lastSeen > this.options.idleTimeoutMs) {
+			this.sessions.delete(sessionId);
+			return null;
+		}
+		record.lastSeen = now;
+		return { user: record.user, sessionId, roles: ["admin"] };
+	}
+
+	/** End the session behind a request and return a cookie that clears it */
+	destroySession(req: http.IncomingMessage, secure = false): string {
+		const sessionId = this.readSessionId(req);
+		if (sessionId) this.sessions.delete(sessionId);
+		return this.serializeCookie("", secure, 0);
+	}
+
+	/** Number of live sessions */
+	get size(): number {
+		return this.sessions.size;
+	}
+
+	/**
+	 * Handle the login, logout and session-info routes.
+	 * Returns true if the request was handled.
+	 */
+	handleRoute(req: http.IncomingMessage, res: http.ServerResponse, urlPath: string): boolean {
+		const secure = Boolean((req.socket as { encrypted?: boolean } | undefined)?.encrypted);
+
+		if (urlPath === SESSION_PATH) {
+			if (!this.enabled) {
+				sendJson(res, 200, { authenticated: true, mode: "none" });
+				return true;
+			}
+			const identity = this.authenticate(req);
+			sendJson(res, identity ? 200 : 401, {
+				authenticated: identity !== null,
+				mode: this.options.mode,
+				...(identity ?? {}),
+			});
+			return true;
+		}
+
+		if (!this.enabled) return false;
+
+		if (urlPath === LOGIN_PATH) {
+			if (req.method === "POST") {
+				void this.handleLogin(req, res, secure);
+				return true;
+			}
+			res.statusCode = 200;
+			res.setHeader("Content-Type", "text/html");
+			res.setHeader("Cache-Control", "no-store");
+			res.end(renderLoginPage({ mode: this.options.mode, username: this.options.username, basePath: this.basePath }));
+			return true;
+		}
+
+		if (urlPath === LOGOUT_PATH) {
+			if (req.method !== "POST") {
+				res.statusCode = 405;
+				res.setHeader("Allow", "POST");
+				res.end("Method Not Allowed");
+				return true;
+			}
+			res.setHeader("Set-Cookie", this.destroySession(req, secure));
+			if (wantsJson(req)) {
+				sendJson(res, 200, { ok: true });
+			} else {
+				redirect(res, `${this.basePath}${LOGIN_PATH}`);
+			}
+			return true;
+		}
+
+		return false;
+	}
+
+	/** Reject a request that has no valid session */
+	reject(req: http.IncomingMessage, res: http.ServerResponse): void {
+		const accept = req.headers.accept ?? "";
+		if (req.method === "GET" && accept.includes("text/html")) {
+			res.statusCode = 302;
+			res.setHeader("Location", `${this.basePath}${LOGIN_PATH}`);
+			res.end();
+			return;
+		}
+		sendJson(res, 401, { error: "Authentication required" });
+	}
+
+	private async handleLogin(req: http.IncomingMessage, res: http.ServerResponse, secure: boolean): Promise<void> {
+		let fields: Record<string, string>;
+		try {
+			fields = parseLoginBody(req, await readBody(req, MAX_LOGIN_BODY_BYTES));
+		} catch {
+			sendJson(res, 413, { error: "Request body too large" });
+			return;
+		}
+
+		const user = this.verifyCredentials(fields);
+		if (!user) {
+			if (wantsJson(req)) {
+				sendJson(res, 401, { error: "Invalid credentials" });
+				return;
+			}
+			res.statusCode = 401;
+			res.setHeader("Content-Type", "text/html");
+			res.setHeader("Cache-Control", "no-store");
+			res.end(
+				renderLoginPage({
+					mode: this.options.mode,
+					username: fields.username ?? this.options.username,
+					error: "Invalid credentials",
+					basePath: this.basePath,
+				}),
+			);
+			return;
+		}
+
+		const { identity, cookie } = this.createSession(user, secure);
+		res.setHeader("Set-Cookie", cookie);
+		if (wantsJson(req)) {
+			sendJson(res, 200, { authenticated: true, mode: this.options.mode, ...identity });
+		} else {
+			redirect(res, `${this.basePath}/`);
+		}
+	}
+
+	private get basePath(): string {
+		return this.options.basePath ?? "";
+	}
+
+	private readSessionId(req: http.IncomingMessage): string | null {
+		const raw = parseCookies(req.headers?.cookie)[SESSION_COOKIE];
+		if (!raw) return null;
+		const dot = raw.lastIndexOf(".");
+		if (dot <= 0) return null;
+		const sessionId = raw.slice(0, dot);
+		const signature = raw.slice(dot + 1);
+		return safeEqual(signature, this.sign(sessionId)) ? sessionId : null;
+	}
+
+	private sign(value: string): string {
+		return createHmac("sha256", this.secret).update(value).digest("base64url");
+	}
+
+	private serializeCookie(value: string, secure: boolean, maxAge?: number): string {
+		const parts = [`${SESSION_COOKIE}=${value}`, `Path=${this.basePath || "/"}`, "HttpOnly", "SameSite=Strict"];
+		if (maxAge !== undefined) parts.push(`Max-Age=${maxAge}`);
+		if (secure) parts.push("Secure");
+		return parts.join("; ");
+	}
+
+	private pruneExpired(): void {
+		const cutoff = Date.now() - this.options.idleTimeoutMs;
+		for (const [id, record] of this.sessions) {
+			if (record.lastSeen < cutoff) this.sessions.delete(id);
+		}
+	}
+}
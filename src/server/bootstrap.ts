@@ -0,0 +1,56 @@
+/**
+ * Client Bootstrap
+ *
+ * The document the SPA loads before it renders. It tells one build where
+ * the API, WebSocket and event stream live, which base path it is mounted under, which
+ * features are enabled and how users sign in, so nothing deployment
+ * specific has to be compiled into the bundle.
+ */
+
+import type http from "node:http";
+import type { AuthMode } from "./auth.js";
+import type { ResolvedConfig } from "./config.js";
+import { EVENTS_PATH } from "./events.js";
+import { API_PREFIX, WS_PATH } from "./proxy.js";
+
+export const BOOTSTRAP_PATH = "/webui-config.json";
+
+export interface FeatureFlags {
+	/** Register conversation tools with the browser's WebMCP API */
+	webmcp: boolean;
+	/** Load UI components registered by other plugins */
+	pluginComponents: boolean;
+}
+
+export interface WebUiBootstrap {
+	version: string;
+	basePath: string;
+	/** Path of the daemon API proxy, without a trailing slash */
+	apiUrl: string;
+	/** Path of the daemon WebSocket proxy */
+	wsUrl: string;
+	/** Path of the Server-Sent Events stream, for when WebSockets can't get through */
+	eventsUrl: string;
+	authMode: AuthMode;
+	features: FeatureFlags;
+}
+
+export function buildBootstrap(config: ResolvedConfig, version: string): WebUiBootstrap {
+	return {
+		version,
+		basePath: config.basePath,
+		apiUrl: `${config.basePath}${API_PREFIX}`,
+		wsUrl: `${config.basePath}${WS_PATH}`,
+		eventsUrl: `${config.basePath}${EVENTS_PATH}`,
+		authMode: config.auth.mode,
+		features: { ...config.features },
+	};
+}
+
+export function sendBootstrap(res: http.ServerResponse, bootstrap: WebUiBootstrap): void {
+	res.statusCode = 200;
+	res.setHeader("Content-Type", "application/json");
+	// Reflects the live config, so never let it go stale in a cache
+	res.setHeader("Cache-Control", "no-store");
+	res.end(JSON.stringify(bootstrap));
+}
@@ -0,0 +1,231 @@
+/**
+ * Web UI plugin configuration
+ *
+ * Raw config as stored by the daemon and the resolved form the server uses.
+ */
+
+import type { AccessLogOptions } from "./access-log.js";
+import type { AuthMode, AuthOptions } from "./auth.js";
+import type { FeatureFlags } from "./bootstrap.js";
+import type { MetricsOptions } from "./metrics.js";
+import type { RateLimitOptions } from "./rate-limit.js";
+import type { CspOptions } from "./security-headers.js";
+import type { TlsMode, TlsOptions } from "./tls.js";
+
+export interface WebUiConfig {
+	port?: number;
+	host?: string;
+	/** Addresses to bind instead of host/port: "host:port", "[::1]:port" or "unix:/path" */
+	listen?: string[] | string;
+	/** Octal file mode for Unix sockets, e.g. "660" */
+	socketMode?: string;
+	basePath?: string;
+	daemonHost?: string;
+	daemonPort?: number;
+	authMode?: AuthMode;
+	username?: string;
+	passwordHash?: string;
+	authToken?: string;
+	sessionSecret?: string;
+	sessionIdleMinutes?: number;
+	tls?: {
+		mode?: TlsMode;
+		certPath?: string;
+		keyPath?: string;
+		redirectPort?: number;
+	};
+	csp?: {
+		reportOnly?: boolean;
+		allowedOrigins?: string[];
+	};
+	features?: Partial<FeatureFlags>;
+	accessLog?: {
+		enabled?: boolean;
+		sampleRate?: number;
+	};
+	rateLimit?: {
+		apiPerMinute?: number;
+		apiBurst?: number;
+		loginPerMinute?: number;
+		loginBurst?: number;
+	};
+	/** Take client IPs from X-Forwarded-For, for a dashboard behind a reverse proxy */
+	trustProxy?: boolean;
+	metrics?: {
+		enabled?: boolean;
+		token?: string;
+	};
+}
+
+export type ListenAddress =
+	| { type: "tcp"; host: string; port: number }
+	| {
+			type: "unix";
+			path: string;
+			/** File mode applied to the socket once bound */
+			mode?: number;
+	  };
+
+export interface ResolvedConfig {
+	/** Every address to bind; the first is the one registered as the dashboard URL */
+	listen: ListenAddress[];
+	/** URL prefix the dashboard is mounted under: "" for the root, else "/wopr" style */
+	basePath: string;
+	daemon: {
+		host: string;
+		port: number;
+	};
+	auth: AuthOptions;
+	tls: TlsOptions;
+	csp: CspOptions;
+	features: FeatureFlags;
+	accessLog: AccessLogOptions;
+	rateLimit: {
+		api: RateLimitOptions;
+		login: RateLimitOptions;
+	};
+	trustProxy: boolean;
+	metrics: MetricsOptions;
+}
+
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_HOST = "127.0.0.1";
+export const DEFAULT_DAEMON_HOST = "127.0.0.1";
+export const DEFAULT_DAEMON_PORT = 7437;
+export const DEFAULT_USERNAME = "admin";
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+export const DEFAULT_API_RATE_LIMIT: RateLimitOptions = { burst: 120, perMinute: 600 };
+export const DEFAULT_LOGIN_RATE_LIMIT: RateLimitOptions = { burst: 5, perMinute: 5 };
+
+const AUTH_MODES: AuthMode[] = ["none", "password", "token"];
+const TLS_MODES: TlsMode[] = ["off", "files", "self-signed"];
+
+/** Accept a list as an array or a comma/space separated string (as set from the CLI) */
+function toList(value: unknown): string[] {
+	const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,]+/) : [];
+	return items
+		.filter((item): item is string => typeof item === "string" && item.trim() !== "")
+		.map((item) => item.trim());
+}
+
+/** Normalize a base path to "" or a leading-slash, no-trailing-slash prefix */
+export function normalizeBasePath(value: string | undefined): string {
+	const segments = (value ?? "").split("/").filter((segment) => segment !== "" && segment !== ".");
+	if (segments.some((segment) => segment === ".." || !/^[\w.~-]+$/.test(segment))) {
+		throw new Error(`Invalid basePath "${value}": use URL path segments like "/wopr"`);
+	}
+	return segments.length ? `/${segments.join("/")}` : "";
+}
+
+/** A non-negative number, or the fallback; 0 is kept since it turns a limit off */
+function toCount(value: unknown, fallback: number): number {
+	const count = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+	return typeof count === "number" && Number.isFinite(count) && count >= 0 ? count : fallback;
+}
+
+/** Parse an octal file mode such as "660" or "0o660" */
+export function parseSocketMode(value: string | undefined): number | undefined {
+	if (value === undefined || String(value).trim() === "") return undefined;
+	const digits = String(value).trim().replace(/^0o/i, "");
+	if (!/^[0-7]{1,4}$/.test(digits)) {
+		throw new Error(`Invalid socketMode "${value}": use an octal file mode like "660"`);
+	}
+	return Number.parseInt(digits, 8);
+}
+
+/**
+ * Parse a listen address: "unix:/path" (or just an absolute path),
+ * "host:port", "[ipv6]:port", or a bare port on defaultHost.
+ */
+export function parseListenAddress(value: string, defaultHost = DEFAULT_HOST, mode?: number): ListenAddress {
+	if (value.startsWith("unix:") || value.startsWith("/")) {
+		const path = value.startsWith("unix:") ? value.slice("unix:".length) : value;
+		if (!path.startsWith("/")) throw new Error(`Invalid listen address "${value}": socket paths must be absolute`);
+		return { type: "unix", path, mode };
+	}
+
+	const match = /^(?:\[([^\]]+)\]|([^:[\]]*)):(\d+)$/.exec(value) ?? /^()()(\d+)$/.exec(value);
+	const port = match ? Number(match[3]) : Number.NaN;
+	if (!match || port > 65535) {
+		throw new Error(`Invalid listen address "${value}": use "host:port", "[::1]:port" or "unix:/path"`);
+	}
+	return { type: "tcp", host: match[1] || match[2] || defaultHost, port };
+}
+
+/** Fill in defaults for any missing config values */
+export function resolveConfig(config: WebUiConfig | null | undefined): ResolvedConfig {
+	const host = config?.host || DEFAULT_HOST;
+	const mode = parseSocketMode(config?.socketMode);
+	const listen = toList(config?.listen).map((value) => parseListenAddress(value, host, mode));
+	return {
+		listen: listen.length ? listen : [{ type: "tcp", host, port: config?.port || DEFAULT_PORT }],
+		basePath: normalizeBasePath(config?.basePath),
+		daemon: {
+			host: config?.daemonHost || DEFAULT_DAEMON_HOST,
+			port: config?.daemonPort || DEFAULT_DAEMON_PORT,
+		},
+		auth: {
+			mode: config?.authMode && AUTH_MODES.includes(config.authMode) ? config.authMode : "none",
+			basePath: normalizeBasePath(config?.basePath),
+			username: config?.username || DEFAULT_USERNAME,
+			passwordHash: config?.passwordHash || undefined,
+			token: config?.authToken || undefined,
+			sessionSecret: config?.sessionSecret || undefined,
+			idleTimeoutMs: (config?.sessionIdleMinutes || DEFAULT_SESSION_IDLE_MINUTES) * 60_000,
+		},
+		tls: {
+			mode: config?.tls?.mode && TLS_MODES.includes(config.tls.mode) ? config.tls.mode : "off",
+			certPath: config?.tls?.certPath || undefined,
+			keyPath: config?.tls?.keyPath || undefined,
+			redirectPort: config?.tls?.redirectPort || undefined,
+		},
+		csp: {
+			reportOnly: config?.csp?.reportOnly === true,
+			allowedOrigins: toList(config?.csp?.allowedOrigins),
+		},
+		features: {
+			webmcp: config?.features?.webmcp !== false,
+			pluginComponents: config?.features?.pluginComponents !== false,
+		},
+		accessLog: {
+			enabled: config?.accessLog?.enabled !== false,
+			sampleRate: Math.min(1, toCount(config?.accessLog?.sampleRate, 1)),
+		},
+		rateLimit: {
+			api: {
+				burst: toCount(config?.rateLimit?.apiBurst, DEFAULT_API_RATE_LIMIT.burst),
+				perMinute: toCount(config?.rateLimit?.apiPerMinute, DEFAULT_API_RATE_LIMIT.perMinute),
+			},
+			login: {
+				burst: toCount(config?.rateLimit?.loginBurst, DEFAULT_LOGIN_RATE_LIMIT.burst),
+				perMinute: toCount(config?.rateLimit?.loginPerMinute, DEFAULT_LOGIN_RATE_LIMIT.perMinute),
+			},
+		},
+		trustProxy: config?.trustProxy === true,
+		metrics: {
+			enabled: config?.metrics?.enabled !== false,
+			token: config?.metrics?.token || undefined,
+		},
+	};
+}
+
+/** Host and port, or socket path, for log messages */
+export function formatListenAddress(address: ListenAddress): string {
+	if (address.type === "unix") return `unix:${address.path}`;
+	return address.host.includes(":") ? `[${address.host}]:${address.port}` : `${address.host}:${address.port}`;
+}
+
+/**
+ * The URL the dashboard is reachable at on an address, the first listen
+ * address by default. Unix sockets use the http+unix scheme.
+ */
+export function serverUrl(config: ResolvedConfig, address: ListenAddress = config.listen[0]): string {
+	if (address.type === "unix") return `http+unix://${encodeURIComponent(address.path)}${config.basePath}`;
+	const scheme = config.tls.mode === "off" ? "http" : "https";
+	return `${scheme}://${formatListenAddress(address)}${config.basePath}`;
+}
+
+/** Host names of the TCP listen addresses */
+export function tcpHosts(config: ResolvedConfig): string[] {
+	return config.listen.flatMap((address) => (address.type === "tcp" ? [address.host] : []));
+}
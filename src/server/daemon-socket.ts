@@ -0,0 +1,256 @@
+/**
+ * Daemon WebSocket Client
+ *
+ * The SSE bridge (events.ts) reads the daemon's event stream itself
+ * rather than piping a browser's socket to it, and Node 20 has no
+ * WebSocket client. This is the small part of RFC 6455 the bridge needs:
+ * the opening handshake, masked text and ping frames out, and text, ping,
+ * pong and close frames in. Extensions and binary messages are not supported; the daemon
+ * sends neither.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { EventEmitter } from "node:events";
+import http from "node:http";
+import type { Duplex } from "node:stream";
+import type { ProxyTarget } from "./proxy.js";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Close code when no code was given in the close frame */
+export const WS_CLOSE_NO_STATUS = 1005;
+
+/** Close code when the connection dropped without a close frame */
+export const WS_CLOSE_ABNORMAL = 1006;
+
+/** Close code for a message larger than MAX_MESSAGE_BYTES */
+export const WS_CLOSE_TOO_BIG = 1009;
+
+/** How long the daemon has to accept the connection and answer the upgrade */
+export const HANDSHAKE_TIMEOUT_MS = 10_000;
+
+/** Largest message accepted from the daemon, across all of its fragments */
+export const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** The Sec-WebSocket-Accept value a server must answer a handshake key with */
+export function acceptKey(key: string): string {
+	return createHash("sha1").update(`${key}${HANDSHAKE_GUID}`).digest("base64");
+}
+
+/** Encode a masked (client to server) frame */
+export function encodeClientFrame(opcode: number, payload: Buffer, mask: Buffer = randomBytes(4)): Buffer {
+	const length = payload.length;
+	const header = length < 126 ? 2 : length < 65536 ? 4 : 10;
+	const frame = Buffer.alloc(header + 4 + length);
+	frame[0] = 0x80 | opcode; // FIN + opcode
+	if (length < 126) {
+		frame[1] = 0x80 | length;
+	} else if (length < 65536) {
+		frame[1] = 0x80 | 126;
+		frame.writeUInt16BE(length, 2);
+	} else {
+		frame[1] = 0x80 | 127;
+		frame.writeBigUInt64BE(BigInt(length), 2);
+	}
+	mask.copy(frame, header);
+	for (let i = 0; i < length; i++) frame[header + 4 + i] = payload[i] ^ mask[i % 4];
+	return frame;
+}
+
+export interface DecodedFrame {
+	fin: boolean;
+	opcode: number;
+	payload: Buffer;
+	/** Bytes of the buffer the frame took up */
+	size: number;
+}
+
+/** Decode the frame at the start of a buffer, or null until all of it has arrived */
+export function decodeFrame(buffer: Buffer): DecodedFrame | null {
+	if (buffer.length < 2) return null;
+	const masked = (buffer[1] & 0x80) !== 0;
+	let length = buffer[1] & 0x7f;
+	let offset = 2;
+	if (length === 126) {
+		if (buffer.length < 4) return null;
+		length = buffer.readUInt16BE(2);
+		offset = 4;
+	} else if (length === 127) {
+		if (buffer.length < 10) return null;
+		length = Number(buffer.readBigUInt64BE(2));
+		offset = 10;
+	}
+	const maskOffset = offset;
+	if (masked) offset += 4;
+	if (buffer.length < offset + length) return null;
+
+	const payload = Buffer.from(buffer.subarray(offset, offset + length));
+	// Servers do not mask their frames, but one that does is still readable
+	if (masked) {
+		for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+	}
+	return { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0f, payload, size: offset + length };
+}
+
+/**
+ * An open WebSocket to the daemon. Emits "message" with the text of each
+ * message, "pong" for each answered ping, and "close" once, with the close
+ * code, however the connection ends.
+ */
+export class DaemonSocket extends EventEmitter<{ message: [text: string]; pong: []; close: [code: number] }> {
+	private buffer: Buffer = Buffer.alloc(0);
+	private fragments: Buffer[] = [];
+	private fragmentBytes = 0;
+	/** Opcode of the message being reassembled from fragments, or null */
+	private fragmentOpcode: number | null = null;
+	private closed = false;
+
+	constructor(private socket: Duplex) {
+		super();
+		socket.on("data", (chunk: Buffer) => this.receive(chunk));
+		socket.on("error", () => socket.destroy());
+		socket.on("close", () => this.finish(WS_CLOSE_ABNORMAL));
+	}
+
+	/** Send a text message; ignored once the socket is closing */
+	send(text: string): void {
+		if (this.closed || !this.socket.writable) return;
+		this.socket.write(encodeClientFrame(OPCODE_TEXT, Buffer.from(text)));
+	}
+
+	/** Send a ping frame; the daemon's WebSocket server must answer it with a pong */
+	ping(): void {
+		if (this.closed || !this.socket.writable) return;
+		this.socket.write(encodeClientFrame(OPCODE_PING, Buffer.alloc(0)));
+	}
+
+	/** Start the closing handshake, dropping the connection if the daemon does not finish it */
+	close(code = 1000): void {
+		if (this.closed) return;
+		const payload = Buffer.alloc(2);
+		payload.writeUInt16BE(code);
+		if (this.socket.writable) this.socket.end(encodeClientFrame(OPCODE_CLOSE, payload));
+		this.finish(code);
+		setTimeout(() => this.socket.destroy(), 1000).unref();
+	}
+
+	private finish(code: number): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.emit("close", code);
+	}
+
+	private receive(chunk: Buffer): void {
+		this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+		for (let frame = decodeFrame(this.buffer); frame; frame = decodeFrame(this.buffer)) {
+			this.buffer = this.buffer.subarray(frame.size);
+			this.handleFrame(frame);
+			if (this.closed) return;
+		}
+		if (this.buffer.length > MAX_MESSAGE_BYTES) this.close(WS_CLOSE_TOO_BIG);
+	}
+
+	private handleFrame({ fin, opcode, payload }: DecodedFrame): void {
+		switch (opcode) {
+			case OPCODE_CLOSE: {
+				const code = payload.length >= 2 ? payload.readUInt16BE(0) : WS_CLOSE_NO_STATUS;
+				// Echo the close frame to finish the handshake
+				if (this.socket.writable) this.socket.end(encodeClientFrame(OPCODE_CLOSE, payload.subarray(0, 2)));
+				this.finish(code);
+				return;
+			}
+			case OPCODE_PING:
+				if (this.socket.writable) this.socket.write(encodeClientFrame(OPCODE_PONG, payload));
+				return;
+			case OPCODE_PONG:
+				this.emit("pong");
+				return;
+			case OPCODE_CONTINUATION:
+				if (this.fragmentOpcode === null) return;
+				this.fragments.push(payload);
+				this.fragmentBytes += payload.length;
+				if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+					this.close(WS_CLOSE_TOO_BIG);
+					return;
+				}
+				if (fin) {
+					const message = Buffer.concat(this.fragments);
+					const text = this.fragmentOpcode === OPCODE_TEXT;
+					this.fragments = [];
+					this.fragmentBytes = 0;
+					this.fragmentOpcode = null;
+					if (text) this.emit("message", message.toString("utf8"));
+				}
+				return;
+			default:
+				// Other control frames need no answer
+				if (opcode >= 0x8) return;
+				if (!fin) {
+					this.fragments = [payload];
+					this.fragmentBytes = payload.length;
+					this.fragmentOpcode = opcode;
+				} else if (opcode === OPCODE_TEXT) {
+					this.emit("message", payload.toString("utf8"));
+				}
+		}
+	}
+}
+
+/**
+ * Open a WebSocket to the daemon at path, sending the given headers with
+ * the handshake. Rejects when the daemon can't be reached, does not
+ * accept the upgrade, or has not answered it within timeoutMs.
+ */
+export function connectDaemonSocket(
+	target: ProxyTarget,
+	path: string,
+	headers: http.OutgoingHttpHeaders = {},
+	timeoutMs = HANDSHAKE_TIMEOUT_MS,
+): Promise<DaemonSocket> {
+	return new Promise((resolve, reject) => {
+		const key = randomBytes(16).toString("base64");
+		const req = http.request({
+			host: target.host,
+			port: target.port,
+			path,
+			headers: {
+				...headers,
+				connection: "Upgrade",
+				upgrade: "websocket",
+				"sec-websocket-version": "13",
+				"sec-websocket-key": key,
+			},
+		});
+		// A daemon that accepts the connection but never answers would otherwise hold it forever
+		const timer = setTimeout(() => {
+			req.destroy(new Error(`Daemon did not answer the WebSocket upgrade within ${timeoutMs}ms`));
+		}, timeoutMs);
+		req.on("error", (err) => {
+			clearTimeout(timer);
+			reject(err);
+		});
+		req.on("response", (res) => {
+			clearTimeout(timer);
+			res.resume();
+			reject(new Error(`Daemon refused the WebSocket upgrade with ${res.statusCode}`));
+		});
+		req.on("upgrade", (res, socket, head) => {
+			clearTimeout(timer);
+			if (res.headers["sec-websocket-accept"] !== acceptKey(key)) {
+				socket.destroy();
+				reject(new Error("Daemon answered the WebSocket upgrade with the wrong accept key"));
+				return;
+			}
+			const daemonSocket = new DaemonSocket(socket);
+			if (head.length > 0) socket.unshift(head);
+			resolve(daemonSocket);
+		});
+		req.end();
+	});
+}
@@ -0,0 +1,178 @@
+/**
+ * Server-Sent Events Bridge
+ *
+ * Some corporate proxies drop WebSocket upgrades but pass ordinary
+ * streamed responses, so /events carries the daemon's event stream as
+ * Server-Sent Events instead. Each browser connection gets its own daemon
+ * WebSocket, subscribed to the sessions in the query string; every daemon
+ * message is relayed unchanged as an SSE "data" field, so the dashboard
+ * reads the same StreamEvent payloads over either transport.
+ *
+ * Browsers can't send on an EventSource, so subscriptions and resume
+ * cursors are given when the stream is opened. The bridge sends WebSocket
+ * ping frames to the daemon, which its WebSocket server answers on its
+ * own, and passes each pong on as a "heartbeat" event so the dashboard
+ * can tell a quiet stream from a dead one. When the daemon socket closes,
+ * a "close" event carrying its close code ends the stream.
+ */
+
+import type http from "node:http";
+import { connectDaemonSocket, type DaemonSocket } from "./daemon-socket.js";
+import { DAEMON_UNREACHABLE, forwardHeaders, type ProxyTarget, WS_PATH } from "./proxy.js";
+
+export const EVENTS_PATH = "/events";
+
+/** SSE event that ends a stream; its data is the daemon socket's close code */
+export const CLOSE_EVENT = "close";
+
+/** SSE event sent for every pong from the daemon; it has no data */
+export const HEARTBEAT_EVENT = "heartbeat";
+
+/** How often the bridge pings the daemon, well inside the dashboard's heartbeat timeout */
+export const EVENTS_PING_INTERVAL_MS = 20_000;
+
+/** An open /events stream, closable on shutdown */
+export interface EventStream {
+	/** Send the close event with `code` and end the stream */
+	close(code: number): void;
+}
+
+export interface EventsQuery {
+	sessions: string[];
+	/** The last event seen per session, to replay from */
+	resume?: Record<string, unknown>;
+}
+
+/** Whether a request path (without query string) is the SSE endpoint */
+export function isEventsPath(urlPath: string): boolean {
+	return urlPath === EVENTS_PATH;
+}
+
+/**
+ * Read the sessions (one `session` parameter each) and optional `resume`
+ * cursors (JSON) from an /events URL. Null when resume is not a JSON object.
+ */
+export function parseEventsQuery(url: string): EventsQuery | null {
+	const params = new URL(url, "http://localhost").searchParams;
+	const sessions = [...new Set(params.getAll("session").filter(Boolean))];
+	const rawResume = params.get("resume");
+	if (rawResume === null) return { sessions };
+	let resume: unknown;
+	try {
+		resume = JSON.parse(rawResume);
+	} catch {
+		return null;
+	}
+	if (typeof resume !== "object" || resume === null || Array.isArray(resume)) return null;
+	return { sessions, resume: resume as Record<string, unknown> };
+}
+
+/** Format a message as an SSE event; multi-line data is split over several data fields */
+export function formatSseEvent(data: string, event?: string): string {
+	const lines = data.split(/\r\n|\r|\n/).map((line) => `data: ${line}`);
+	return `${event ? `event: ${event}\n` : ""}${lines.join("\n")}\n\n`;
+}
+
+function sendError(res: http.ServerResponse, status: number, error: string, code?: string): void {
+	res.statusCode = status;
+	res.setHeader("Content-Type", "application/json");
+	res.end(JSON.stringify(code ? { error, code } : { error }));
+}
+
+/**
+ * Answer an /events request by bridging a daemon WebSocket to it. The
+ * daemon being unreachable is a 502 with the same body as the API proxy
+ * sends. Open streams are kept in `streams` until they end.
+ */
+export function handleEvents(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	target: ProxyTarget,
+	onError?: (err: Error) => void,
+	streams?: Set<EventStream>,
+	pingIntervalMs = EVENTS_PING_INTERVAL_MS,
+): void {
+	if (req.method !== "GET") {
+		res.setHeader("Allow", "GET");
+		sendError(res, 405, "Method not allowed");
+		return;
+	}
+	const query = parseEventsQuery(req.url ?? EVENTS_PATH);
+	if (!query) {
+		sendError(res, 400, "resume must be a JSON object");
+		return;
+	}
+
+	let browserGone = false;
+	res.once("close", () => {
+		browserGone = true;
+	});
+
+	const headers = forwardHeaders(req, target);
+	// Not a WebSocket request of the browser's own, so these have no meaning upstream
+	delete headers.accept;
+	delete headers["last-event-id"];
+
+	connectDaemonSocket(target, WS_PATH, headers).then(
+		(daemon) => {
+			if (browserGone) {
+				daemon.close(1001);
+				return;
+			}
+			bridge(res, daemon, query, pingIntervalMs, streams);
+		},
+		(err: Error) => {
+			onError?.(err);
+			if (!browserGone) sendError(res, 502, "WOPR daemon is unreachable", DAEMON_UNREACHABLE);
+		},
+	);
+}
+
+function bridge(
+	res: http.ServerResponse,
+	daemon: DaemonSocket,
+	query: EventsQuery,
+	pingIntervalMs: number,
+	streams?: Set<EventStream>,
+): void {
+	res.writeHead(200, {
+		"Content-Type": "text/event-stream; charset=utf-8",
+		"Cache-Control": "no-store",
+		// Keeps nginx and similar proxies from buffering the stream
+		"X-Accel-Buffering": "no",
+	});
+	res.flushHeaders();
+
+	const ping = setInterval(() => daemon.ping(), pingIntervalMs);
+	ping.unref();
+
+	const stream: EventStream = {
+		close(code) {
+			clearInterval(ping);
+			streams?.delete(stream);
+			daemon.removeAllListeners();
+			daemon.close(1001);
+			if (!res.writableEnded) res.end(formatSseEvent(String(code), CLOSE_EVENT));
+		},
+	};
+	streams?.add(stream);
+
+	daemon.on("message", (text) => {
+		if (!res.writableEnded) res.write(formatSseEvent(text));
+	});
+	daemon.on("pong", () => {
+		if (!res.writableEnded) res.write(formatSseEvent("", HEARTBEAT_EVENT));
+	});
+	daemon.on("close", (code) => stream.close(code));
+	res.once("close", () => stream.close(1001));
+
+	if (query.sessions.length) {
+		daemon.send(
+			JSON.stringify(
+				query.resume
+					? { type: "subscribe", sessions: query.sessions, resume: query.resume }
+					: { type: "subscribe", sessions: query.sessions },
+			),
+		);
+	}
+}
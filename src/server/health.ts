@@ -0,0 +1,138 @@
+/**
+ * Health Endpoint
+ *
+ * /healthz reports whether the dashboard can actually be used: the build
+ * in dist/ is present and complete, the daemon behind /api and /ws accepts
+ * connections, plus uptime and how many WebSockets are being proxied.
+ * The plugin manifest points the host's periodic health checks here.
+ *
+ * The endpoint answers without a session. The daemon address and build
+ * details go to whoever may read /metrics; everyone else only gets the
+ * status and version.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import type http from "node:http";
+import net from "node:net";
+import { join } from "node:path";
+import type { ProxyTarget } from "./proxy.js";
+
+export const HEALTH_PATH = "/healthz";
+
+export const DAEMON_CHECK_TIMEOUT_MS = 2000;
+
+export type HealthStatus = "ok" | "degraded" | "error";
+
+export interface BuildHealth {
+	/** dist/index.html exists */
+	present: boolean;
+	/** every asset index.html references exists */
+	complete: boolean;
+	/** Short hash of index.html, which names the content-hashed bundles */
+	hash: string | null;
+	missing: string[];
+}
+
+export interface DaemonHealth {
+	reachable: boolean;
+	host: string;
+	port: number;
+	latencyMs?: number;
+	error?: string;
+}
+
+/** What an anonymous health check sees */
+export interface HealthSummary {
+	status: HealthStatus;
+	version: string;
+}
+
+export interface HealthReport extends HealthSummary {
+	uptimeSeconds: number;
+	build: BuildHealth;
+	websocket: { activeConnections: number };
+	daemon: DaemonHealth;
+}
+
+// Vite emits <script src="./assets/..."> and <link href="./assets/...">
+const ASSET_REFERENCE = /(?:src|href)="(?:\.?\/)?(assets\/[^"?#]+)"/g;
+
+/** Check the built dashboard in distDir */
+export function checkBuild(distDir: string): BuildHealth {
+	const indexPath = join(distDir, "index.html");
+	if (!existsSync(indexPath)) {
+		return { present: false, complete: false, hash: null, missing: ["index.html"] };
+	}
+	const html = readFileSync(indexPath, "utf8");
+	const assets = [...html.matchAll(ASSET_REFERENCE)].map((match) => match[1]);
+	const missing = assets.filter((asset) => !existsSync(join(distDir, asset)));
+	return {
+		present: true,
+		complete: missing.length === 0,
+		hash: createHash("sha256").update(html).digest("hex").slice(0, 12),
+		missing,
+	};
+}
+
+/** Try a TCP connection to the daemon */
+export function checkDaemon(target: ProxyTarget, timeoutMs = DAEMON_CHECK_TIMEOUT_MS): Promise<DaemonHealth> {
+	const started = Date.now();
+	return new Promise((resolve) => {
+		const socket = net.connect({ host: target.host, port: target.port });
+		const finish = (result: Omit<DaemonHealth, "host" | "port">) => {
+			socket.destroy();
+			resolve({ host: target.host, port: target.port, ...result });
+		};
+		socket.setTimeout(timeoutMs, () => finish({ reachable: false, error: `timed out after ${timeoutMs}ms` }));
+		socket.once("connect", () => finish({ reachable: true, latencyMs: Date.now() - started }));
+		socket.once("error", (err) => finish({ reachable: false, error: err.message }));
+	});
+}
+
+/** A missing build is fatal; an unreachable daemon only degrades the dashboard */
+export function overallStatus(build: BuildHealth, daemon: DaemonHealth): HealthStatus {
+	if (!build.complete) return "error";
+	return daemon.reachable ? "ok" : "degraded";
+}
+
+/**
+ * Answer a health check. Errors map to 503 so hosts can act on the status
+ * code alone, and so does a check that fails outright; the promise never
+ * rejects.
+ */
+export async function handleHealth(
+	res: http.ServerResponse,
+	options: {
+		distDir: string;
+		daemon: ProxyTarget;
+		version: string;
+		startedAt: number;
+		connections: { readonly size: number };
+		/** Include the full report; otherwise only status and version */
+		detailed: boolean;
+	},
+): Promise<void> {
+	res.setHeader("Content-Type", "application/json");
+	res.setHeader("Cache-Control", "no-store");
+	try {
+		const build = checkBuild(options.distDir);
+		const daemon = await checkDaemon(options.daemon);
+		const report: HealthReport = {
+			status: overallStatus(build, daemon),
+			version: options.version,
+			uptimeSeconds: Math.floor((Date.now() - options.startedAt) / 1000),
+			build,
+			websocket: { activeConnections: options.connections.size },
+			daemon,
+		};
+		const summary: HealthSummary = { status: report.status, version: report.version };
+		res.statusCode = report.status === "error" ? 503 : 200;
+		res.end(JSON.stringify(options.detailed ? report : summary));
+	} catch {
+		// e.g. index.html unreadable; the details stay out of the response
+		const summary: HealthSummary = { status: "error", version: options.version };
+		res.statusCode = 503;
+		res.end(JSON.stringify(summary));
+	}
+}
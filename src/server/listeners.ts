@@ -0,0 +1,79 @@
+/**
+ * Listeners
+ *
+ * The dashboard can be bound to several addresses at once, e.g. loopback
+ * plus a LAN interface, or a Unix socket that a local reverse proxy talks
+ * to without a TCP port being opened. Each address gets its own server;
+ * they all share the same request handlers.
+ */
+
+import { chmodSync, lstatSync, unlinkSync } from "node:fs";
+import net from "node:net";
+import { formatListenAddress, type ListenAddress } from "./config.js";
+
+/** Identifies an address across config reloads; a socket's file mode is not part of it */
+export function listenKey(address: ListenAddress): string {
+	return formatListenAddress(address);
+}
+
+/** Probe a socket file left behind by a server that exited without closing it */
+function isLiveSocket(path: string): Promise<boolean> {
+	return new Promise((resolve) => {
+		const probe = net.connect(path);
+		probe.once("connect", () => {
+			probe.destroy();
+			resolve(true);
+		});
+		probe.once("error", () => resolve(false));
+	});
+}
+
+/**
+ * Remove a stale socket file at path so it can be bound again. Live
+ * sockets and other kinds of file are left alone for listen() to reject.
+ */
+export async function removeStaleSocket(path: string): Promise<void> {
+	let stat: ReturnType<typeof lstatSync>;
+	try {
+		stat = lstatSync(path);
+	} catch {
+		return;
+	}
+	if (stat.isSocket() && !(await isLiveSocket(path))) unlinkSync(path);
+}
+
+/** Apply a Unix socket's configured file mode */
+export function applySocketMode(address: ListenAddress): void {
+	if (address.type === "unix" && address.mode !== undefined) chmodSync(address.path, address.mode);
+}
+
+/**
+ * Bind a server to an address, settling once it is listening or has
+ * failed to. Resolves with where it bound, which has the real port when
+ * port 0 was asked for.
+ */
+export async function bindServer(server: net.Server, address: ListenAddress): Promise<ListenAddress> {
+	if (address.type === "unix") await removeStaleSocket(address.path);
+
+	await new Promise<void>((resolve, reject) => {
+		const onError = (err: Error) => {
+			server.off("listening", onListening);
+			reject(err);
+		};
+		const onListening = () => {
+			server.off("error", onError);
+			resolve();
+		};
+		server.once("error", onError);
+		server.once("listening", onListening);
+		if (address.type === "unix") server.listen(address.path);
+		else server.listen(address.port, address.host);
+	});
+
+	if (address.type === "unix") {
+		applySocketMode(address);
+		return address;
+	}
+	const info = server.address();
+	return info && typeof info === "object" ? { ...address, port: info.port } : address;
+}
@@ -0,0 +1,64 @@
+/**
+ * Login Page
+ *
+ * Self-contained HTML for the dashboard login gate. It is served before
+ * the user is authenticated, so it cannot depend on the built assets.
+ */
+
+import type { AuthMode } from "./auth.js";
+
+export interface LoginPageOptions {
+	mode: AuthMode;
+	username?: string;
+	error?: string;
+	/** Prefix the form posts under; "" for the root */
+	basePath?: string;
+}
+
+/** Escape text for safe interpolation into HTML */
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+export function renderLoginPage(options: LoginPageOptions): string {
+	const fields =
+		options.mode === "token"
+			? `<label>Access token<input type="password" name="token" autocomplete="current-password" required autofocus></label>`
+			: `<label>Username<input type="text" name="username" value="${escapeHtml(options.username ?? "")}" autocomplete="username" required></label>
+      <label>Password<input type="password" name="password" autocomplete="current-password" required autofocus></label>`;
+
+	const error = options.error ? `<p class="error">${escapeHtml(options.error)}</p>` : "";
+
+	return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>WOPR - Sign in</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #0a0a0f; color: #e2e8f0; font-family: "JetBrains Mono", monospace; }
+      form { width: 320px; padding: 24px; background: #12121a; border: 1px solid #1e1e2e; border-radius: 8px; }
+      h1 { margin: 0 0 16px; color: #10b981; font-size: 20px; }
+      label { display: block; margin-bottom: 12px; font-size: 13px; color: #64748b; }
+      input { display: block; width: 100%; box-sizing: border-box; margin-top: 4px; padding: 8px 10px; background: #0a0a0f; color: #e2e8f0; border: 1px solid #1e1e2e; border-radius: 4px; }
+      input:focus { outline: none; border-color: #10b981; }
+      button { width: 100%; padding: 10px; background: #10b981; color: #0a0a0f; border: 0; border-radius: 4px; font-weight: bold; cursor: pointer; }
+      .error { margin: 0 0 12px; padding: 8px; background: rgba(239, 68, 68, 0.2); color: #ef4444; border-radius: 4px; font-size: 13px; }
+    </style>
+  </head>
+  <body>
+    <form method="POST" action="${escapeHtml(options.basePath ?? "")}/login">
+      <h1>WOPR</h1>
+      ${error}
+      ${fields}
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>
+`;
+}
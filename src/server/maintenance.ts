@@ -0,0 +1,64 @@
+/**
+ * Maintenance Page
+ *
+ * Served in place of the dashboard while dist/ has no build, so visitors
+ * learn why there is no UI instead of getting a blank page. It is
+ * self-contained like the login page, and tells the operator how to build.
+ */
+
+import type http from "node:http";
+import { escapeHtml } from "./login-page.js";
+
+export interface MaintenancePageOptions {
+	version: string;
+	/** Non-secret settings to show, label to value */
+	settings: Record<string, string>;
+}
+
+export function renderMaintenancePage(options: MaintenancePageOptions): string {
+	const rows = Object.entries(options.settings)
+		.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+		.join("\n          ");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>WOPR - Dashboard not built</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #0a0a0f; color: #e2e8f0; font-family: "JetBrains Mono", monospace; }
+      main { width: 480px; padding: 24px; background: #12121a; border: 1px solid #1e1e2e; border-radius: 8px; }
+      h1 { margin: 0 0 16px; color: #eab308; font-size: 20px; }
+      p { font-size: 13px; line-height: 1.5; }
+      table { width: 100%; margin: 16px 0; border-collapse: collapse; font-size: 13px; }
+      th { padding: 4px 12px 4px 0; color: #64748b; font-weight: normal; text-align: left; }
+      td { padding: 4px 0; }
+      pre, code { color: #10b981; }
+      pre { padding: 8px; background: #0a0a0f; border: 1px solid #1e1e2e; border-radius: 4px; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>WOPR Web UI is not built</h1>
+      <p>The plugin is running, but its dist/ folder has no build to serve.</p>
+      <table>
+          <tr><th>Version</th><td>${escapeHtml(options.version)}</td></tr>
+          ${rows}
+      </table>
+      <p>Build it on the daemon host, then reload this page:</p>
+      <pre>npm run build:ui</pre>
+    </main>
+  </body>
+</html>
+`;
+}
+
+/** Answer with the maintenance page. 503 tells health checks and proxies the dashboard is unavailable. */
+export function sendMaintenancePage(res: http.ServerResponse, html: string): void {
+	res.statusCode = 503;
+	res.setHeader("Content-Type", "text/html; charset=utf-8");
+	res.setHeader("Cache-Control", "no-store");
+	res.setHeader("Retry-After", "30");
+	res.end(html);
+}
@@ -0,0 +1,218 @@
+/**
+ * Prometheus Metrics
+ *
+ * /metrics exposes the plugin server's request counts, latencies, bytes
+ * served, proxied WebSocket sessions and daemon proxy errors in the
+ * Prometheus text format, so it can be scraped like every other WOPR
+ * component. Requests are labelled by route rather than path to keep the
+ * number of series bounded.
+ */
+
+import type http from "node:http";
+import { extname } from "node:path";
+import { performance } from "node:perf_hooks";
+import { type AuthManager, LOGIN_PATH, LOGOUT_PATH, SESSION_PATH, safeEqual } from "./auth.js";
+import { BOOTSTRAP_PATH } from "./bootstrap.js";
+import { EVENTS_PATH } from "./events.js";
+import { PLUGIN_ASSETS_PREFIX } from "./plugin-assets.js";
+import { isApiPath } from "./proxy.js";
+import { CSP_REPORT_PATH } from "./security-headers.js";
+
+export const METRICS_PATH = "/metrics";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Upper bounds of the request latency histogram, in seconds */
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export interface MetricsOptions {
+	enabled: boolean;
+	/** Bearer token a scraper can use instead of a dashboard session */
+	token?: string;
+}
+
+/** Which proxy a daemon error came from */
+export type ProxyKind = "http" | "websocket";
+
+export interface MetricsGauges {
+	version: string;
+	/** Proxied WebSockets open right now */
+	webSockets: number;
+	/** Seconds since the plugin's server started, the same clock as /healthz */
+	uptimeSeconds: number;
+}
+
+interface Histogram {
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+const ROUTES: Record<string, string> = {
+	[LOGIN_PATH]: "login",
+	[LOGOUT_PATH]: "logout",
+	[SESSION_PATH]: "session",
+	[BOOTSTRAP_PATH]: "bootstrap",
+	[CSP_REPORT_PATH]: "csp-report",
+	[METRICS_PATH]: "metrics",
+	[EVENTS_PATH]: "events",
+};
+
+const METHODS = new Set(["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"]);
+
+/** The route label for a path relative to the base path */
+export function routeOf(urlPath: string): string {
+	if (isApiPath(urlPath)) return "api";
+	if (Object.hasOwn(ROUTES, urlPath)) return ROUTES[urlPath];
+	if (urlPath.startsWith("/assets/")) return "assets";
+	if (urlPath.startsWith(`${PLUGIN_ASSETS_PREFIX}/`)) return "plugin-assets";
+	return !extname(urlPath) || urlPath === "/index.html" ? "page" : "static";
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+	return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function increment<K>(counts: Map<K, number>, key: K, by = 1): void {
+	counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+export class Metrics {
+	// Keyed by the rendered label set
+	private requests = new Map<string, number>();
+	private durations = new Map<string, Histogram>();
+	private bytes = new Map<string, number>();
+	private upgrades = new Map<string, number>();
+	private proxyErrors = new Map<ProxyKind, number>();
+
+	/**
+	 * Count a request once its response closes. Returns the fields the
+	 * handler fills in as it routes the request; the route starts out as
+	 * "other" for requests that never reach a known one.
+	 */
+	observeRequest(req: http.IncomingMessage, res: http.ServerResponse): { route: string } {
+		const started = performance.now();
+		// Keep-alive connections serve one response at a time, so the socket's growth is this response
+		const bytesBefore = res.socket?.bytesWritten ?? 0;
+		const context = { route: "other" };
+		res.once("close", () => {
+			const method = METHODS.has(req.method ?? "") ? (req.method as string) : "other";
+			this.recordRequest(context.route, method, res.statusCode, (performance.now() - started) / 1000);
+			this.recordBytes(context.route, (res.socket?.bytesWritten ?? bytesBefore) - bytesBefore);
+		});
+		return context;
+	}
+
+	recordRequest(route: string, method: string, status: number, seconds: number): void {
+		increment(this.requests, formatLabels({ route, method, status: String(status) }));
+
+		const key = formatLabels({ route });
+		const histogram = this.durations.get(key) ?? { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+		const bucket = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+		if (bucket !== -1) histogram.buckets[bucket]++;
+		histogram.sum += seconds;
+		histogram.count++;
+		this.durations.set(key, histogram);
+	}
+
+	recordBytes(route: string, bytes: number): void {
+		if (bytes > 0) increment(this.bytes, formatLabels({ route }), bytes);
+	}
+
+	/** Count a /ws upgrade by the status it was answered with, 101 when it was proxied */
+	recordUpgrade(status: number): void {
+		increment(this.upgrades, formatLabels({ status: String(status) }));
+	}
+
+	recordProxyError(kind: ProxyKind): void {
+		increment(this.proxyErrors, kind);
+	}
+
+	/** Render every metric in the Prometheus text exposition format */
+	render(gauges: MetricsGauges): string {
+		const lines: string[] = [];
+		const family = (name: string, type: string, help: string) => {
+			lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+		};
+
+		family("wopr_webui_info", "gauge", "Web UI plugin version");
+		lines.push(`wopr_webui_info${formatLabels({ version: gauges.version })} 1`);
+
+		family("wopr_webui_http_requests_total", "counter", "HTTP requests by route, method and status");
+		for (const [labels, count] of this.requests) lines.push(`wopr_webui_http_requests_total${labels} ${count}`);
+
+		family("wopr_webui_http_request_duration_seconds", "histogram", "HTTP request latency by route");
+		for (const [labels, histogram] of this.durations) {
+			const route = labels.slice(1, -1);
+			let cumulative = 0;
+			LATENCY_BUCKETS.forEach((bound, i) => {
+				cumulative += histogram.buckets[i];
+				lines.push(`wopr_webui_http_request_duration_seconds_bucket{${route},le="${bound}"} ${cumulative}`);
+			});
+			lines.push(
+				`wopr_webui_http_request_duration_seconds_bucket{${route},le="+Inf"} ${histogram.count}`,
+				`wopr_webui_http_request_duration_seconds_sum${labels} ${histogram.sum}`,
+				`wopr_webui_http_request_duration_seconds_count${labels} ${histogram.count}`,
+			);
+		}
+
+		family("wopr_webui_http_response_bytes_total", "counter", "Bytes sent in responses by route");
+		for (const [labels, count] of this.bytes) lines.push(`wopr_webui_http_response_bytes_total${labels} ${count}`);
+
+		family("wopr_webui_websocket_upgrades_total", "counter", "WebSocket upgrade requests by status");
+		for (const [labels, count] of this.upgrades) lines.push(`wopr_webui_websocket_upgrades_total${labels} ${count}`);
+
+		family("wopr_webui_websocket_sessions", "gauge", "WebSockets currently proxied to the daemon");
+		lines.push(`wopr_webui_websocket_sessions ${gauges.webSockets}`);
+
+		family("wopr_webui_proxy_errors_total", "counter", "Errors talking to the daemon by proxy");
+		for (const kind of ["http", "websocket"] as const) {
+			lines.push(`wopr_webui_proxy_errors_total${formatLabels({ kind })} ${this.proxyErrors.get(kind) ?? 0}`);
+		}
+
+		family("wopr_webui_process_uptime_seconds", "gauge", "Seconds since the Web UI plugin started");
+		lines.push(`wopr_webui_process_uptime_seconds ${gauges.uptimeSeconds}`);
+
+		return `${lines.join("\n")}\n`;
+	}
+}
+
+/**
+ * Whether a request may read the metrics: a scraper with the metrics
+ * token, or anyone the dashboard itself would let in. With auth off, a
+ * configured token is still required.
+ */
+export function authorizeMetrics(req: http.IncomingMessage, options: MetricsOptions, auth: AuthManager): boolean {
+	const header = req.headers.authorization ?? "";
+	if (options.token && header.startsWith("Bearer ") && safeEqual(header.slice("Bearer ".length), options.token)) {
+		return true;
+	}
+	if (auth.enabled) return auth.authenticate(req) !== null;
+	return !options.token;
+}
+
+/** Answer a scrape, or 401 when the request is not authorized */
+export function handleMetrics(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	options: MetricsOptions,
+	auth: AuthManager,
+	render: () => string,
+): void {
+	res.setHeader("Cache-Control", "no-store");
+	if (!authorizeMetrics(req, options, auth)) {
+		res.statusCode = 401;
+		res.setHeader("WWW-Authenticate", 'Bearer realm="wopr-webui"');
+		res.setHeader("Content-Type", "application/json");
+		res.end(JSON.stringify({ error: "Authentication required" }));
+		return;
+	}
+	res.statusCode = 200;
+	res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+	res.end(render());
+}
@@ -0,0 +1,171 @@
+/**
+ * Plugin Assets
+ *
+ * UI components registered by other plugins are loaded with import(), so
+ * a moduleUrl on some other origin has to be allowed by the dashboard's
+ * CSP. Components that point at a file in their plugin's directory are
+ * instead served by this server under /plugin-assets/<plugin>/<path>, and
+ * their moduleUrl is rewritten to match, keeping them same-origin.
+ *
+ * Only the directories holding a registered component module are served
+ * (so a plugin's config files and node_modules are not), and only file
+ * types a component bundle is made of.
+ */
+
+import { existsSync, realpathSync, statSync } from "node:fs";
+import type http from "node:http";
+import { extname, isAbsolute, join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { UiComponentExtension } from "@wopr-network/plugin-types";
+import { REVALIDATE_CACHE_CONTROL, serveFile } from "./static.js";
+
+export const PLUGIN_ASSETS_PREFIX = "/plugin-assets";
+
+/** The daemon API route the dashboard lists components from; answered here so URLs can be rewritten */
+export const COMPONENTS_API_PATH = "/api/plugins/components";
+
+/** File types a component bundle may contain */
+export const PLUGIN_ASSET_EXTENSIONS = new Set([
+	".js",
+	".mjs",
+	".css",
+	".json",
+	".map",
+	".wasm",
+	".svg",
+	".png",
+	".jpg",
+	".webp",
+	".woff",
+	".woff2",
+	".ttf",
+]);
+
+/** Filesystem path of a module given as an absolute path or file: URL, else null */
+export function modulePath(moduleUrl: string): string | null {
+	if (moduleUrl.startsWith("file:")) {
+		try {
+			return fileURLToPath(moduleUrl);
+		} catch {
+			return null;
+		}
+	}
+	return isAbsolute(moduleUrl) ? moduleUrl : null;
+}
+
+/** Split a path inside pluginsRoot into the plugin's directory name and the file within it */
+function locate(path: string, pluginsRoot: string): { plugin: string; file: string } | null {
+	const rel = relative(pluginsRoot, path);
+	if (!rel || rel.startsWith("..") || isAbsolute(rel)) return null;
+	const [plugin, ...rest] = rel.split(sep);
+	return rest.length ? { plugin, file: rest.join("/") } : null;
+}
+
+/**
+ * The same-origin URL for a component module inside a plugin's directory.
+ * Modules elsewhere, including ones on other origins, are left unchanged.
+ */
+export function rewriteModuleUrl(moduleUrl: string, pluginsRoot: string, basePath = ""): string {
+	const path = modulePath(moduleUrl);
+	const located = path ? locate(path, pluginsRoot) : null;
+	if (!located) return moduleUrl;
+	const file = located.file.split("/").map(encodeURIComponent).join("/");
+	return `${basePath}${PLUGIN_ASSETS_PREFIX}/${encodeURIComponent(located.plugin)}/${file}`;
+}
+
+export function rewriteComponents(
+	components: UiComponentExtension[],
+	pluginsRoot: string,
+	basePath = "",
+): UiComponentExtension[] {
+	return components.map((component) => ({
+		...component,
+		moduleUrl: rewriteModuleUrl(component.moduleUrl, pluginsRoot, basePath),
+	}));
+}
+
+/** Directories that may be served, per plugin: those holding a registered component module */
+export function allowedAssetDirs(components: UiComponentExtension[], pluginsRoot: string): Map<string, string[]> {
+	const allowed = new Map<string, string[]>();
+	for (const component of components) {
+		const path = modulePath(component.moduleUrl);
+		const located = path ? locate(path, pluginsRoot) : null;
+		if (!located) continue;
+		const dir = join(pluginsRoot, located.plugin, ...located.file.split("/").slice(0, -1));
+		allowed.set(located.plugin, [...(allowed.get(located.plugin) ?? []), dir]);
+	}
+	return allowed;
+}
+
+function realpathOrNull(path: string): string | null {
+	try {
+		return realpathSync(path);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Map a /plugin-assets/<plugin>/<path> request to a file, or the status
+ * to answer with. Symlinks are resolved before the allowlist is checked,
+ * so a link inside an allowed directory can't point outside it.
+ */
+export function resolvePluginAsset(
+	urlPath: string,
+	pluginsRoot: string,
+	allowed: Map<string, string[]>,
+): { path: string } | { status: 403 | 404 } {
+	const rest = urlPath.slice(`${PLUGIN_ASSETS_PREFIX}/`.length);
+	let segments: string[];
+	try {
+		segments = rest.split("/").map(decodeURIComponent);
+	} catch {
+		return { status: 404 };
+	}
+	const [plugin, ...file] = segments;
+	if (
+		!plugin ||
+		file.length === 0 ||
+		segments.some((segment) => segment === "" || segment.startsWith(".") || /[\\/\0]/.test(segment))
+	) {
+		return { status: 404 };
+	}
+	if (!PLUGIN_ASSET_EXTENSIONS.has(extname(file[file.length - 1]).toLowerCase())) return { status: 403 };
+
+	const dirs = allowed.get(plugin);
+	if (!dirs) return { status: 404 };
+	const path = realpathOrNull(join(pluginsRoot, plugin, ...file));
+	if (!path) return { status: 404 };
+	const inside = dirs.some((dir) => {
+		const real = realpathOrNull(dir);
+		return real !== null && path.startsWith(`${real}${sep}`);
+	});
+	return inside ? { path } : { status: 403 };
+}
+
+/** Serve a file from a plugin's component directory */
+export function servePluginAsset(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	urlPath: string,
+	pluginsRoot: string,
+	components: UiComponentExtension[],
+): void {
+	const resolved = resolvePluginAsset(urlPath, pluginsRoot, allowedAssetDirs(components, pluginsRoot));
+	const stat = "path" in resolved && existsSync(resolved.path) ? statSync(resolved.path) : null;
+	if (!stat?.isFile()) {
+		res.statusCode = "status" in resolved ? resolved.status : 404;
+		res.end(res.statusCode === 403 ? "Forbidden" : "Not found");
+		return;
+	}
+	// Plugin files keep their names across updates, so they are revalidated rather than cached
+	serveFile(req, res, (resolved as { path: string }).path, stat, REVALIDATE_CACHE_CONTROL);
+}
+
+/** Answer the component list with module URLs rewritten to this server */
+export function sendComponents(res: http.ServerResponse, components: UiComponentExtension[]): void {
+	res.statusCode = 200;
+	res.setHeader("Content-Type", "application/json");
+	res.setHeader("Cache-Control", "no-store");
+	res.end(JSON.stringify({ components }));
+}
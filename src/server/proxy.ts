@@ -0,0 +1,212 @@
+/**
+ * Daemon Reverse Proxy
+ *
+ * Forwards /api/* requests and /ws WebSocket upgrades from the plugin's
+ * HTTP server to the WOPR daemon, mirroring the Vite dev server proxy
+ * configured in vite.config.ts.
+ */
+
+import http from "node:http";
+import type { Duplex } from "node:stream";
+
+export interface ProxyTarget {
+	host: string;
+	port: number;
+}
+
+export const API_PREFIX = "/api";
+export const WS_PATH = "/ws";
+
+/** Error code in the 502 body, which the client reports as the daemon being offline */
+export const DAEMON_UNREACHABLE = "DAEMON_UNREACHABLE";
+
+// Headers that apply to a single connection and must not be forwarded
+const HOP_BY_HOP_HEADERS = new Set([
+	"connection",
+	"keep-alive",
+	"proxy-authenticate",
+	"proxy-authorization",
+	"te",
+	"trailer",
+	"transfer-encoding",
+	"upgrade",
+]);
+
+/** Whether a request path (without query string) should be proxied to the daemon API */
+export function isApiPath(urlPath: string): boolean {
+	return urlPath === API_PREFIX || urlPath.startsWith(`${API_PREFIX}/`);
+}
+
+/** Whether a request path (without query string) is the daemon WebSocket endpoint */
+export function isWsPath(urlPath: string): boolean {
+	return urlPath === WS_PATH;
+}
+
+/** Strip the /api prefix, the same rewrite vite.config.ts applies in development */
+export function rewriteApiPath(url: string): string {
+	const rest = url.replace(/^\/api/, "");
+	return rest.startsWith("/") ? rest : `/${rest}`;
+}
+
+/** Request headers to send the daemon: hop-by-hop headers dropped, X-Forwarded-* added */
+export function forwardHeaders(req: http.IncomingMessage, target: ProxyTarget): http.OutgoingHttpHeaders {
+	const headers: http.OutgoingHttpHeaders = {};
+	for (const [name, value] of Object.entries(req.headers)) {
+		if (value === undefined || HOP_BY_HOP_HEADERS.has(name)) continue;
+		headers[name] = value;
+	}
+
+	// Equivalent of Vite's changeOrigin: the daemon sees its own host
+	headers.host = `${target.host}:${target.port}`;
+
+	const clientIp = req.socket?.remoteAddress;
+	if (clientIp) {
+		const prior = req.headers["x-forwarded-for"];
+		headers["x-forwarded-for"] = prior ? `${prior}, ${clientIp}` : clientIp;
+	}
+	if (req.headers.host) {
+		headers["x-forwarded-host"] = req.headers.host;
+	}
+	headers["x-forwarded-proto"] = (req.socket as { encrypted?: boolean } | undefined)?.encrypted ? "https" : "http";
+	return headers;
+}
+
+function stripHopByHop(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+	const result: http.OutgoingHttpHeaders = {};
+	for (const [name, value] of Object.entries(headers)) {
+		if (value === undefined || HOP_BY_HOP_HEADERS.has(name)) continue;
+		result[name] = value;
+	}
+	return result;
+}
+
+/**
+ * Proxy an /api/* request to the daemon.
+ *
+ * Upstream failures are reported as a 502 with the JSON error shape
+ * lib/api.ts already understands, plus a code it recognizes.
+ */
+export function proxyRequest(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	target: ProxyTarget,
+	onError?: (err: Error) => void,
+): void {
+	const upstream = http.request(
+		{
+			host: target.host,
+			port: target.port,
+			method: req.method,
+			path: rewriteApiPath(req.url ?? API_PREFIX),
+			headers: forwardHeaders(req, target),
+		},
+		(upstreamRes) => {
+			res.writeHead(upstreamRes.statusCode ?? 502, stripHopByHop(upstreamRes.headers));
+			upstreamRes.pipe(res);
+		},
+	);
+
+	upstream.on("error", (err) => {
+		onError?.(err);
+		if (res.headersSent) {
+			res.destroy(err);
+			return;
+		}
+		res.statusCode = 502;
+		res.setHeader("Content-Type", "application/json");
+		res.end(JSON.stringify({ error: "WOPR daemon is unreachable", code: DAEMON_UNREACHABLE }));
+	});
+
+	// Abort the upstream request if the browser goes away first
+	res.on("close", () => {
+		if (!res.writableFinished) upstream.destroy();
+	});
+
+	req.pipe(upstream);
+}
+
+/**
+ * Proxy a WebSocket upgrade on /ws to the daemon.
+ *
+ * Once the daemon answers with 101 the two sockets are piped together;
+ * any other answer is relayed to the browser and the socket is closed.
+ * Established connections are kept in `connections` (browser socket to
+ * daemon socket) while open, so they can be closed cleanly on shutdown.
+ */
+export function proxyUpgrade(
+	req: http.IncomingMessage,
+	socket: Duplex,
+	head: Buffer,
+	target: ProxyTarget,
+	onError?: (err: Error) => void,
+	connections?: Map<Duplex, Duplex>,
+): void {
+	const headers = forwardHeaders(req, target);
+	headers.connection = "Upgrade";
+	headers.upgrade = req.headers.upgrade ?? "websocket";
+
+	const upstream = http.request({
+		host: target.host,
+		port: target.port,
+		method: req.method ?? "GET",
+		path: req.url ?? WS_PATH,
+		headers,
+	});
+
+	// The browser may reset before the daemon answers; unhandled, that error would take down the process
+	let browserGone = false;
+	const abandon = () => {
+		browserGone = true;
+		upstream.destroy();
+	};
+	socket.on("error", abandon);
+	socket.on("close", abandon);
+
+	const fail = (err: Error) => {
+		onError?.(err);
+		socket.destroy();
+	};
+
+	upstream.on("error", (err) => {
+		// Our own doing when the browser went away, not a daemon problem
+		if (browserGone) return;
+		if (!socket.destroyed) {
+			socket.end("HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n");
+		}
+		onError?.(err);
+	});
+
+	upstream.on("response", (upstreamRes) => {
+		// Daemon refused the upgrade: relay the status line and hang up
+		socket.end(`HTTP/1.1 ${upstreamRes.statusCode} ${upstreamRes.statusMessage ?? ""}\r\nConnection: close\r\n\r\n`);
+		upstreamRes.resume();
+	});
+
+	upstream.on("upgrade", (upstreamRes, upstreamSocket, upstreamHead) => {
+		const lines = [`HTTP/1.1 101 ${upstreamRes.statusMessage || "Switching Protocols"}`];
+		const raw = upstreamRes.rawHeaders;
+		for (let i = 0; i < raw.length; i += 2) {
+			lines.push(`${raw[i]}: ${raw[i + 1]}`);
+		}
+		socket.write(`${lines.join("\r\n")}\r\n\r\n`);
+		if (upstreamHead.length > 0) socket.write(upstreamHead);
+		if (head.length > 0) upstreamSocket.write(head);
+
+		upstreamSocket.on("error", fail);
+		socket.on("error", (err) => {
+			onError?.(err);
+			upstreamSocket.destroy();
+		});
+		upstreamSocket.on("close", () => socket.destroy());
+		socket.on("close", () => {
+			connections?.delete(socket);
+			upstreamSocket.destroy();
+		});
+		connections?.set(socket, upstreamSocket);
+
+		upstreamSocket.pipe(socket);
+		socket.pipe(upstreamSocket);
+	});
+
+	upstream.end();
+}
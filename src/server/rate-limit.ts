@@ -0,0 +1,85 @@
+/**
+ * Rate Limiting
+ *
+ * Token buckets per client IP. Each client may spend up to `burst`
+ * requests at once, and its bucket refills at `perMinute` tokens a minute.
+ * Used for the daemon API proxy and for login attempts, where it slows
+ * down password guessing.
+ */
+
+import type http from "node:http";
+
+export interface RateLimitOptions {
+	/** Requests a client can make at once */
+	burst: number;
+	/** Refill rate; 0 turns the limit off */
+	perMinute: number;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+// Past this many clients, buckets that have refilled completely are dropped
+const MAX_TRACKED_CLIENTS = 10_000;
+
+export class RateLimiter {
+	private buckets = new Map<string, Bucket>();
+
+	constructor(private options: RateLimitOptions) {}
+
+	get enabled(): boolean {
+		return this.options.perMinute > 0 && this.options.burst > 0;
+	}
+
+	/** Number of clients being tracked */
+	get size(): number {
+		return this.buckets.size;
+	}
+
+	/**
+	 * Spend a token from key's bucket. Returns 0 when the request may go
+	 * ahead, otherwise the whole seconds until a token is available.
+	 */
+	take(key: string, now = Date.now()): number {
+		if (!this.enabled) return 0;
+		const { burst, perMinute } = this.options;
+		const perMs = perMinute / 60_000;
+
+		const bucket = this.buckets.get(key) ?? { tokens: burst, updatedAt: now };
+		bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+		bucket.updatedAt = now;
+		this.buckets.set(key, bucket);
+		if (this.buckets.size > MAX_TRACKED_CLIENTS) this.prune(now);
+
+		if (bucket.tokens >= 1) {
+			bucket.tokens -= 1;
+			return 0;
+		}
+		return Math.ceil((1 - bucket.tokens) / perMs / 1000);
+	}
+
+	private prune(now: number): void {
+		const perMs = this.options.perMinute / 60_000;
+		for (const [key, bucket] of this.buckets) {
+			if (bucket.tokens + (now - bucket.updatedAt) * perMs >= this.options.burst) this.buckets.delete(key);
+		}
+	}
+}
+
+export function sendTooManyRequests(res: http.ServerResponse, retryAfterSeconds: number): void {
+	res.statusCode = 429;
+	res.setHeader("Retry-After", String(retryAfterSeconds));
+	res.setHeader("Content-Type", "application/json");
+	res.setHeader("Cache-Control", "no-store");
+	res.end(JSON.stringify({ error: "Too many requests", retryAfter: retryAfterSeconds }));
+}
+
+/** Spend a token for key, answering 429 with Retry-After when there are none left. Returns whether to go on. */
+export function enforceRateLimit(limiter: RateLimiter, key: string, res: http.ServerResponse): boolean {
+	const retryAfter = limiter.take(key);
+	if (retryAfter === 0) return true;
+	sendTooManyRequests(res, retryAfter);
+	return false;
+}
@@ -0,0 +1,196 @@
+/**
+ * Security Headers
+ *
+ * Builds the Content-Security-Policy and the rest of the hardened header
+ * set for every dashboard response. Plugin UI components are loaded with
+ * a dynamic import() from their moduleUrl, so the origins of registered
+ * UiComponentExtensions are allowed as script sources alongside any
+ * extra origins from the plugin config.
+ */
+
+import type http from "node:http";
+
+export interface CspOptions {
+	/** Send Content-Security-Policy-Report-Only instead of enforcing */
+	reportOnly: boolean;
+	/** Extra origins allowed to serve scripts and answer fetches */
+	allowedOrigins: string[];
+}
+
+export const CSP_REPORT_PATH = "/csp-report";
+
+const MAX_REPORT_BYTES = 16 * 1024;
+// Distinct violations remembered while the policy is enforced
+const MAX_DISTINCT_REPORTS = 1000;
+
+const PERMISSIONS_POLICY = [
+	"camera=()",
+	"microphone=()",
+	"geolocation=()",
+	"payment=()",
+	"usb=()",
+	"serial=()",
+	"bluetooth=()",
+].join(", ");
+
+/** Normalize a URL to its origin (scheme://host[:port]), or null if it has none */
+export function originOf(url: string): string | null {
+	try {
+		const parsed = new URL(url);
+		if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+		return parsed.origin;
+	} catch {
+		// Relative URLs are same-origin and already covered by 'self'
+		return null;
+	}
+}
+
+/** Build the policy for the given set of component module URLs */
+export function buildContentSecurityPolicy(moduleUrls: string[], options: CspOptions, basePath = ""): string {
+	const origins = new Set<string>();
+	for (const url of [...moduleUrls, ...options.allowedOrigins]) {
+		const origin = originOf(url);
+		if (origin) origins.add(origin);
+	}
+	const extra = [...origins].sort();
+	const withExtra = (...sources: string[]) => [...sources, ...extra].join(" ");
+
+	const directives = [
+		"default-src 'self'",
+		`script-src ${withExtra("'self'")}`,
+		// Solid and Tailwind emit inline style attributes; the login page uses a <style> block
+		`style-src ${withExtra("'self'", "'unsafe-inline'")}`,
+		`img-src ${withExtra("'self'", "data:")}`,
+		`font-src ${withExtra("'self'", "data:")}`,
+		`connect-src ${withExtra("'self'")}`,
+		"object-src 'none'",
+		"base-uri 'self'",
+		"form-action 'self'",
+		"frame-ancestors 'none'",
+		`report-uri ${basePath}${CSP_REPORT_PATH}`,
+	];
+	return directives.join("; ");
+}
+
+/** Set the CSP and hardened headers on a response */
+export function applySecurityHeaders(res: http.ServerResponse, policy: string, reportOnly: boolean): void {
+	res.setHeader(reportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy", policy);
+	res.setHeader("X-Content-Type-Options", "nosniff");
+	res.setHeader("X-Frame-Options", "DENY");
+	res.setHeader("Referrer-Policy", "no-referrer");
+	res.setHeader("Permissions-Policy", PERMISSIONS_POLICY);
+	res.setHeader("Cross-Origin-Opener-Policy", "same-origin");
+}
+
+interface CspViolation {
+	"document-uri"?: string;
+	"violated-directive"?: string;
+	"effective-directive"?: string;
+	"blocked-uri"?: string;
+	documentURL?: string;
+	effectiveDirective?: string;
+	blockedURL?: string;
+}
+
+/** One violation, reduced to what is worth logging */
+export interface CspReport {
+	directive: string;
+	blocked: string;
+	document: string;
+}
+
+/** Read the violations from a report-uri or Reporting API payload */
+export function readCspReports(body: string): CspReport[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(body);
+	} catch {
+		return [];
+	}
+	// report-uri sends {"csp-report": {...}}; the Reporting API sends [{type, body}]
+	const violations: CspViolation[] = Array.isArray(parsed)
+		? parsed.filter((r) => r?.type === "csp-violation").map((r) => r.body as CspViolation)
+		: [(parsed as { "csp-report"?: CspViolation })?.["csp-report"]].filter((r): r is CspViolation => Boolean(r));
+
+	return violations.map((v) => ({
+		directive: v["effective-directive"] ?? v["violated-directive"] ?? v.effectiveDirective ?? "unknown",
+		blocked: v["blocked-uri"] ?? v.blockedURL ?? "unknown",
+		document: v["document-uri"] ?? v.documentURL ?? "unknown",
+	}));
+}
+
+function describeCspReport(report: CspReport): string {
+	return `CSP violation: ${report.directive} blocked ${report.blocked} on ${report.document}`;
+}
+
+/** Turn a report-uri or Reporting API payload into one log line per violation */
+export function describeCspReports(body: string): string[] {
+	return readCspReports(body).map(describeCspReport);
+}
+
+/**
+ * Where violation reports end up. While the policy is only reported, every
+ * violation is logged: that is what report-only mode is for. Once it is
+ * enforced, each directive and blocked URI is logged once, so a page that
+ * keeps tripping the policy cannot flood the log.
+ */
+export class CspReportLog {
+	private seen = new Set<string>();
+
+	constructor(private log: (message: string) => void) {}
+
+	record(report: CspReport, reportOnly: boolean): void {
+		if (!reportOnly) {
+			const key = `${report.directive} ${report.blocked}`;
+			if (this.seen.has(key)) return;
+			// Forgetting everything now and then keeps the set bounded; a repeat gets logged again
+			if (this.seen.size >= MAX_DISTINCT_REPORTS) this.seen.clear();
+			this.seen.add(key);
+		}
+		this.log(describeCspReport(report));
+	}
+}
+
+/** Accept a violation report from the browser and log it */
+export function handleCspReport(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	reports: CspReportLog,
+	reportOnly: boolean,
+): void {
+	if (req.method !== "POST") {
+		res.statusCode = 405;
+		res.setHeader("Allow", "POST");
+		res.end("Method Not Allowed");
+		return;
+	}
+
+	const tooLarge = () => {
+		res.statusCode = 413;
+		res.end();
+		req.destroy();
+	};
+	if (Number(req.headers["content-length"]) > MAX_REPORT_BYTES) {
+		tooLarge();
+		return;
+	}
+
+	let size = 0;
+	const chunks: Buffer[] = [];
+	req.on("data", (chunk: Buffer) => {
+		size += chunk.length;
+		if (size > MAX_REPORT_BYTES) {
+			tooLarge();
+			return;
+		}
+		chunks.push(chunk);
+	});
+	req.on("end", () => {
+		if (res.writableEnded) return;
+		for (const report of readCspReports(Buffer.concat(chunks).toString("utf8"))) {
+			reports.record(report, reportOnly);
+		}
+		res.statusCode = 204;
+		res.end();
+	});
+}
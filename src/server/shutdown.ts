@@ -0,0 +1,102 @@
+/**
+ * Graceful Shutdown
+ *
+ * server.close() alone waits for every keep-alive socket and proxied
+ * WebSocket to go away on its own, which can outlast the host's shutdown
+ * timeout. Draining instead stops accepting connections, closes idle
+ * keep-alive sockets, lets in-flight requests finish, tells browsers on
+ * /ws and /events that the server is going away (close code 1001), and
+ * destroys whatever is still open when the deadline passes.
+ */
+
+import type net from "node:net";
+import type { Duplex } from "node:stream";
+import type { EventStream } from "./events.js";
+
+/** RFC 6455 close code for an endpoint that is going away */
+export const WS_CLOSE_GOING_AWAY = 1001;
+
+export const WS_CLOSE_REASON = "Server restarting";
+
+const IDLE_SWEEP_INTERVAL_MS = 50;
+
+interface DrainableServer {
+	close(callback?: (err?: Error) => void): unknown;
+	closeIdleConnections?(): void;
+}
+
+export interface DrainOptions {
+	/** Every socket the server accepted, from trackSockets() */
+	sockets: Set<net.Socket>;
+	/** Proxied WebSockets, browser socket to daemon socket */
+	webSockets: Map<Duplex, Duplex>;
+	/** Open /events streams */
+	eventStreams?: Set<EventStream>;
+	/** Destroy anything still open after this long */
+	timeoutMs: number;
+}
+
+export interface DrainResult {
+	/** Sockets that had to be destroyed at the deadline */
+	forced: number;
+}
+
+/** Encode an unmasked (server to client) WebSocket close frame */
+export function encodeCloseFrame(code: number, reason = ""): Buffer {
+	// Control frame payloads are limited to 125 bytes, two of which are the code
+	const text = Buffer.from(reason).subarray(0, 123);
+	const frame = Buffer.alloc(4 + text.length);
+	frame[0] = 0x88; // FIN + opcode 0x8 (close)
+	frame[1] = 2 + text.length;
+	frame.writeUInt16BE(code, 2);
+	text.copy(frame, 4);
+	return frame;
+}
+
+/** Keep a live set of the sockets a server has accepted */
+export function trackSockets(server: net.Server): Set<net.Socket> {
+	const sockets = new Set<net.Socket>();
+	server.on("connection", (socket: net.Socket) => {
+		sockets.add(socket);
+		socket.once("close", () => sockets.delete(socket));
+	});
+	return sockets;
+}
+
+/**
+ * Send a close frame to a proxied browser WebSocket and half-close it.
+ * The daemon is unpiped first so nothing else reaches the browser; if a
+ * daemon frame was only partly relayed the browser sees an abnormal close
+ * (1006) instead, which it handles the same way.
+ */
+function closeWebSocket(client: Duplex, upstream: Duplex): void {
+	upstream.unpipe(client);
+	client.end(encodeCloseFrame(WS_CLOSE_GOING_AWAY, WS_CLOSE_REASON));
+}
+
+/** Stop the server and wait for its connections to finish, up to options.timeoutMs */
+export function drainServer(server: DrainableServer, options: DrainOptions): Promise<DrainResult> {
+	return new Promise((resolve, reject) => {
+		let forced = 0;
+		const deadline = setTimeout(() => {
+			forced = options.sockets.size;
+			for (const socket of options.sockets) socket.destroy();
+		}, options.timeoutMs);
+		deadline.unref();
+
+		// Requests in flight now leave a keep-alive socket behind when they finish
+		const sweep = setInterval(() => server.closeIdleConnections?.(), IDLE_SWEEP_INTERVAL_MS);
+		sweep.unref();
+
+		server.close((err) => {
+			clearTimeout(deadline);
+			clearInterval(sweep);
+			// A server that already stopped listening still had connections to drain
+			if (err && (err as NodeJS.ErrnoException).code !== "ERR_SERVER_NOT_RUNNING") reject(err);
+			else resolve({ forced });
+		});
+		server.closeIdleConnections?.();
+		for (const [client, upstream] of options.webSockets) closeWebSocket(client, upstream);
+		for (const stream of [...(options.eventStreams ?? [])]) stream.close(WS_CLOSE_GOING_AWAY);
+	});
+}
@@ -0,0 +1,323 @@
+/**
+ * Static File Serving
+ *
+ * Serves the built dashboard from dist/ with HTTP caching and
+ * compression: hashed Vite assets are cached as immutable, everything
+ * else revalidates via ETag/Last-Modified, and responses are sent as
+ * brotli or gzip when the browser accepts it, preferring .br/.gz files
+ * written at build time over compressing on the fly.
+ *
+ * Files also answer single byte-range requests, so large downloads such
+ * as exported transcripts or media can be resumed.
+ *
+ * The build uses relative asset URLs; index.html gets a <base href> for
+ * the configured base path so one build works under any mount point.
+ */
+
+import { createHash } from "node:crypto";
+import { createReadStream, existsSync, readFileSync, type Stats, statSync } from "node:fs";
+import type http from "node:http";
+import { extname, join, sep } from "node:path";
+import type { Readable } from "node:stream";
+import { brotliCompressSync, createBrotliCompress, createGzip, gzipSync } from "node:zlib";
+
+// Content types for static files
+export const CONTENT_TYPES: Record<string, string> = {
+	".html": "text/html",
+	".js": "application/javascript",
+	".mjs": "application/javascript",
+	".css": "text/css",
+	".json": "application/json",
+	".map": "application/json",
+	".webmanifest": "application/manifest+json",
+	".txt": "text/plain",
+	".svg": "image/svg+xml",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".webp": "image/webp",
+	".ico": "image/x-icon",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+	".ttf": "font/ttf",
+	".wasm": "application/wasm",
+	".mp3": "audio/mpeg",
+	".mp4": "video/mp4",
+};
+
+/** Extensions worth compressing; images, media and woff fonts are already compressed */
+export const COMPRESSIBLE_EXTENSIONS = new Set([
+	".html",
+	".js",
+	".mjs",
+	".css",
+	".json",
+	".map",
+	".webmanifest",
+	".txt",
+	".svg",
+	".ttf",
+	".wasm",
+]);
+
+/** Files smaller than this are not worth compressing */
+export const MIN_COMPRESS_BYTES = 1024;
+
+export const IMMUTABLE_CACHE_CONTROL = "public, max-age=31536000, immutable";
+export const REVALIDATE_CACHE_CONTROL = "no-cache";
+
+type Encoding = "br" | "gzip";
+
+/** Inclusive byte offsets of a range request */
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+const ENCODING_SUFFIX: Record<Encoding, string> = { br: ".br", gzip: ".gz" };
+
+/** Vite emits content-hashed file names under /assets/, so they never change */
+export function cacheControlFor(urlPath: string): string {
+	return urlPath.startsWith("/assets/") ? IMMUTABLE_CACHE_CONTROL : REVALIDATE_CACHE_CONTROL;
+}
+
+/**
+ * Pick the best encoding the client accepts, in server preference order
+ * (br, then gzip). Honors q-values, including q=0 and the * wildcard.
+ */
+export function negotiateEncoding(acceptEncoding: string | undefined): Encoding | null {
+	if (!acceptEncoding) return null;
+	const weights = new Map<string, number>();
+	for (const part of acceptEncoding.split(",")) {
+		const [name, ...params] = part.trim().toLowerCase().split(";");
+		if (!name) continue;
+		const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+		weights.set(name, q ? Number.parseFloat(q.slice(2)) || 0 : 1);
+	}
+	for (const encoding of ["br", "gzip"] as const) {
+		const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+		if (weight > 0) return encoding;
+	}
+	return null;
+}
+
+/** Weak validator derived from size and modification time */
+export function computeEtag(size: number, mtimeMs: number, encoding?: Encoding | null): string {
+	const suffix = encoding ? `-${encoding}` : "";
+	return `W/"${size.toString(16)}-${Math.floor(mtimeMs).toString(16)}${suffix}"`;
+}
+
+/** Weak comparison of an If-None-Match header against an ETag */
+function etagMatches(ifNoneMatch: string, etag: string): boolean {
+	const opaque = etag.replace(/^W\//, "");
+	return ifNoneMatch
+		.split(",")
+		.map((tag) => tag.trim().replace(/^W\//, ""))
+		.some((tag) => tag === "*" || tag === opaque);
+}
+
+/** Whether the client's cached copy is still current */
+export function isNotModified(req: http.IncomingMessage, etag: string, mtimeMs: number): boolean {
+	const ifNoneMatch = req.headers["if-none-match"];
+	if (ifNoneMatch) {
+		// If-None-Match wins over If-Modified-Since
+		return etagMatches(ifNoneMatch, etag);
+	}
+	const ifModifiedSince = req.headers["if-modified-since"];
+	if (ifModifiedSince) {
+		const since = Date.parse(ifModifiedSince);
+		// HTTP dates have one-second resolution
+		return !Number.isNaN(since) && Math.floor(mtimeMs / 1000) * 1000 <= since;
+	}
+	return false;
+}
+
+/**
+ * Parse a Range header against a file's size. Returns the range to send,
+ * "unsatisfiable" when it starts past the end, or null to send the whole
+ * file: no header, a malformed one, another unit, or several ranges
+ * (which would need a multipart response).
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | null {
+	const match = header ? /^bytes=\s*(\d*)-(\d*)\s*$/.exec(header) : null;
+	if (!match || (!match[1] && !match[2])) return null;
+	if (!match[1]) {
+		// Suffix range: the last N bytes
+		const length = Number(match[2]);
+		if (length === 0 || size === 0) return "unsatisfiable";
+		return { start: Math.max(0, size - length), end: size - 1 };
+	}
+	const start = Number(match[1]);
+	const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+	if (match[2] && Number(match[2]) < start) return null;
+	return start < size ? { start, end } : "unsatisfiable";
+}
+
+/**
+ * Whether a Range request still applies to the file: true without
+ * If-Range, or when If-Range names the current ETag or modification date.
+ * Our ETags are weak, but for an unencoded file they change whenever its
+ * bytes do, so they are accepted here.
+ */
+function rangeStillValid(req: http.IncomingMessage, etag: string, mtime: Date): boolean {
+	const ifRange = req.headers["if-range"];
+	if (typeof ifRange !== "string") return ifRange === undefined;
+	if (ifRange.startsWith('"') || ifRange.startsWith("W/")) return etagMatches(ifRange, etag);
+	return Date.parse(ifRange) === Math.floor(mtime.getTime() / 1000) * 1000;
+}
+
+/** Stream a file, or part of it, compressing on the fly if requested */
+function sendFile(res: http.ServerResponse, path: string, compress: Encoding | null, range?: ByteRange): void {
+	const stream: Readable = createReadStream(path, range);
+	stream.on("error", () => {
+		if (!res.headersSent) res.statusCode = 500;
+		res.destroy();
+	});
+	if (compress === "br") {
+		stream.pipe(createBrotliCompress()).pipe(res);
+	} else if (compress === "gzip") {
+		stream.pipe(createGzip()).pipe(res);
+	} else {
+		stream.pipe(res);
+	}
+}
+
+/** Serve one file from disk with caching and content negotiation */
+export function serveFile(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	filePath: string,
+	stat: Stats,
+	cacheControl: string,
+): void {
+	const ext = extname(filePath).toLowerCase();
+	const compressible = COMPRESSIBLE_EXTENSIONS.has(ext);
+	// Byte offsets refer to the file on disk, so ranges are always served unencoded
+	const rangeHeader = req.method === "GET" || req.method === "HEAD" ? req.headers.range : undefined;
+
+	res.setHeader("Content-Type", CONTENT_TYPES[ext] || "application/octet-stream");
+	res.setHeader("Cache-Control", cacheControl);
+	res.setHeader("Last-Modified", stat.mtime.toUTCString());
+	res.setHeader("Accept-Ranges", "bytes");
+	if (compressible) res.setHeader("Vary", "Accept-Encoding");
+
+	// Choose the representation: precompressed file, on-the-fly, or identity
+	let encoding: Encoding | null = null;
+	let source = filePath;
+	let size: number | null = stat.size;
+	let compressOnTheFly = false;
+	const accepted = compressible && !rangeHeader ? negotiateEncoding(req.headers["accept-encoding"]) : null;
+	if (accepted) {
+		const precompressed = `${filePath}${ENCODING_SUFFIX[accepted]}`;
+		if (existsSync(precompressed)) {
+			encoding = accepted;
+			source = precompressed;
+			size = statSync(precompressed).size;
+		} else if (stat.size >= MIN_COMPRESS_BYTES) {
+			encoding = accepted;
+			size = null;
+			compressOnTheFly = true;
+		}
+	}
+
+	const etag = computeEtag(stat.size, stat.mtimeMs, encoding);
+	res.setHeader("ETag", etag);
+	if (encoding) res.setHeader("Content-Encoding", encoding);
+
+	if (isNotModified(req, etag, stat.mtimeMs)) {
+		res.statusCode = 304;
+		res.end();
+		return;
+	}
+
+	const range = rangeHeader && rangeStillValid(req, etag, stat.mtime) ? parseRange(rangeHeader, stat.size) : null;
+	if (range === "unsatisfiable") {
+		res.statusCode = 416;
+		res.setHeader("Content-Range", `bytes */${stat.size}`);
+		res.end();
+		return;
+	}
+	if (range) {
+		res.statusCode = 206;
+		res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${stat.size}`);
+		size = range.end - range.start + 1;
+	}
+
+	if (size !== null) res.setHeader("Content-Length", size);
+	if (req.method === "HEAD") {
+		res.end();
+		return;
+	}
+	sendFile(res, source, compressOnTheFly ? encoding : null, range ?? undefined);
+}
+
+/** Point relative URLs in index.html at the base path */
+export function injectBaseHref(html: string, basePath: string): string {
+	const tag = `<base href="${basePath}/">`;
+	return /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, (head) => `${head}\n    ${tag}`) : `${tag}${html}`;
+}
+
+/**
+ * Serve index.html with the base path injected. The body depends on
+ * config as well as the file, so it is validated by content hash only.
+ */
+function serveIndex(req: http.IncomingMessage, res: http.ServerResponse, indexPath: string, basePath: string): void {
+	const html = Buffer.from(injectBaseHref(readFileSync(indexPath, "utf8"), basePath));
+	const accepted = html.length >= MIN_COMPRESS_BYTES ? negotiateEncoding(req.headers["accept-encoding"]) : null;
+	const hash = createHash("sha256").update(html).digest("base64url").slice(0, 16);
+	const etag = `W/"${hash}${accepted ? `-${accepted}` : ""}"`;
+
+	res.setHeader("Content-Type", CONTENT_TYPES[".html"]);
+	res.setHeader("Cache-Control", REVALIDATE_CACHE_CONTROL);
+	res.setHeader("Vary", "Accept-Encoding");
+	res.setHeader("ETag", etag);
+	if (accepted) res.setHeader("Content-Encoding", accepted);
+
+	const ifNoneMatch = req.headers["if-none-match"];
+	if (ifNoneMatch && etagMatches(ifNoneMatch, etag)) {
+		res.statusCode = 304;
+		res.end();
+		return;
+	}
+
+	const body = accepted === "br" ? brotliCompressSync(html) : accepted === "gzip" ? gzipSync(html) : html;
+	res.setHeader("Content-Length", body.length);
+	res.end(req.method === "HEAD" ? undefined : body);
+}
+
+/**
+ * Serve a request path from distDir. Paths without an extension, and
+ * missing files, fall back to index.html for client-side routing.
+ */
+export function serveStatic(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	distDir: string,
+	urlPath: string,
+	basePath = "",
+): void {
+	// Handle client-side routing - serve index.html for non-file paths
+	const requested = extname(urlPath) ? urlPath : "/index.html";
+	const filePath = join(distDir, requested);
+	const indexPath = join(distDir, "index.html");
+
+	// Security: prevent directory traversal
+	if (!filePath.startsWith(`${distDir}${sep}`)) {
+		res.statusCode = 403;
+		res.end("Forbidden");
+		return;
+	}
+
+	const stat = existsSync(filePath) ? statSync(filePath) : null;
+	if (stat?.isFile() && filePath !== indexPath) {
+		serveFile(req, res, filePath, stat, cacheControlFor(requested));
+		return;
+	}
+
+	// Serve index.html for client-side routing
+	if (existsSync(indexPath)) {
+		serveIndex(req, res, indexPath, basePath);
+		return;
+	}
+	res.statusCode = 404;
+	res.end("Not found");
+}
@@ -0,0 +1,208 @@
+/**
+ * HTTPS Support
+ *
+ * Loads the TLS certificate for the dashboard server, either from
+ * user-provided PEM files or from a self-signed certificate that is
+ * generated on first start and kept in the plugin directory.
+ */
+
+import { createPrivateKey, generateKeyPairSync, randomBytes, sign, X509Certificate } from "node:crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import { isIP } from "node:net";
+import { join } from "node:path";
+
+export type TlsMode = "off" | "files" | "self-signed";
+
+export interface TlsOptions {
+	mode: TlsMode;
+	certPath?: string;
+	keyPath?: string;
+	/** Port for a plain HTTP listener that redirects to HTTPS. Disabled when unset. */
+	redirectPort?: number;
+}
+
+export interface TlsCredentials {
+	cert: string;
+	key: string;
+}
+
+export const SELF_SIGNED_DIR = "tls";
+export const SELF_SIGNED_CERT = "self-signed-cert.pem";
+export const SELF_SIGNED_KEY = "self-signed-key.pem";
+
+const SELF_SIGNED_VALIDITY_DAYS = 825;
+const SELF_SIGNED_COMMON_NAME = "WOPR Web UI";
+
+// -- Minimal DER encoding, just enough to build an X.509 v3 certificate --
+
+function derLength(length: number): Buffer {
+	if (length < 0x80) return Buffer.from([length]);
+	const bytes: number[] = [];
+	for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+	return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...content: Buffer[]): Buffer {
+	const body = Buffer.concat(content);
+	return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+const sequence = (...content: Buffer[]) => der(0x30, ...content);
+const set = (...content: Buffer[]) => der(0x31, ...content);
+const octetString = (content: Buffer) => der(0x04, content);
+const utf8String = (value: string) => der(0x0c, Buffer.from(value, "utf8"));
+const explicit = (n: number, content: Buffer) => der(0xa0 + n, content);
+
+function integer(value: Buffer): Buffer {
+	// DER wants the minimal encoding: drop redundant leading zeros (e.g. from random serials)
+	let start = 0;
+	while (start < value.length - 1 && value[start] === 0) start++;
+	const trimmed = value.subarray(start);
+	// Keep it positive: prefix a zero byte if the high bit is set
+	const body = trimmed[0] & 0x80 ? Buffer.concat([Buffer.from([0]), trimmed]) : trimmed;
+	return der(0x02, body);
+}
+
+function oid(dotted: string): Buffer {
+	const parts = dotted.split(".").map(Number);
+	const bytes = [parts[0] * 40 + parts[1]];
+	for (const part of parts.slice(2)) {
+		const chunk = [part & 0x7f];
+		for (let n = part >> 7; n > 0; n >>= 7) chunk.unshift(0x80 | (n & 0x7f));
+		bytes.push(...chunk);
+	}
+	return der(0x06, Buffer.from(bytes));
+}
+
+function time(date: Date): Buffer {
+	const iso = date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+	// RFC 5280: UTCTime through 2049, GeneralizedTime afterwards
+	return date.getUTCFullYear() < 2050
+		? der(0x17, Buffer.from(`${iso.slice(2)}Z`, "ascii"))
+		: der(0x18, Buffer.from(`${iso}Z`, "ascii"));
+}
+
+function ipBytes(address: string): Buffer {
+	if (isIP(address) === 4) return Buffer.from(address.split(".").map(Number));
+	// Expand "::" and write each 16-bit group
+	const [head, tail = ""] = address.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	const groups = address.includes("::")
+		? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups]
+		: headGroups;
+	const buf = Buffer.alloc(16);
+	for (const [i, group] of groups.entries()) {
+		buf.writeUInt16BE(Number.parseInt(group, 16), i * 2);
+	}
+	return buf;
+}
+
+function subjectAltName(names: string[]): Buffer {
+	// GeneralName: [7] iPAddress or [2] dNSName
+	const entries = names.map((name) => (isIP(name) ? der(0x87, ipBytes(name)) : der(0x82, Buffer.from(name, "ascii"))));
+	return sequence(oid("2.5.29.17"), octetString(sequence(...entries)));
+}
+
+/**
+ * Create a self-signed ECDSA P-256 certificate covering the given
+ * host names and IP addresses. Returns PEM-encoded cert and key.
+ */
+export function generateSelfSignedCertificate(names: string[], now = new Date()): TlsCredentials {
+	const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+	const notAfter = new Date(now.getTime() + SELF_SIGNED_VALIDITY_DAYS * 86_400_000);
+	const signatureAlgorithm = sequence(oid("1.2.840.10045.4.3.2")); // ecdsa-with-SHA256
+	const name = sequence(set(sequence(oid("2.5.4.3"), utf8String(SELF_SIGNED_COMMON_NAME))));
+
+	const tbs = sequence(
+		explicit(0, integer(Buffer.from([2]))), // v3
+		integer(randomBytes(16)),
+		signatureAlgorithm,
+		name,
+		sequence(time(now), time(notAfter)),
+		name,
+		publicKey.export({ type: "spki", format: "der" }),
+		explicit(3, sequence(subjectAltName(names))),
+	);
+	const signature = sign("sha256", tbs, privateKey);
+	const cert = sequence(tbs, signatureAlgorithm, der(0x03, Buffer.from([0]), signature));
+
+	const base64 = cert.toString("base64").replace(/(.{64})/g, "$1\n");
+	return {
+		cert: `-----BEGIN CERTIFICATE-----\n${base64.trimEnd()}\n-----END CERTIFICATE-----\n`,
+		key: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+	};
+}
+
+/** Names a self-signed certificate should cover for one or more bind addresses */
+export function certificateNames(hosts: string | string[]): string[] {
+	const names = ["localhost", "127.0.0.1", "::1"];
+	for (const host of typeof hosts === "string" ? [hosts] : hosts) {
+		const wildcard = host === "0.0.0.0" || host === "::" || host === "";
+		if (!wildcard && !names.includes(host)) names.push(host);
+	}
+	return names;
+}
+
+function isUsable(cert: string, key: string, names: string[]): boolean {
+	try {
+		const x509 = new X509Certificate(cert);
+		if (new Date(x509.validTo).getTime() <= Date.now()) return false;
+		if (!x509.checkPrivateKey(createPrivateKey(key))) return false;
+		return names.every((name) => (isIP(name) ? x509.checkIP(name) : x509.checkHost(name)) !== undefined);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Load (or create) the TLS credentials for the configured mode.
+ * Throws if the configured files are missing or unreadable.
+ */
+export function loadTlsCredentials(pluginDir: string, options: TlsOptions, hosts: string | string[]): TlsCredentials {
+	if (options.mode === "files") {
+		if (!options.certPath || !options.keyPath) {
+			throw new Error("TLS mode 'files' needs both a certificate path and a key path");
+		}
+		return {
+			cert: readFileSync(options.certPath, "utf8"),
+			key: readFileSync(options.keyPath, "utf8"),
+		};
+	}
+
+	const dir = join(pluginDir, SELF_SIGNED_DIR);
+	const certPath = join(dir, SELF_SIGNED_CERT);
+	const keyPath = join(dir, SELF_SIGNED_KEY);
+	const names = certificateNames(hosts);
+
+	if (existsSync(certPath) && existsSync(keyPath)) {
+		const existing = { cert: readFileSync(certPath, "utf8"), key: readFileSync(keyPath, "utf8") };
+		if (isUsable(existing.cert, existing.key, names)) return existing;
+	}
+
+	const created = generateSelfSignedCertificate(names);
+	mkdirSync(dir, { recursive: true });
+	writeFileSync(keyPath, created.key, { mode: 0o600 });
+	chmodSync(keyPath, 0o600);
+	writeFileSync(certPath, created.cert);
+	return created;
+}
+
+/**
+ * Plain HTTP server that redirects every request to the HTTPS listener
+ * on the same host name.
+ */
+export function createRedirectServer(httpsPort: number): http.Server {
+	return http.createServer((req, res) => {
+		const hostHeader = req.headers.host ?? "localhost";
+		// Drop any port from the Host header, keeping IPv6 brackets intact
+		const hostname = hostHeader.startsWith("[")
+			? hostHeader.slice(0, hostHeader.indexOf("]") + 1)
+			: hostHeader.split(":")[0];
+		const port = httpsPort === 443 ? "" : `:${httpsPort}`;
+		res.statusCode = 301;
+		res.setHeader("Location", `https://${hostname}${port}${req.url ?? "/"}`);
+		res.end();
+	});
+}
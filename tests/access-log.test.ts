@@ -0,0 +1,86 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it, vi } from "vitest";
+import { type AccessLogEntry, clientIp, formatAccessLog, recordAccess, shouldLog } from "../src/server/access-log";
+
+function mockReq(headers: Record<string, string> = {}, remoteAddress?: string) {
+	return { method: "GET", url: "/api/sessions?token=secret", headers, socket: { remoteAddress } } as never;
+}
+
+const entry: AccessLogEntry = {
+	method: "GET",
+	path: "/api/sessions",
+	status: 200,
+	durationMs: 12,
+	ip: "10.0.0.5",
+	user: "admin",
+	aborted: false,
+};
+
+describe("clientIp", () => {
+	it("uses the socket address", () => {
+		expect(clientIp(mockReq({}, "10.0.0.5"), false)).toBe("10.0.0.5");
+	});
+
+	it("unwraps IPv4-mapped IPv6 addresses", () => {
+		expect(clientIp(mockReq({}, "::ffff:10.0.0.5"), false)).toBe("10.0.0.5");
+	});
+
+	it("reports Unix socket clients as local", () => {
+		expect(clientIp(mockReq(), false)).toBe("local");
+	});
+
+	it("only believes X-Forwarded-For behind a trusted proxy", () => {
+		const req = mockReq({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" }, "127.0.0.1");
+
+		expect(clientIp(req, false)).toBe("127.0.0.1");
+		expect(clientIp(req, true)).toBe("203.0.113.7");
+	});
+});
+
+describe("shouldLog", () => {
+	it("logs nothing when disabled", () => {
+		expect(shouldLog({ enabled: false, sampleRate: 1 }, { ...entry, status: 500 })).toBe(false);
+	});
+
+	it("samples successful requests", () => {
+		const options = { enabled: true, sampleRate: 0.25 };
+
+		expect(shouldLog(options, entry, () => 0.2)).toBe(true);
+		expect(shouldLog(options, entry, () => 0.3)).toBe(false);
+	});
+
+	it("always logs errors and aborted requests", () => {
+		const options = { enabled: true, sampleRate: 0 };
+
+		expect(shouldLog(options, entry)).toBe(false);
+		expect(shouldLog(options, { ...entry, status: 429 })).toBe(true);
+		expect(shouldLog(options, { ...entry, aborted: true })).toBe(true);
+	});
+});
+
+describe("formatAccessLog", () => {
+	it("summarizes the entry", () => {
+		expect(formatAccessLog(entry)).toBe('10.0.0.5 admin "GET /api/sessions" 200 12ms');
+		expect(formatAccessLog({ ...entry, user: null, aborted: true })).toBe(
+			'10.0.0.5 - "GET /api/sessions" 200 12ms (aborted)',
+		);
+	});
+});
+
+describe("recordAccess", () => {
+	it("logs once the response closes, without the query string", () => {
+		const res = Object.assign(new EventEmitter(), { statusCode: 200, writableFinished: true });
+		const write = vi.fn();
+
+		const access = recordAccess(mockReq(), res as never, "10.0.0.5", { enabled: true, sampleRate: 1 }, write);
+		access.user = "admin";
+		res.statusCode = 404;
+		expect(write).not.toHaveBeenCalled();
+		res.emit("close");
+
+		expect(write).toHaveBeenCalledWith(
+			expect.stringContaining('"GET /api/sessions" 404'),
+			expect.objectContaining({ path: "/api/sessions", status: 404, user: "admin", ip: "10.0.0.5", aborted: false }),
+		);
+	});
+});
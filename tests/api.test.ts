@@ -1,5 +1,6 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { api } from "../src/lib/api";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { api, type ConfigKey, parseRetryAfter, retryDelay, SchemaError, setValidationMode } from "../src/lib/api";
+import { ApiError, describeError } from "../src/lib/errors";
 
 // Mock global fetch
 const mockFetch = vi.fn();
@@ -25,6 +26,7 @@ describe("api.getSessions", () => {
 		const result = await api.getSessions();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/sessions", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(sessions);
@@ -41,6 +43,7 @@ describe("api.createSession", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/sessions", {
 			method: "POST",
 			body: JSON.stringify({ name: "new-session", context: "some context" }),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(session);
@@ -57,6 +60,18 @@ describe("api.createSession", () => {
 	});
 });
 
+describe("api.getSessionHistory", () => {
+	it("should GET /api/sessions/:name/history with a limit", async () => {
+		const history = { history: [{ ts: 1, from: "web", content: "hi", type: "message" }] };
+		mockFetch.mockResolvedValue(mockJsonResponse(history));
+
+		const result = await api.getSessionHistory("my session", 50);
+
+		expect(mockFetch).toHaveBeenCalledWith("/api/sessions/my%20session/history?limit=50", expect.any(Object));
+		expect(result).toEqual(history);
+	});
+});
+
 describe("api.deleteSession", () => {
 	it("should DELETE /api/sessions/:name", async () => {
 		mockFetch.mockResolvedValue(mockJsonResponse({}));
@@ -65,6 +80,7 @@ describe("api.deleteSession", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/sessions/my-session", {
 			method: "DELETE",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -93,6 +109,7 @@ describe("api.inject", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/sessions/test/inject", {
 			method: "POST",
 			body: JSON.stringify({ message: "hello world" }),
+			signal: undefined,
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(response);
@@ -107,6 +124,7 @@ describe("api.getAuthStatus", () => {
 		const result = await api.getAuthStatus();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/auth", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(auth);
@@ -115,7 +133,9 @@ describe("api.getAuthStatus", () => {
 
 describe("api.getCrons", () => {
 	it("should GET /api/crons", async () => {
-		const crons = { crons: [{ name: "daily", schedule: "0 0 * * *" }] };
+		const crons = {
+			crons: [{ name: "daily", schedule: "0 0 * * *", session: "main", message: "summarize yesterday" }],
+		};
 		mockFetch.mockResolvedValue(mockJsonResponse(crons));
 
 		const result = await api.getCrons();
@@ -132,15 +152,17 @@ describe("api.createCron", () => {
 			session: "default",
 			message: "check status",
 		};
-		mockFetch.mockResolvedValue(mockJsonResponse({ ...cron, id: "1" }));
+		mockFetch.mockResolvedValue(mockJsonResponse(cron));
 
-		await api.createCron(cron);
+		const result = await api.createCron(cron);
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/crons", {
 			method: "POST",
 			body: JSON.stringify(cron),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
+		expect(result).toEqual(cron);
 	});
 });
 
@@ -152,6 +174,7 @@ describe("api.deleteCron", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/crons/hourly", {
 			method: "DELETE",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -159,7 +182,9 @@ describe("api.deleteCron", () => {
 
 describe("api.getPeers", () => {
 	it("should GET /api/peers", async () => {
-		const peers = { peers: [{ id: "peer1" }] };
+		const peers = {
+			peers: [{ id: "peer1", publicKey: "pk1", sessions: ["main"], caps: ["inject"], added: 1767225600000 }],
+		};
 		mockFetch.mockResolvedValue(mockJsonResponse(peers));
 
 		const result = await api.getPeers();
@@ -170,7 +195,9 @@ describe("api.getPeers", () => {
 
 describe("api.getPlugins", () => {
 	it("should GET /api/plugins", async () => {
-		const plugins = { plugins: [{ name: "webui" }] };
+		const plugins = {
+			plugins: [{ id: "webui", name: "webui", version: "1.0.0", enabled: true, healthy: true }],
+		};
 		mockFetch.mockResolvedValue(mockJsonResponse(plugins));
 
 		const result = await api.getPlugins();
@@ -189,6 +216,7 @@ describe("api.getWebUiExtensions", () => {
 		const result = await api.getWebUiExtensions();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/ui", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(extensions);
@@ -205,6 +233,7 @@ describe("api.getUiComponents", () => {
 		const result = await api.getUiComponents();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/components", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(components);
@@ -213,7 +242,7 @@ describe("api.getUiComponents", () => {
 
 describe("api.getIdentity", () => {
 	it("should GET /api/identity", async () => {
-		const identity = { id: "abc", name: "wopr-node" };
+		const identity = { shortId: "abc", publicKey: "pk", encryptPub: "ek" };
 		mockFetch.mockResolvedValue(mockJsonResponse(identity));
 
 		const result = await api.getIdentity();
@@ -224,19 +253,20 @@ describe("api.getIdentity", () => {
 
 describe("api.initIdentity", () => {
 	it("should POST /api/identity", async () => {
-		mockFetch.mockResolvedValue(mockJsonResponse({ id: "new" }));
+		mockFetch.mockResolvedValue(mockJsonResponse({ shortId: "new", publicKey: "pk" }));
 
 		await api.initIdentity();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/identity", {
 			method: "POST",
 			body: JSON.stringify({ force: undefined }),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
 
 	it("should pass force flag", async () => {
-		mockFetch.mockResolvedValue(mockJsonResponse({ id: "new" }));
+		mockFetch.mockResolvedValue(mockJsonResponse({ shortId: "new", publicKey: "pk" }));
 
 		await api.initIdentity(true);
 
@@ -247,13 +277,40 @@ describe("api.initIdentity", () => {
 
 describe("api.getConfig", () => {
 	it("should GET /api/config", async () => {
-		const config = { daemon: { port: 7437, host: "127.0.0.1", autoStart: true } };
+		const config = {
+			daemon: { port: 7437, host: "127.0.0.1", autoStart: true },
+			anthropic: {},
+			oauth: {},
+			discovery: { topics: [], autoJoin: false },
+			plugins: { autoLoad: true, directories: [] },
+		};
 		mockFetch.mockResolvedValue(mockJsonResponse(config));
 
 		const result = await api.getConfig();
 
 		expect(result).toEqual(config);
 	});
+
+	it.each(["strict", "lenient"] as const)("should accept missing sections and null fields (%s)", async (mode) => {
+		setValidationMode(mode);
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		// A fresh daemon: nothing configured for OAuth, Discord, discovery or plugins, and no API key yet
+		mockFetch.mockResolvedValue(
+			mockJsonResponse({ daemon: { port: 7437, host: "127.0.0.1", autoStart: true }, anthropic: { apiKey: null } }),
+		);
+
+		try {
+			const config = await api.getConfig();
+
+			expect(config.daemon).toEqual({ port: 7437, host: "127.0.0.1", autoStart: true });
+			expect(config.anthropic?.apiKey ?? undefined).toBeUndefined();
+			expect(config.discovery).toBeUndefined();
+			expect(warn).not.toHaveBeenCalled();
+		} finally {
+			setValidationMode("strict");
+			warn.mockRestore();
+		}
+	});
 });
 
 describe("api.getConfigValue", () => {
@@ -263,12 +320,85 @@ describe("api.getConfigValue", () => {
 		const result = await api.getConfigValue("daemon.port");
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/config/daemon.port", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toBe(7437);
 	});
 });
 
+describe("response validation", () => {
+	it("should reject a response that does not match the model", async () => {
+		mockFetch.mockResolvedValue(mockJsonResponse({ peers: [{ id: "peer1", publicKey: 42, sessions: [] }] }));
+
+		const err = (await api.getPeers().catch((e: unknown) => e)) as SchemaError;
+
+		expect(err).toBeInstanceOf(SchemaError);
+		expect(err).toMatchObject({ method: "GET", path: "/peers" });
+		expect(err.issues).toEqual([
+			"peers[0].publicKey: expected string, got number",
+			"peers[0].caps: expected array, got undefined",
+			"peers[0].added: expected number, got undefined",
+		]);
+		expect(describeError(err)).toBe("Unexpected response from the WOPR daemon (GET /peers)");
+	});
+
+	it("should check a config value against its section or field", async () => {
+		mockFetch.mockResolvedValue(mockJsonResponse({ key: "daemon.port", value: "7437" }));
+		await expect(api.getConfigValue("daemon.port")).rejects.toThrow("value: expected number, got string");
+
+		mockFetch.mockResolvedValue(mockJsonResponse({ key: "discovery", value: { topics: ["wopr"], autoJoin: true } }));
+		expect(await api.getConfigValue("discovery")).toEqual({ topics: ["wopr"], autoJoin: true });
+	});
+
+	it("should pass through config values for keys without a schema", async () => {
+		for (const key of ["telemetry", "daemon.logLevel", "constructor", "daemon.port.extra"]) {
+			mockFetch.mockResolvedValue(mockJsonResponse({ key, value: { level: "debug" } }));
+			expect(await api.getConfigValue(key as ConfigKey)).toEqual({ level: "debug" });
+		}
+	});
+
+	it("should allow fields the dashboard does not know about", async () => {
+		const identity = { shortId: "abc", publicKey: "pk", created: 1767225600000 };
+		mockFetch.mockResolvedValue(mockJsonResponse(identity));
+
+		expect(await api.getIdentity()).toEqual(identity);
+	});
+});
+
+describe("lenient response validation", () => {
+	beforeEach(() => {
+		setValidationMode("lenient");
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		setValidationMode("strict");
+		vi.restoreAllMocks();
+	});
+
+	it("should keep the entries that match and drop the rest", async () => {
+		const skill = { id: "web-search", name: "Web Search", description: "Search the web", enabled: true };
+		mockFetch.mockResolvedValue(mockJsonResponse({ skills: [skill, { id: "broken", enabled: "yes" }] }));
+
+		const result = await api.getSkills();
+
+		expect(result).toEqual({ skills: [skill] });
+		expect(console.warn).toHaveBeenCalledWith("Dropped malformed data from GET /skills:", [
+			"skills[1].name: expected string, got undefined",
+			"skills[1].description: expected string, got undefined",
+			"skills[1].enabled: expected boolean, got string",
+		]);
+	});
+
+	it("should drop unknown values of optional fields", async () => {
+		const plugin = { name: "wopr-plugin-foo", description: "Foo", version: "1.0.0" };
+		mockFetch.mockResolvedValue(mockJsonResponse({ plugins: [{ ...plugin, category: "toaster" }] }));
+
+		expect(await api.getAvailablePlugins()).toEqual({ plugins: [plugin] });
+	});
+});
+
 describe("api.setConfigValue", () => {
 	it("should PUT /api/config/:key with value", async () => {
 		mockFetch.mockResolvedValue(mockJsonResponse({}));
@@ -278,6 +408,7 @@ describe("api.setConfigValue", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/config/daemon.port", {
 			method: "PUT",
 			body: JSON.stringify({ value: 8080 }),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -291,6 +422,7 @@ describe("api.resetConfig", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/config", {
 			method: "DELETE",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -306,6 +438,7 @@ describe("api.getSkills", () => {
 		const result = await api.getSkills();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/skills", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(skills);
@@ -322,6 +455,7 @@ describe("api.getAvailableSkills", () => {
 		const result = await api.getAvailableSkills();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/skills/available", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(skills);
@@ -337,6 +471,7 @@ describe("api.installSkill", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/skills/install", {
 			method: "POST",
 			body: JSON.stringify({ id: "s2" }),
+			signal: undefined,
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -351,6 +486,7 @@ describe("api.uninstallSkill", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/skills/uninstall", {
 			method: "POST",
 			body: JSON.stringify({ id: "s1" }),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -364,6 +500,7 @@ describe("api.enableSkill", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/skills/s1/enable", {
 			method: "POST",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -385,6 +522,7 @@ describe("api.disableSkill", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/skills/s1/disable", {
 			method: "POST",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -412,4 +550,183 @@ describe("error handling", () => {
 
 		await expect(api.getSessions()).rejects.toThrow("Request failed");
 	});
+	it("should throw an ApiError with the status, code, request and body", async () => {
+		const body = { error: "Plugin not found", code: "PLUGIN_NOT_FOUND" };
+		mockFetch.mockResolvedValue(mockJsonResponse(body, false, 404));
+
+		const err = await api.enablePlugin("missing").catch((e: unknown) => e);
+
+		expect(err).toBeInstanceOf(ApiError);
+		expect(err).toMatchObject({
+			message: "Plugin not found",
+			status: 404,
+			code: "PLUGIN_NOT_FOUND",
+			path: "/plugins/missing/enable",
+			method: "POST",
+			body,
+			retryAfter: null,
+		});
+	});
+
+	it("should read Retry-After from the response", async () => {
+		mockFetch.mockResolvedValue({
+			...mockJsonResponse({ error: "Too many requests" }, false, 429),
+			headers: new Headers({ "Retry-After": "12" }),
+		});
+
+		const err = await api.getSessions().catch((e: unknown) => e);
+
+		expect(err).toMatchObject({ status: 429, retryAfter: 12, method: "GET" });
+		expect(describeError(err)).toBe("Too many requests (try again in 12s)");
+	});
+
+	it("should report network failures with status 0", async () => {
+		const cause = new TypeError("Failed to fetch");
+		mockFetch.mockRejectedValue(cause);
+
+		const err = (await api.getSessions({ retries: 0 }).catch((e: unknown) => e)) as ApiError;
+
+		expect(err).toBeInstanceOf(ApiError);
+		expect(err.status).toBe(0);
+		expect(err.cause).toBe(cause);
+		expect(err.isNetworkError).toBe(true);
+		expect(err.isDaemonOffline).toBe(true);
+	});
+
+	it("should treat the proxy's unreachable-daemon error as offline", async () => {
+		mockFetch.mockResolvedValue(
+			mockJsonResponse({ error: "WOPR daemon is unreachable", code: "DAEMON_UNREACHABLE" }, false, 502),
+		);
+
+		const err = (await api.getSessions({ retries: 0 }).catch((e: unknown) => e)) as ApiError;
+
+		expect(err.isNetworkError).toBe(false);
+		expect(err.isDaemonOffline).toBe(true);
+		expect(describeError(err)).toBe("WOPR daemon is offline");
+	});
+});
+
+describe("retries and timeouts", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should retry GETs after network errors and gateway failures", async () => {
+		vi.useFakeTimers();
+		const sessions = { sessions: [] };
+		mockFetch
+			.mockRejectedValueOnce(new TypeError("Failed to fetch"))
+			.mockResolvedValueOnce(mockJsonResponse({ error: "Bad gateway" }, false, 502))
+			.mockResolvedValueOnce(mockJsonResponse(sessions));
+
+		const result = api.getSessions();
+		await vi.runAllTimersAsync();
+
+		expect(await result).toEqual(sessions);
+		expect(mockFetch).toHaveBeenCalledTimes(3);
+	});
+
+	it("should give up after the configured number of retries", async () => {
+		vi.useFakeTimers();
+		mockFetch.mockResolvedValue(mockJsonResponse({ error: "Unavailable" }, false, 503));
+
+		const result = api.getSessions({ retries: 1 }).catch((e: unknown) => e);
+		await vi.runAllTimersAsync();
+
+		expect(await result).toMatchObject({ status: 503 });
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it("should not retry other client or server errors", async () => {
+		mockFetch.mockResolvedValue(mockJsonResponse({ error: "Boom" }, false, 500));
+
+		await expect(api.getSessions()).rejects.toMatchObject({ status: 500 });
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("should never retry calls that change state", async () => {
+		mockFetch.mockRejectedValue(new TypeError("Failed to fetch"));
+
+		await expect(api.inject("main", "hello")).rejects.toMatchObject({ status: 0 });
+		await expect(api.installPlugin("wopr-plugin-foo")).rejects.toMatchObject({ status: 0 });
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it("should wait as long as Retry-After asks", async () => {
+		vi.useFakeTimers();
+		mockFetch
+			.mockResolvedValueOnce({
+				...mockJsonResponse({ error: "Unavailable" }, false, 503),
+				headers: new Headers({ "Retry-After": "3" }),
+			})
+			.mockResolvedValueOnce(mockJsonResponse({ sessions: [] }));
+
+		const result = api.getSessions();
+		await vi.advanceTimersByTimeAsync(2999);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+
+		await result;
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it("should time out attempts that take too long", async () => {
+		mockFetch.mockImplementation(
+			(_url: string, init: RequestInit) =>
+				new Promise((_resolve, reject) => {
+					init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+				}),
+		);
+
+		const err = (await api.getSessions({ timeoutMs: 20, retries: 0 }).catch((e: unknown) => e)) as ApiError;
+
+		expect(err).toBeInstanceOf(ApiError);
+		expect(err).toMatchObject({ status: 0, code: "TIMEOUT", message: "Request timed out after 0.02s" });
+		expect(err.isDaemonOffline).toBe(true);
+	});
+
+	it("should pass the caller's abort through without retrying", async () => {
+		const controller = new AbortController();
+		mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+			controller.abort();
+			throw init.signal?.reason;
+		});
+
+		const err = await api.getSessions({ signal: controller.signal }).catch((e: unknown) => e);
+
+		expect(err).not.toBeInstanceOf(ApiError);
+		expect((err as Error).name).toBe("AbortError");
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("retryDelay", () => {
+	it("backs off exponentially with full jitter", () => {
+		expect(retryDelay(0, null, () => 1)).toBe(500);
+		expect(retryDelay(2, null, () => 1)).toBe(2000);
+		expect(retryDelay(2, null, () => 0.5)).toBe(1000);
+		expect(retryDelay(10, null, () => 1)).toBe(10_000);
+	});
+
+	it("uses Retry-After unless it is too long to wait", () => {
+		expect(retryDelay(0, 4)).toBe(4000);
+		expect(retryDelay(0, 60)).toBeNull();
+	});
+});
+
+describe("parseRetryAfter", () => {
+	it("parses delay-seconds", () => {
+		expect(parseRetryAfter("30")).toBe(30);
+	});
+
+	it("parses an HTTP date relative to now", () => {
+		const now = Date.parse("2026-01-01T00:00:00Z");
+		expect(parseRetryAfter("Thu, 01 Jan 2026 00:01:00 GMT", now)).toBe(60);
+		expect(parseRetryAfter("Wed, 31 Dec 2025 00:00:00 GMT", now)).toBe(0);
+	});
+
+	it("ignores missing and malformed values", () => {
+		expect(parseRetryAfter(null)).toBeNull();
+		expect(parseRetryAfter("soon")).toBeNull();
+	});
 });
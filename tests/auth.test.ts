@@ -0,0 +1,256 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	AuthManager,
+	type AuthOptions,
+	hashPassword,
+	parseCookies,
+	SESSION_COOKIE,
+	verifyPassword,
+} from "../src/server/auth";
+
+const PASSWORD_HASH = hashPassword("hunter2");
+
+function options(overrides: Partial<AuthOptions> = {}): AuthOptions {
+	return {
+		mode: "password",
+		username: "admin",
+		passwordHash: PASSWORD_HASH,
+		idleTimeoutMs: 30 * 60_000,
+		...overrides,
+	};
+}
+
+function reqWithCookie(cookie?: string): http.IncomingMessage {
+	return { headers: cookie ? { cookie } : {} } as http.IncomingMessage;
+}
+
+function cookieValue(setCookie: string): string {
+	return setCookie.split(";")[0];
+}
+
+describe("password hashing", () => {
+	it("verifies the password it hashed", () => {
+		expect(verifyPassword("hunter2", PASSWORD_HASH)).toBe(true);
+		expect(verifyPassword("hunter3", PASSWORD_HASH)).toBe(false);
+	});
+
+	it("rejects malformed hashes", () => {
+		expect(verifyPassword("hunter2", "hunter2")).toBe(false);
+		expect(verifyPassword("hunter2", "bcrypt$aa$bb")).toBe(false);
+		expect(verifyPassword("hunter2", "scrypt$aa$")).toBe(false);
+	});
+});
+
+describe("parseCookies", () => {
+	it("parses and decodes cookie pairs", () => {
+		expect(parseCookies("a=1; b=hello%20world;c=x=y")).toEqual({ a: "1", b: "hello world", c: "x=y" });
+	});
+
+	it("keeps the first value of duplicated names", () => {
+		expect(parseCookies("a=1; a=2")).toEqual({ a: "1" });
+	});
+
+	it("returns an empty map for a missing header", () => {
+		expect(parseCookies(undefined)).toEqual({});
+	});
+});
+
+describe("AuthManager", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("is disabled in none mode", () => {
+		const auth = new AuthManager(options({ mode: "none" }));
+		expect(auth.enabled).toBe(false);
+		expect(auth.verifyCredentials({ password: "hunter2" })).toBeNull();
+	});
+
+	it("verifies password credentials", () => {
+		const auth = new AuthManager(options());
+		expect(auth.verifyCredentials({ username: "admin", password: "hunter2" })).toBe("admin");
+		expect(auth.verifyCredentials({ username: "root", password: "hunter2" })).toBeNull();
+		expect(auth.verifyCredentials({ username: "admin", password: "nope" })).toBeNull();
+	});
+
+	it("verifies token credentials", () => {
+		const auth = new AuthManager(options({ mode: "token", token: "s3cret" }));
+		expect(auth.verifyCredentials({ token: "s3cret" })).toBe("token");
+		expect(auth.verifyCredentials({ token: "s3cre" })).toBeNull();
+	});
+
+	it("refuses every login when no credentials are configured", () => {
+		const auth = new AuthManager(options({ passwordHash: undefined }));
+		expect(auth.isConfigured()).toBe(false);
+		expect(auth.verifyCredentials({ username: "admin", password: "" })).toBeNull();
+	});
+
+	it("authenticates a request carrying the session cookie", () => {
+		const auth = new AuthManager(options());
+		const { identity, cookie } = auth.createSession("admin");
+
+		expect(cookie).toContain("HttpOnly");
+		expect(cookie).toContain("SameSite=Strict");
+		expect(auth.authenticate(reqWithCookie(cookieValue(cookie)))).toEqual(identity);
+	});
+
+	it("rejects a cookie with a forged signature", () => {
+		const auth = new AuthManager(options());
+		const { identity } = auth.createSession("admin");
+
+		expect(auth.authenticate(reqWithCookie(`${SESSION_COOKIE}=${identity.sessionId}.forged`))).toBeNull();
+	});
+
+	it("rejects cookies signed by a different secret", () => {
+		const issuer = new AuthManager(options({ sessionSecret: "one" }));
+		const verifier = new AuthManager(options({ sessionSecret: "two" }));
+		const { cookie } = issuer.createSession("admin");
+
+		expect(verifier.authenticate(reqWithCookie(cookieValue(cookie)))).toBeNull();
+	});
+
+	it("expires sessions after the idle timeout and refreshes on use", () => {
+		vi.useFakeTimers();
+		const auth = new AuthManager(options({ idleTimeoutMs: 1000 }));
+		const req = reqWithCookie(cookieValue(auth.createSession("admin").cookie));
+
+		vi.advanceTimersByTime(800);
+		expect(auth.authenticate(req)).not.toBeNull();
+		vi.advanceTimersByTime(800);
+		expect(auth.authenticate(req)).not.toBeNull();
+		vi.advanceTimersByTime(1001);
+		expect(auth.authenticate(req)).toBeNull();
+		expect(auth.size).toBe(0);
+	});
+
+	it("destroys the session on logout", () => {
+		const auth = new AuthManager(options());
+		const req = reqWithCookie(cookieValue(auth.createSession("admin").cookie));
+
+		const cleared = auth.destroySession(req);
+
+		expect(cleared).toContain("Max-Age=0");
+		expect(auth.authenticate(req)).toBeNull();
+	});
+
+	it("scopes the cookie and login redirect to the base path", () => {
+		const auth = new AuthManager(options({ basePath: "/wopr" }));
+		expect(auth.createSession("admin").cookie).toContain("Path=/wopr;");
+
+		const res = { statusCode: 200, setHeader: vi.fn(), end: vi.fn() } as unknown as http.ServerResponse;
+		auth.reject({ method: "GET", headers: { accept: "text/html" } } as http.IncomingMessage, res);
+		expect(res.setHeader).toHaveBeenCalledWith("Location", "/wopr/login");
+	});
+});
+
+describe("login routes", () => {
+	let server: http.Server;
+	let port: number;
+	let auth: AuthManager;
+
+	beforeEach(async () => {
+		auth = new AuthManager(options());
+		server = http.createServer((req, res) => {
+			const urlPath = (req.url ?? "/").split("?")[0];
+			if (auth.handleRoute(req, res, urlPath)) return;
+			if (!auth.authenticate(req)) {
+				auth.reject(req, res);
+				return;
+			}
+			res.end("dashboard");
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterEach(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	function send(
+		path: string,
+		init: { method?: string; headers?: Record<string, string>; body?: string } = {},
+	): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request({ host: "127.0.0.1", port, path, method: init.method, headers: init.headers }, (res) => {
+				let body = "";
+				res.on("data", (chunk) => {
+					body += chunk;
+				});
+				res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+			});
+			req.on("error", reject);
+			req.end(init.body);
+		});
+	}
+
+	it("redirects browser navigations to the login page", async () => {
+		const res = await send("/", { headers: { Accept: "text/html" } });
+		expect(res.status).toBe(302);
+		expect(res.headers.location).toBe("/login");
+	});
+
+	it("answers API calls with 401 JSON", async () => {
+		const res = await send("/api/sessions");
+		expect(res.status).toBe(401);
+		expect(JSON.parse(res.body)).toEqual({ error: "Authentication required" });
+	});
+
+	it("serves the login form", async () => {
+		const res = await send("/login");
+		expect(res.status).toBe(200);
+		expect(res.body).toContain('name="password"');
+	});
+
+	it("re-renders the form with an error on bad credentials", async () => {
+		const res = await send("/login", {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded" },
+			body: "username=admin&password=wrong",
+		});
+		expect(res.status).toBe(401);
+		expect(res.body).toContain("Invalid credentials");
+		expect(res.headers["set-cookie"]).toBeUndefined();
+	});
+
+	it("signs in, reports the session, and signs out", async () => {
+		const login = await send("/login", {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded" },
+			body: "username=admin&password=hunter2",
+		});
+		expect(login.status).toBe(303);
+		expect(login.headers.location).toBe("/");
+		const cookie = cookieValue(login.headers["set-cookie"]?.[0] ?? "");
+
+		const dashboard = await send("/", { headers: { Cookie: cookie } });
+		expect(dashboard.body).toBe("dashboard");
+
+		const session = await send("/auth/session", { headers: { Cookie: cookie } });
+		expect(JSON.parse(session.body)).toMatchObject({ authenticated: true, mode: "password", user: "admin" });
+
+		const logout = await send("/logout", { method: "POST", headers: { Cookie: cookie } });
+		expect(logout.status).toBe(303);
+
+		const after = await send("/api/sessions", { headers: { Cookie: cookie } });
+		expect(after.status).toBe(401);
+	});
+
+	it("accepts JSON logins", async () => {
+		const res = await send("/login", {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Accept: "application/json" },
+			body: JSON.stringify({ username: "admin", password: "hunter2" }),
+		});
+		expect(res.status).toBe(200);
+		expect(JSON.parse(res.body)).toMatchObject({ authenticated: true, user: "admin" });
+	});
+
+	it("only allows POST for logout", async () => {
+		const res = await send("/logout");
+		expect(res.status).toBe(405);
+	});
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function jsonResponse(data: unknown, ok = true) {
+	return {
+		ok,
+		headers: { get: () => "application/json" },
+		json: vi.fn().mockResolvedValue(data),
+	};
+}
+
+// Fresh module state per test, since the loaded bootstrap is module-level
+async function loadModules() {
+	vi.resetModules();
+	const bootstrap = await import("../src/lib/bootstrap");
+	const { api } = await import("../src/lib/api");
+	return { ...bootstrap, api };
+}
+
+beforeEach(() => {
+	mockFetch.mockReset();
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.stubGlobal("fetch", mockFetch);
+});
+
+describe("loadBootstrap", () => {
+	it("fetches /webui-config.json and merges it over the defaults", async () => {
+		const { loadBootstrap, getBootstrap } = await loadModules();
+		mockFetch.mockResolvedValue(
+			jsonResponse({ version: "0.2.0", apiUrl: "/wopr/api", wsUrl: "/wopr/ws", features: { webmcp: false } }),
+		);
+
+		const bootstrap = await loadBootstrap();
+
+		expect(mockFetch).toHaveBeenCalledWith("/webui-config.json", { headers: { Accept: "application/json" } });
+		expect(bootstrap.version).toBe("0.2.0");
+		expect(bootstrap.features).toEqual({ webmcp: false, pluginComponents: true });
+		expect(getBootstrap()).toBe(bootstrap);
+	});
+
+	it("keeps the defaults when the server has no bootstrap document", async () => {
+		const { loadBootstrap } = await loadModules();
+		mockFetch.mockResolvedValue({ ok: true, headers: { get: () => "text/html" }, json: vi.fn() });
+
+		const bootstrap = await loadBootstrap();
+
+		expect(bootstrap.apiUrl).toBe("/api");
+		expect(bootstrap.wsUrl).toBe("/ws");
+		expect(bootstrap.eventsUrl).toBe("/events");
+		expect(bootstrap.version).toBe("dev");
+	});
+
+	it("keeps the defaults when the request fails", async () => {
+		const { loadBootstrap } = await loadModules();
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		mockFetch.mockRejectedValue(new Error("offline"));
+
+		expect((await loadBootstrap()).apiUrl).toBe("/api");
+	});
+
+	it("points API requests at the loaded apiUrl", async () => {
+		const { loadBootstrap, api } = await loadModules();
+		mockFetch.mockResolvedValueOnce(jsonResponse({ apiUrl: "/wopr/api" }));
+		await loadBootstrap();
+
+		mockFetch.mockResolvedValueOnce(jsonResponse({ sessions: [] }));
+		await api.getSessions();
+
+		expect(mockFetch).toHaveBeenLastCalledWith("/wopr/api/sessions", expect.anything());
+	});
+});
+
+describe("webSocketUrl", () => {
+	it("builds a ws(s) URL on the page host", async () => {
+		const { webSocketUrl, getBootstrap } = await loadModules();
+		vi.stubGlobal("window", { location: { protocol: "https:", host: "wopr.lan" } });
+
+		expect(webSocketUrl({ ...getBootstrap(), wsUrl: "/wopr/ws" })).toBe("wss://wopr.lan/wopr/ws");
+	});
+});
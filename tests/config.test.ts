@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatListenAddress,
+	parseListenAddress,
+	parseSocketMode,
+	resolveConfig,
+	serverUrl,
+	tcpHosts,
+} from "../src/server/config";
+
+describe("parseListenAddress", () => {
+	it("parses host and port", () => {
+		expect(parseListenAddress("192.168.1.10:3000")).toEqual({ type: "tcp", host: "192.168.1.10", port: 3000 });
+	});
+
+	it("parses bracketed IPv6 hosts", () => {
+		expect(parseListenAddress("[::1]:3000")).toEqual({ type: "tcp", host: "::1", port: 3000 });
+	});
+
+	it("uses the default host for a bare port", () => {
+		expect(parseListenAddress("8080", "0.0.0.0")).toEqual({ type: "tcp", host: "0.0.0.0", port: 8080 });
+	});
+
+	it("parses Unix socket paths with the socket mode", () => {
+		expect(parseListenAddress("unix:/run/wopr/webui.sock", undefined, 0o660)).toEqual({
+			type: "unix",
+			path: "/run/wopr/webui.sock",
+			mode: 0o660,
+		});
+		expect(parseListenAddress("/tmp/webui.sock")).toMatchObject({ type: "unix", path: "/tmp/webui.sock" });
+	});
+
+	it("rejects relative socket paths and malformed addresses", () => {
+		expect(() => parseListenAddress("unix:webui.sock")).toThrow("socket paths must be absolute");
+		expect(() => parseListenAddress("localhost")).toThrow('Invalid listen address "localhost"');
+		expect(() => parseListenAddress("localhost:70000")).toThrow('Invalid listen address "localhost:70000"');
+	});
+});
+
+describe("parseSocketMode", () => {
+	it("parses octal modes", () => {
+		expect(parseSocketMode("660")).toBe(0o660);
+		expect(parseSocketMode("0o600")).toBe(0o600);
+		expect(parseSocketMode(undefined)).toBeUndefined();
+	});
+
+	it("rejects non-octal modes", () => {
+		expect(() => parseSocketMode("rw-rw----")).toThrow('Invalid socketMode "rw-rw----"');
+		expect(() => parseSocketMode("999")).toThrow('Invalid socketMode "999"');
+	});
+});
+
+describe("resolveConfig listen addresses", () => {
+	it("falls back to host and port", () => {
+		expect(resolveConfig({ host: "0.0.0.0", port: 8080 }).listen).toEqual([
+			{ type: "tcp", host: "0.0.0.0", port: 8080 },
+		]);
+	});
+
+	it("accepts a list or a comma separated string", () => {
+		const expected = [
+			{ type: "tcp", host: "127.0.0.1", port: 3000 },
+			{ type: "unix", path: "/run/webui.sock", mode: 0o660 },
+		];
+		expect(resolveConfig({ listen: ["127.0.0.1:3000", "unix:/run/webui.sock"], socketMode: "660" }).listen).toEqual(
+			expected,
+		);
+		expect(resolveConfig({ listen: "127.0.0.1:3000, unix:/run/webui.sock", socketMode: "660" }).listen).toEqual(
+			expected,
+		);
+	});
+
+	it("lists the TCP hosts", () => {
+		expect(tcpHosts(resolveConfig({ listen: ["127.0.0.1:3000", "10.0.0.2:3000", "/run/webui.sock"] }))).toEqual([
+			"127.0.0.1",
+			"10.0.0.2",
+		]);
+	});
+});
+
+describe("serverUrl", () => {
+	it("uses the first listen address", () => {
+		expect(serverUrl(resolveConfig({ listen: ["[::1]:3000", "10.0.0.2:3000"], basePath: "/wopr" }))).toBe(
+			"http://[::1]:3000/wopr",
+		);
+	});
+
+	it("encodes socket paths for the http+unix scheme", () => {
+		const config = resolveConfig({ listen: ["unix:/run/wopr/webui.sock"] });
+		expect(serverUrl(config)).toBe("http+unix://%2Frun%2Fwopr%2Fwebui.sock");
+		expect(formatListenAddress(config.listen[0])).toBe("unix:/run/wopr/webui.sock");
+	});
+
+	it("uses https when TLS is on", () => {
+		expect(serverUrl(resolveConfig({ tls: { mode: "self-signed" } }))).toBe("https://127.0.0.1:3000");
+	});
+});
@@ -0,0 +1,184 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	acceptKey,
+	connectDaemonSocket,
+	type DaemonSocket,
+	decodeFrame,
+	encodeClientFrame,
+} from "../src/server/daemon-socket";
+
+/** An unmasked (server to client) frame */
+function serverFrame(opcode: number, payload: string | Buffer, fin = true): Buffer {
+	const data = Buffer.from(payload);
+	const header = data.length < 126 ? Buffer.from([0, data.length]) : Buffer.from([0, 126, 0, 0]);
+	if (data.length >= 126) header.writeUInt16BE(data.length, 2);
+	header[0] = (fin ? 0x80 : 0) | opcode;
+	return Buffer.concat([header, data]);
+}
+
+describe("frame codec", () => {
+	it("computes the RFC 6455 accept key", () => {
+		expect(acceptKey("dGhlIHNhbXBsZSBub25jZQ==")).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+	});
+
+	it("masks client frames and decodes them again", () => {
+		const frame = encodeClientFrame(0x1, Buffer.from("hello"), Buffer.from([1, 2, 3, 4]));
+		expect(frame[1] & 0x80).toBe(0x80);
+		expect(frame.subarray(6).toString()).not.toBe("hello");
+		const decoded = decodeFrame(frame);
+		expect(decoded?.payload.toString()).toBe("hello");
+		expect(decoded).toMatchObject({ fin: true, opcode: 0x1, size: frame.length });
+	});
+
+	it("uses extended lengths for larger payloads", () => {
+		const medium = Buffer.alloc(300, "a");
+		const large = Buffer.alloc(70_000, "b");
+		expect(decodeFrame(encodeClientFrame(0x1, medium))?.payload).toEqual(medium);
+		expect(decodeFrame(encodeClientFrame(0x1, large))?.payload).toEqual(large);
+	});
+
+	it("waits for the whole frame", () => {
+		const frame = serverFrame(0x1, "partial");
+		expect(decodeFrame(frame.subarray(0, 1))).toBeNull();
+		expect(decodeFrame(frame.subarray(0, frame.length - 1))).toBeNull();
+	});
+});
+
+describe("connectDaemonSocket", () => {
+	let server: http.Server;
+	let port: number;
+	let daemon: Duplex;
+	let received: { opcode: number; text: string }[];
+	let handshake: (req: http.IncomingMessage, socket: Duplex) => void;
+
+	beforeEach(async () => {
+		received = [];
+		handshake = (req, socket) => {
+			socket.write(
+				"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+					`Sec-WebSocket-Accept: ${acceptKey(req.headers["sec-websocket-key"] as string)}\r\n\r\n`,
+			);
+		};
+		server = http.createServer((_req, res) => {
+			res.statusCode = 404;
+			res.end();
+		});
+		server.on("upgrade", (req, socket) => {
+			daemon = socket;
+			let buffer = Buffer.alloc(0);
+			socket.on("data", (chunk: Buffer) => {
+				buffer = Buffer.concat([buffer, chunk]);
+				for (let frame = decodeFrame(buffer); frame; frame = decodeFrame(buffer)) {
+					buffer = buffer.subarray(frame.size);
+					received.push({ opcode: frame.opcode, text: frame.payload.toString() });
+				}
+			});
+			handshake(req, socket);
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterEach(async () => {
+		daemon?.destroy();
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	const connect = () => connectDaemonSocket({ host: "127.0.0.1", port }, "/ws");
+
+	const until = async (check: () => boolean) => {
+		for (let i = 0; i < 100 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 5));
+	};
+
+	function messages(socket: DaemonSocket): string[] {
+		const texts: string[] = [];
+		socket.on("message", (text) => texts.push(text));
+		return texts;
+	}
+
+	it("sends masked text messages", async () => {
+		const socket = await connect();
+		socket.send('{"type":"ping"}');
+		await until(() => received.length > 0);
+		expect(received).toEqual([{ opcode: 0x1, text: '{"type":"ping"}' }]);
+	});
+
+	it("receives text messages, including fragmented ones", async () => {
+		const socket = await connect();
+		const texts = messages(socket);
+		daemon.write(serverFrame(0x1, "one"));
+		daemon.write(Buffer.concat([serverFrame(0x1, "tw", false), serverFrame(0x0, "o")]));
+		await until(() => texts.length === 2);
+		expect(texts).toEqual(["one", "two"]);
+	});
+
+	it("answers pings with pongs", async () => {
+		await connect();
+		daemon.write(serverFrame(0x9, "beat"));
+		await until(() => received.length > 0);
+		expect(received).toEqual([{ opcode: 0xa, text: "beat" }]);
+	});
+
+	it("sends pings and reports the pongs", async () => {
+		const socket = await connect();
+		let pongs = 0;
+		socket.on("pong", () => pongs++);
+		socket.ping();
+		await until(() => received.length > 0);
+		expect(received).toEqual([{ opcode: 0x9, text: "" }]);
+
+		daemon.write(serverFrame(0xa, ""));
+		await until(() => pongs > 0);
+		expect(pongs).toBe(1);
+	});
+
+	it("reports the daemon's close code and echoes the close frame", async () => {
+		const socket = await connect();
+		const closed = new Promise((resolve) => socket.on("close", resolve));
+		const payload = Buffer.alloc(2);
+		payload.writeUInt16BE(1001);
+		daemon.write(serverFrame(0x8, payload));
+		expect(await closed).toBe(1001);
+		await until(() => received.length > 0);
+		expect(received[0].opcode).toBe(0x8);
+	});
+
+	it("reports a dropped connection as 1006", async () => {
+		const socket = await connect();
+		const closed = new Promise((resolve) => socket.on("close", resolve));
+		daemon.destroy();
+		expect(await closed).toBe(1006);
+	});
+
+	it("rejects when the daemon refuses the upgrade", async () => {
+		handshake = (_req, socket) => socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+		await expect(connect()).rejects.toThrow("403");
+	});
+
+	it("rejects a handshake with the wrong accept key", async () => {
+		handshake = (_req, socket) => {
+			socket.write(
+				"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+					"Sec-WebSocket-Accept: nope\r\n\r\n",
+			);
+		};
+		await expect(connect()).rejects.toThrow("accept key");
+	});
+
+	it("gives up on a daemon that never answers the upgrade", async () => {
+		handshake = () => {};
+
+		await expect(connectDaemonSocket({ host: "127.0.0.1", port }, "/ws", {}, 50)).rejects.toThrow("within 50ms");
+		// The client's side is gone; the daemon sees the connection end
+		await until(() => daemon.readableEnded);
+		expect(daemon.readableEnded).toBe(true);
+	});
+
+	it("rejects when the daemon is unreachable", async () => {
+		await expect(connectDaemonSocket({ host: "127.0.0.1", port: 1 }, "/ws")).rejects.toThrow();
+	});
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from "vitest";
+import { ApiError, reportError } from "../src/lib/errors";
+
+describe("reportError", () => {
+	const handlers = () => ({ onOffline: vi.fn(), onError: vi.fn() });
+
+	it("sends an offline daemon to the banner", () => {
+		const h = handlers();
+		reportError(new ApiError("Cannot reach", { status: 0, path: "/skills", method: "GET" }), h, "Failed");
+
+		expect(h.onOffline).toHaveBeenCalled();
+		expect(h.onError).not.toHaveBeenCalled();
+	});
+
+	it("describes other errors, after the prefix when given", () => {
+		const h = handlers();
+		const err = new ApiError("Not found", { status: 404, path: "/skills/x", method: "DELETE" });
+		reportError(err, h, "Failed to uninstall skill");
+		reportError(err, h);
+
+		expect(h.onError.mock.calls).toEqual([["Failed to uninstall skill: Not found"], ["Not found"]]);
+		expect(h.onOffline).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,203 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { acceptKey, decodeFrame } from "../src/server/daemon-socket";
+import {
+	type EventStream,
+	formatSseEvent,
+	HEARTBEAT_EVENT,
+	handleEvents,
+	parseEventsQuery,
+} from "../src/server/events";
+
+describe("parseEventsQuery", () => {
+	it("reads one session per parameter", () => {
+		expect(parseEventsQuery("/events?session=main&session=ops&session=main")).toEqual({ sessions: ["main", "ops"] });
+		expect(parseEventsQuery("/events")).toEqual({ sessions: [] });
+	});
+
+	it("reads resume cursors as JSON", () => {
+		const resume = encodeURIComponent(JSON.stringify({ main: { seq: 4 } }));
+		expect(parseEventsQuery(`/events?session=main&resume=${resume}`)).toEqual({
+			sessions: ["main"],
+			resume: { main: { seq: 4 } },
+		});
+	});
+
+	it("rejects resume values that are not objects", () => {
+		expect(parseEventsQuery("/events?resume=nope")).toBeNull();
+		expect(parseEventsQuery("/events?resume=%5B%5D")).toBeNull();
+	});
+});
+
+describe("formatSseEvent", () => {
+	it("formats data and an optional event name", () => {
+		expect(formatSseEvent('{"type":"pong"}')).toBe('data: {"type":"pong"}\n\n');
+		expect(formatSseEvent("1001", "close")).toBe("event: close\ndata: 1001\n\n");
+	});
+
+	it("splits multi-line data over several fields", () => {
+		expect(formatSseEvent("a\nb")).toBe("data: a\ndata: b\n\n");
+	});
+});
+
+/** An unmasked (server to client) frame with a short payload */
+function serverFrame(opcode: number, payload: string | Buffer): Buffer {
+	const data = Buffer.from(payload);
+	return Buffer.concat([Buffer.from([0x80 | opcode, data.length]), data]);
+}
+
+describe("handleEvents", () => {
+	let daemon: http.Server;
+	let bridge: http.Server;
+	let daemonPort: number;
+	let bridgePort: number;
+	let daemonSockets: Duplex[];
+	let received: string[];
+	let pings: number;
+	let closeCodes: number[];
+	let streams: Set<EventStream>;
+	let errors: Error[];
+
+	const listen = (server: http.Server) =>
+		new Promise<number>((resolve) => {
+			server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+		});
+
+	const until = async (check: () => boolean) => {
+		for (let i = 0; i < 200 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 5));
+	};
+
+	beforeEach(async () => {
+		daemonSockets = [];
+		received = [];
+		pings = 0;
+		closeCodes = [];
+		streams = new Set();
+		errors = [];
+		daemon = http.createServer();
+		daemon.on("upgrade", (req, socket) => {
+			daemonSockets.push(socket);
+			let buffer = Buffer.alloc(0);
+			socket.on("data", (chunk: Buffer) => {
+				buffer = Buffer.concat([buffer, chunk]);
+				for (let frame = decodeFrame(buffer); frame; frame = decodeFrame(buffer)) {
+					buffer = buffer.subarray(frame.size);
+					if (frame.opcode === 0x1) received.push(frame.payload.toString());
+					if (frame.opcode === 0x8) closeCodes.push(frame.payload.readUInt16BE(0));
+					// Like any WebSocket server, answer pings without the application seeing them
+					if (frame.opcode === 0x9) {
+						pings++;
+						socket.write(serverFrame(0xa, frame.payload));
+					}
+				}
+			});
+			socket.write(
+				"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+					`Sec-WebSocket-Accept: ${acceptKey(req.headers["sec-websocket-key"] as string)}\r\n\r\n`,
+			);
+		});
+		daemonPort = await listen(daemon);
+		bridge = http.createServer((req, res) => {
+			handleEvents(req, res, { host: "127.0.0.1", port: daemonPort }, (err) => errors.push(err), streams, 50);
+		});
+		bridgePort = await listen(bridge);
+	});
+
+	afterEach(async () => {
+		for (const socket of daemonSockets) socket.destroy();
+		for (const server of [bridge, daemon]) {
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	});
+
+	function open(path: string, method = "GET") {
+		const result = { status: 0, headers: {} as http.IncomingHttpHeaders, body: "", ended: false };
+		const req = http.request({ host: "127.0.0.1", port: bridgePort, path, method }, (res) => {
+			result.status = res.statusCode ?? 0;
+			result.headers = res.headers;
+			res.on("data", (chunk) => {
+				result.body += chunk;
+			});
+			res.on("end", () => {
+				result.ended = true;
+			});
+		});
+		req.on("error", () => {});
+		req.end();
+		return { result, req };
+	}
+
+	it("subscribes to the requested sessions and relays daemon messages as SSE", async () => {
+		const resume = encodeURIComponent(JSON.stringify({ main: { seq: 2 } }));
+		const { result } = open(`/events?session=main&resume=${resume}`);
+		await until(() => received.length > 0);
+
+		expect(result.status).toBe(200);
+		expect(result.headers["content-type"]).toBe("text/event-stream; charset=utf-8");
+		expect(JSON.parse(received[0])).toEqual({ type: "subscribe", sessions: ["main"], resume: { main: { seq: 2 } } });
+		expect(streams.size).toBe(1);
+
+		daemonSockets[0].write(serverFrame(0x1, '{"type":"stream","session":"main","seq":3}'));
+		await until(() => result.body.length > 0);
+		expect(result.body).toBe('data: {"type":"stream","session":"main","seq":3}\n\n');
+	});
+
+	it("pings the daemon and passes each pong on as a heartbeat", async () => {
+		const { result } = open("/events");
+		await until(() => result.body.length > 0);
+
+		expect(pings).toBeGreaterThan(0);
+		expect(received).toEqual([]);
+		expect(result.body.startsWith(`event: ${HEARTBEAT_EVENT}\ndata: \n\n`)).toBe(true);
+	});
+
+	it("ends the stream with a close event when the daemon closes", async () => {
+		const { result } = open("/events?session=main");
+		await until(() => daemonSockets.length > 0 && result.status > 0);
+		const payload = Buffer.alloc(2);
+		payload.writeUInt16BE(1011);
+		daemonSockets[0].write(serverFrame(0x8, payload));
+		await until(() => result.ended);
+
+		expect(result.body).toBe("event: close\ndata: 1011\n\n");
+		expect(streams.size).toBe(0);
+	});
+
+	it("closes the daemon socket when the browser goes away", async () => {
+		const { result, req } = open("/events?session=main");
+		await until(() => result.status > 0);
+		req.destroy();
+		await until(() => closeCodes.length > 0);
+		expect(closeCodes).toEqual([1001]);
+		expect(streams.size).toBe(0);
+	});
+
+	it("closes open streams with the given code", async () => {
+		const { result } = open("/events?session=main");
+		await until(() => result.status > 0);
+		for (const stream of [...streams]) stream.close(1001);
+		await until(() => result.ended);
+		expect(result.body).toBe("event: close\ndata: 1001\n\n");
+	});
+
+	it("answers 502 when the daemon is unreachable", async () => {
+		await new Promise((resolve) => daemon.close(resolve));
+
+		const { result } = open("/events");
+		await until(() => result.ended);
+		expect(result.status).toBe(502);
+		expect(JSON.parse(result.body)).toEqual({ error: "WOPR daemon is unreachable", code: "DAEMON_UNREACHABLE" });
+		expect(errors).toHaveLength(1);
+	});
+
+	it("refuses other methods and malformed resume cursors", async () => {
+		const post = open("/events", "POST").result;
+		const malformed = open("/events?resume=nope").result;
+		await until(() => post.ended && malformed.ended);
+		expect(post.status).toBe(405);
+		expect(malformed.status).toBe(400);
+	});
+});
@@ -0,0 +1,167 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { checkBuild, checkDaemon, type HealthReport, handleHealth, overallStatus } from "../src/server/health";
+
+const INDEX_HTML = `<!DOCTYPE html><html><head>
+<script type="module" crossorigin src="./assets/index-abc.js"></script>
+<link rel="stylesheet" crossorigin href="./assets/index-def.css">
+<link rel="icon" href="/favicon.svg">
+</head></html>`;
+
+function listen(server: http.Server): Promise<number> {
+	return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+}
+
+/** A port nothing listens on: bind one, then release it */
+async function closedPort(): Promise<number> {
+	const server = http.createServer();
+	const port = await listen(server);
+	await new Promise((resolve) => server.close(resolve));
+	return port;
+}
+
+describe("checkBuild", () => {
+	let distDir: string;
+
+	beforeEach(() => {
+		distDir = mkdtempSync(join(tmpdir(), "webui-health-"));
+		return () => rmSync(distDir, { recursive: true, force: true });
+	});
+
+	it("reports a missing build", () => {
+		expect(checkBuild(distDir)).toEqual({ present: false, complete: false, hash: null, missing: ["index.html"] });
+	});
+
+	it("lists assets index.html references but dist/ lacks", () => {
+		writeFileSync(join(distDir, "index.html"), INDEX_HTML);
+		mkdirSync(join(distDir, "assets"));
+		writeFileSync(join(distDir, "assets", "index-abc.js"), "");
+
+		const build = checkBuild(distDir);
+		expect(build.present).toBe(true);
+		expect(build.complete).toBe(false);
+		expect(build.missing).toEqual(["assets/index-def.css"]);
+	});
+
+	it("hashes a complete build", () => {
+		writeFileSync(join(distDir, "index.html"), INDEX_HTML);
+		mkdirSync(join(distDir, "assets"));
+		writeFileSync(join(distDir, "assets", "index-abc.js"), "");
+		writeFileSync(join(distDir, "assets", "index-def.css"), "");
+
+		const build = checkBuild(distDir);
+		expect(build.complete).toBe(true);
+		expect(build.hash).toMatch(/^[0-9a-f]{12}$/);
+	});
+});
+
+describe("checkDaemon", () => {
+	it("reports a listening daemon as reachable", async () => {
+		const daemon = http.createServer();
+		const port = await listen(daemon);
+
+		const health = await checkDaemon({ host: "127.0.0.1", port });
+		await new Promise((resolve) => daemon.close(resolve));
+
+		expect(health.reachable).toBe(true);
+		expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+	});
+
+	it("reports a refused connection", async () => {
+		const health = await checkDaemon({ host: "127.0.0.1", port: await closedPort() });
+		expect(health.reachable).toBe(false);
+		expect(health.error).toMatch(/ECONNREFUSED/);
+	});
+});
+
+describe("overallStatus", () => {
+	const complete = { present: true, complete: true, hash: "abc", missing: [] };
+	const daemon = { host: "127.0.0.1", port: 7437 };
+
+	it("is ok when the build is complete and the daemon is up", () => {
+		expect(overallStatus(complete, { ...daemon, reachable: true })).toBe("ok");
+	});
+
+	it("is degraded when only the daemon is down", () => {
+		expect(overallStatus(complete, { ...daemon, reachable: false })).toBe("degraded");
+	});
+
+	it("is an error without a complete build", () => {
+		expect(overallStatus({ ...complete, complete: false }, { ...daemon, reachable: true })).toBe("error");
+	});
+});
+
+describe("handleHealth", () => {
+	let root: string;
+	let server: http.Server;
+	let port: number;
+	let daemonPort: number;
+
+	beforeAll(async () => {
+		root = mkdtempSync(join(tmpdir(), "webui-healthz-"));
+		daemonPort = await closedPort();
+		server = http.createServer((req, res) => {
+			void handleHealth(res, {
+				distDir: join(root, "dist"),
+				daemon: { host: "127.0.0.1", port: daemonPort },
+				version: "1.2.3",
+				startedAt: Date.now() - 5000,
+				connections: new Set(["a", "b"]),
+				detailed: req.url === "/healthz?detailed",
+			});
+		});
+		port = await listen(server);
+	});
+
+	afterAll(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	function check(path: string): Promise<{ status: number; report: HealthReport }> {
+		return new Promise((resolve, reject) => {
+			http
+				.get({ host: "127.0.0.1", port, path }, (res) => {
+					let body = "";
+					res.on("data", (chunk) => {
+						body += chunk;
+					});
+					res.on("end", () => resolve({ status: res.statusCode ?? 0, report: JSON.parse(body) }));
+				})
+				.on("error", reject);
+		});
+	}
+
+	it("answers 503 with the full report when the build is missing", async () => {
+		const { status, report } = await check("/healthz?detailed");
+
+		expect(status).toBe(503);
+		expect(report.status).toBe("error");
+		expect(report.version).toBe("1.2.3");
+		expect(report.uptimeSeconds).toBeGreaterThanOrEqual(5);
+		expect(report.websocket.activeConnections).toBe(2);
+		expect(report.daemon).toMatchObject({ reachable: false, port: daemonPort });
+	});
+
+	it("keeps the daemon address and build details from anonymous checks", async () => {
+		const { status, report } = await check("/healthz");
+
+		expect(status).toBe(503);
+		expect(report).toEqual({ status: "error", version: "1.2.3" });
+	});
+
+	it("answers 503 when the check itself fails", async () => {
+		// existsSync passes, readFileSync throws
+		mkdirSync(join(root, "dist", "index.html"), { recursive: true });
+
+		const { status, report } = await check("/healthz?detailed");
+
+		expect(status).toBe(503);
+		expect(report).toEqual({ status: "error", version: "1.2.3" });
+	});
+});
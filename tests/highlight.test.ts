@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { highlight, isHighlighted } from "../src/lib/highlight";
+
+const SAMPLES: Record<string, string> = {
+	ts: "const answer: number = 42; // the answer\nconst s = `multi\nline`;\n/* done */ return null;",
+	python: "def greet(name):\n    # say hi\n    return f'hi {name}' if name else None",
+	bash: 'echo "$HOME" # home\nexit 0',
+	sql: "SELECT id FROM users WHERE name = 'x' -- lookup",
+	json: '{"a": [1, 2.5, true, null]}',
+};
+
+describe("highlight", () => {
+	it("gives back the code unchanged when joined", () => {
+		for (const [lang, code] of Object.entries(SAMPLES)) {
+			expect(
+				highlight(code, lang)
+					.map((token) => token.text)
+					.join(""),
+			).toBe(code);
+		}
+	});
+
+	it("marks keywords, literals, strings, numbers and comments", () => {
+		const tokens = highlight("const x = 'a'; // note\nreturn 10 ?? null;", "ts");
+
+		expect(tokens).toContainEqual({ type: "keyword", text: "const" });
+		expect(tokens).toContainEqual({ type: "string", text: "'a'" });
+		expect(tokens).toContainEqual({ type: "comment", text: "// note" });
+		expect(tokens).toContainEqual({ type: "number", text: "10" });
+		expect(tokens).toContainEqual({ type: "literal", text: "null" });
+	});
+
+	it("matches SQL keywords in either case", () => {
+		const keywords = highlight("select 1 FROM t", "sql").filter((token) => token.type === "keyword");
+
+		expect(keywords.map((token) => token.text)).toEqual(["select", "FROM"]);
+	});
+
+	it("does not treat a # inside a shell word as a comment", () => {
+		expect(highlight("echo a#b", "sh").some((token) => token.type === "comment")).toBe(false);
+	});
+
+	it("leaves unknown languages plain", () => {
+		expect(isHighlighted("brainfuck")).toBe(false);
+		expect(isHighlighted("TypeScript")).toBe(true);
+		expect(highlight("+[->+<]", "brainfuck")).toEqual([{ type: "plain", text: "+[->+<]" }]);
+	});
+});
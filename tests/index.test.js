@@ -1,12 +1,17 @@
+import { EventEmitter } from "node:events";
 import http from "node:http";
 import { join } from "node:path";
+import { PassThrough, Readable } from "node:stream";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("node:fs", () => ({
 	existsSync: vi.fn(() => true),
 	createReadStream: vi.fn(() => ({
 		pipe: vi.fn(),
+		on: vi.fn(),
 	})),
+	statSync: vi.fn(() => ({ size: 10, mtime: new Date(0), mtimeMs: 0, isFile: () => true })),
+	readFileSync: vi.fn(() => "<!DOCTYPE html><html><head></head><body></body></html>"),
 }));
 
 function createMockContext(overrides = {}) {
@@ -23,10 +28,26 @@ function createMockContext(overrides = {}) {
 		unregisterConfigSchema: vi.fn(),
 		registerWebUiExtension: vi.fn(),
 		unregisterWebUiExtension: vi.fn(),
+		getUiComponents: vi.fn(() => []),
+		events: { on: vi.fn(() => vi.fn()) },
+		getExtension: vi.fn(),
 		...overrides,
 	};
 }
 
+// Stand-in for http.Server that binds as soon as listen() is called
+function createMockServer(handler) {
+	const server = new EventEmitter();
+	server.handler = handler;
+	server.listen = vi.fn(() => {
+		setImmediate(() => server.emit("listening"));
+		return server;
+	});
+	server.close = vi.fn((cb) => cb?.());
+	server.address = vi.fn(() => null);
+	return server;
+}
+
 // We need to get a fresh plugin for each test since it has module-level state
 async function loadPlugin() {
 	vi.resetModules();
@@ -34,7 +55,10 @@ async function loadPlugin() {
 		existsSync: vi.fn(() => true),
 		createReadStream: vi.fn(() => ({
 			pipe: vi.fn(),
+			on: vi.fn(),
 		})),
+		statSync: vi.fn(() => ({ size: 10, mtime: new Date(0), mtimeMs: 0, isFile: () => true })),
+		readFileSync: vi.fn(() => "<!DOCTYPE html><html><head></head><body></body></html>"),
 	}));
 	const mod = await import("../src/plugin.js");
 	return mod.default;
@@ -71,11 +95,7 @@ describe("webui plugin init", () => {
 	let fsMock;
 
 	beforeEach(async () => {
-		mockServer = {
-			listen: vi.fn(),
-			close: vi.fn((cb) => cb()),
-			on: vi.fn(),
-		};
+		mockServer = createMockServer();
 		vi.spyOn(http, "createServer").mockReturnValue(mockServer);
 
 		plugin = await loadPlugin();
@@ -106,14 +126,15 @@ describe("webui plugin init", () => {
 		expect(mockServer.listen).toHaveBeenCalledWith(8080, "0.0.0.0");
 	});
 
-	it("should log error and return early if dist/ does not exist", async () => {
+	it("should still start the server if dist/ has no build", async () => {
 		const ctx = createMockContext();
 		fsMock.existsSync.mockReturnValue(false);
 
 		await plugin.init(ctx);
 
-		expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("dist/ folder not found"));
-		expect(http.createServer).not.toHaveBeenCalled();
+		expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("dist/ folder has no build"));
+		expect(mockServer.listen).toHaveBeenCalledWith(3000, "127.0.0.1");
+		expect(ctx.registerWebUiExtension).toHaveBeenCalledWith(expect.objectContaining({ id: "main", degraded: true }));
 	});
 
 	it("should register web UI extension when registerWebUiExtension is available", async () => {
@@ -128,9 +149,39 @@ describe("webui plugin init", () => {
 			url: "http://127.0.0.1:3000",
 			description: "WOPR web interface",
 			category: "core",
+			degraded: false,
 		});
 	});
 
+	it("should bind every listen address and register the first", async () => {
+		const ctx = createMockContext({
+			getConfig: vi.fn(() => ({ listen: ["127.0.0.1:3000", "192.168.1.10:3001"] })),
+		});
+
+		await plugin.init(ctx);
+
+		expect(mockServer.listen).toHaveBeenCalledWith(3000, "127.0.0.1");
+		expect(mockServer.listen).toHaveBeenCalledWith(3001, "192.168.1.10");
+		expect(ctx.registerWebUiExtension).toHaveBeenCalledWith(expect.objectContaining({ url: "http://127.0.0.1:3000" }));
+		expect(plugin.manifest.requires.network.ports).toEqual([3000, 3001]);
+		expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("bound to 192.168.1.10 without authentication"));
+	});
+
+	it("should not start if a listen address cannot be bound", async () => {
+		const ctx = createMockContext();
+		mockServer.listen.mockImplementation(() => {
+			setImmediate(() => mockServer.emit("error", new Error("listen EACCES: permission denied 127.0.0.1:3000")));
+		});
+
+		await plugin.init(ctx);
+
+		expect(ctx.log.error).toHaveBeenCalledWith(
+			"Cannot bind 127.0.0.1:3000: listen EACCES: permission denied 127.0.0.1:3000",
+		);
+		expect(ctx.registerWebUiExtension).not.toHaveBeenCalled();
+		expect(ctx.unregisterConfigSchema).toHaveBeenCalledWith("wopr-plugin-webui");
+	});
+
 	it("should log the URL after starting", async () => {
 		const ctx = createMockContext();
 		fsMock.existsSync.mockReturnValue(true);
@@ -147,11 +198,7 @@ describe("webui plugin shutdown", () => {
 	let fsMock;
 
 	beforeEach(async () => {
-		mockServer = {
-			listen: vi.fn(),
-			close: vi.fn((cb) => cb()),
-			on: vi.fn(),
-		};
+		mockServer = createMockServer();
 		vi.spyOn(http, "createServer").mockReturnValue(mockServer);
 
 		plugin = await loadPlugin();
@@ -196,15 +243,12 @@ describe("HTTP server request handling", () => {
 	let requestHandler;
 	let mockRes;
 	let fsMock;
+	let ctx;
 
 	beforeEach(async () => {
 		vi.spyOn(http, "createServer").mockImplementation((handler) => {
 			requestHandler = handler;
-			return {
-				listen: vi.fn(),
-				close: vi.fn((cb) => cb()),
-				on: vi.fn(),
-			};
+			return createMockServer(handler);
 		});
 
 		plugin = await loadPlugin();
@@ -212,11 +256,12 @@ describe("HTTP server request handling", () => {
 
 		mockRes = {
 			setHeader: vi.fn(),
+			once: vi.fn(),
 			end: vi.fn(),
 			statusCode: 200,
 		};
 
-		const ctx = createMockContext();
+		ctx = createMockContext();
 		fsMock.existsSync.mockReturnValue(true);
 		await plugin.init(ctx);
 	});
@@ -227,33 +272,56 @@ describe("HTTP server request handling", () => {
 
 	it("should set security headers on every response", () => {
 		fsMock.existsSync.mockReturnValue(true);
-		fsMock.createReadStream.mockReturnValue({ pipe: vi.fn() });
+		fsMock.createReadStream.mockReturnValue({ pipe: vi.fn(), on: vi.fn() });
 
-		requestHandler({ url: "/" }, mockRes);
+		requestHandler({ url: "/", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("X-Content-Type-Options", "nosniff");
 		expect(mockRes.setHeader).toHaveBeenCalledWith("X-Frame-Options", "DENY");
-		expect(mockRes.setHeader).toHaveBeenCalledWith("X-XSS-Protection", "1; mode=block");
-		expect(mockRes.setHeader).toHaveBeenCalledWith("Access-Control-Allow-Origin", "*");
+		expect(mockRes.setHeader).toHaveBeenCalledWith("Referrer-Policy", "no-referrer");
+		expect(mockRes.setHeader).toHaveBeenCalledWith("Cross-Origin-Opener-Policy", "same-origin");
+		expect(mockRes.setHeader).toHaveBeenCalledWith("Permissions-Policy", expect.stringContaining("camera=()"));
+		expect(mockRes.setHeader).not.toHaveBeenCalledWith("X-XSS-Protection", expect.anything());
+	});
+
+	it("should allow registered plugin component origins in the CSP", () => {
+		fsMock.existsSync.mockReturnValue(true);
+		fsMock.createReadStream.mockReturnValue({ pipe: vi.fn(), on: vi.fn() });
+		ctx.getUiComponents.mockReturnValue([
+			{ id: "widget", title: "Widget", moduleUrl: "https://plugins.example.com/widget.js", slot: "sidebar" },
+		]);
+
+		requestHandler({ url: "/", headers: {} }, mockRes);
+
+		const csp = mockRes.setHeader.mock.calls.find(([name]) => name === "Content-Security-Policy")?.[1];
+		expect(csp).toContain("script-src 'self' https://plugins.example.com");
+		expect(csp).toContain("frame-ancestors 'none'");
+	});
+
+	it("should not send a wildcard CORS header", () => {
+		fsMock.existsSync.mockReturnValue(true);
+		fsMock.createReadStream.mockReturnValue({ pipe: vi.fn(), on: vi.fn() });
+
+		requestHandler({ url: "/", headers: {} }, mockRes);
+
+		expect(mockRes.setHeader).not.toHaveBeenCalledWith("Access-Control-Allow-Origin", "*");
 	});
 
 	it("should serve index.html for root path /", () => {
 		fsMock.existsSync.mockReturnValue(true);
-		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
 
-		requestHandler({ url: "/" }, mockRes);
+		requestHandler({ url: "/", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "text/html");
-		expect(mockPipe).toHaveBeenCalledWith(mockRes);
+		expect(String(mockRes.end.mock.calls[0][0])).toContain('<base href="/">');
 	});
 
 	it("should serve correct content-type for .js files", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/assets/app.js" }, mockRes);
+		requestHandler({ url: "/assets/app.js", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "application/javascript");
 	});
@@ -261,9 +329,9 @@ describe("HTTP server request handling", () => {
 	it("should serve correct content-type for .css files", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/assets/style.css" }, mockRes);
+		requestHandler({ url: "/assets/style.css", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "text/css");
 	});
@@ -271,9 +339,9 @@ describe("HTTP server request handling", () => {
 	it("should serve correct content-type for .svg files", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/icon.svg" }, mockRes);
+		requestHandler({ url: "/icon.svg", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "image/svg+xml");
 	});
@@ -281,9 +349,9 @@ describe("HTTP server request handling", () => {
 	it("should serve correct content-type for .json files", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/manifest.json" }, mockRes);
+		requestHandler({ url: "/manifest.json", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "application/json");
 	});
@@ -291,9 +359,9 @@ describe("HTTP server request handling", () => {
 	it("should serve correct content-type for .png files", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/logo.png" }, mockRes);
+		requestHandler({ url: "/logo.png", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "image/png");
 	});
@@ -301,9 +369,9 @@ describe("HTTP server request handling", () => {
 	it("should use application/octet-stream for unknown extensions", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/data.xyz" }, mockRes);
+		requestHandler({ url: "/data.xyz", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "application/octet-stream");
 	});
@@ -311,9 +379,9 @@ describe("HTTP server request handling", () => {
 	it("should serve index.html for paths without extension (client-side routing)", () => {
 		fsMock.existsSync.mockReturnValue(true);
 		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
+		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe, on: vi.fn() });
 
-		requestHandler({ url: "/settings" }, mockRes);
+		requestHandler({ url: "/settings", headers: {} }, mockRes);
 
 		// Non-extension paths should map to /index.html
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "text/html");
@@ -322,7 +390,7 @@ describe("HTTP server request handling", () => {
 	it("should return 404 when file does not exist and no index.html fallback", () => {
 		fsMock.existsSync.mockReturnValue(false);
 
-		requestHandler({ url: "/missing.js" }, mockRes);
+		requestHandler({ url: "/missing.js", headers: {} }, mockRes);
 
 		expect(mockRes.statusCode).toBe(404);
 		expect(mockRes.end).toHaveBeenCalledWith("Not found");
@@ -333,22 +401,604 @@ describe("HTTP server request handling", () => {
 		const indexPath = join(distDir, "index.html");
 
 		fsMock.existsSync.mockImplementation((path) => path === indexPath);
-		const mockPipe = vi.fn();
-		fsMock.createReadStream.mockReturnValue({ pipe: mockPipe });
 
-		requestHandler({ url: "/nonexistent.js" }, mockRes);
+		requestHandler({ url: "/nonexistent.js", headers: {} }, mockRes);
 
 		expect(mockRes.setHeader).toHaveBeenCalledWith("Content-Type", "text/html");
-		expect(mockPipe).toHaveBeenCalledWith(mockRes);
+		expect(fsMock.readFileSync).toHaveBeenCalledWith(indexPath, "utf8");
+	});
+
+	it("should forward /api requests to the daemon instead of serving files", () => {
+		const upstream = { on: vi.fn() };
+		vi.spyOn(http, "request").mockReturnValue(upstream);
+		const req = { url: "/api/sessions", method: "GET", headers: {}, socket: {}, pipe: vi.fn() };
+		mockRes.on = vi.fn();
+
+		requestHandler(req, mockRes);
+
+		expect(http.request).toHaveBeenCalledWith(
+			expect.objectContaining({ host: "127.0.0.1", port: 7437, method: "GET", path: "/sessions" }),
+			expect.any(Function),
+		);
+		expect(req.pipe).toHaveBeenCalledWith(upstream);
+		expect(fsMock.createReadStream).not.toHaveBeenCalled();
 	});
 
 	it("should return 403 for directory traversal attempts", () => {
 		fsMock.existsSync.mockReturnValue(true);
 
 		// URL must have an extension so it won't be rewritten to /index.html
-		requestHandler({ url: "/../../../etc/shadow.txt" }, mockRes);
+		requestHandler({ url: "/../../../etc/shadow.txt", headers: {} }, mockRes);
 
 		expect(mockRes.statusCode).toBe(403);
 		expect(mockRes.end).toHaveBeenCalledWith("Forbidden");
 	});
 });
+
+describe("HTTP server under a base path", () => {
+	let plugin;
+	let requestHandler;
+	let upgradeHandler;
+	let mockRes;
+	let ctx;
+
+	beforeEach(async () => {
+		vi.spyOn(http, "createServer").mockImplementation((handler) => {
+			requestHandler = handler;
+			const server = createMockServer(handler);
+			server.on("newListener", (event, listener) => {
+				if (event === "upgrade") upgradeHandler = listener;
+			});
+			return server;
+		});
+
+		plugin = await loadPlugin();
+		mockRes = {
+			setHeader: vi.fn(),
+			once: vi.fn(),
+			end: vi.fn(),
+			statusCode: 200,
+		};
+
+		ctx = createMockContext({ getConfig: vi.fn(() => ({ basePath: "/wopr/" })) });
+		await plugin.init(ctx);
+	});
+
+	afterEach(async () => {
+		await plugin.shutdown();
+		vi.restoreAllMocks();
+	});
+
+	it("should register the extension URL under the base path", () => {
+		expect(ctx.registerWebUiExtension).toHaveBeenCalledWith(
+			expect.objectContaining({ url: "http://127.0.0.1:3000/wopr" }),
+		);
+	});
+
+	it("should inject the base path into index.html", () => {
+		requestHandler({ url: "/wopr/", headers: {} }, mockRes);
+
+		expect(String(mockRes.end.mock.calls[0][0])).toContain('<base href="/wopr/">');
+	});
+
+	it("should redirect the bare base path to its trailing-slash form", () => {
+		requestHandler({ url: "/wopr?tab=1", headers: {} }, mockRes);
+
+		expect(mockRes.statusCode).toBe(301);
+		expect(mockRes.setHeader).toHaveBeenCalledWith("Location", "/wopr/?tab=1");
+	});
+
+	it("should return 404 outside the base path", () => {
+		requestHandler({ url: "/index.html", headers: {} }, mockRes);
+
+		expect(mockRes.statusCode).toBe(404);
+	});
+
+	it("should forward prefixed /api requests with the base path stripped", () => {
+		const upstream = { on: vi.fn() };
+		vi.spyOn(http, "request").mockReturnValue(upstream);
+		const req = { url: "/wopr/api/sessions?x=1", method: "GET", headers: {}, socket: {}, pipe: vi.fn() };
+		mockRes.on = vi.fn();
+
+		requestHandler(req, mockRes);
+
+		expect(http.request).toHaveBeenCalledWith(expect.objectContaining({ path: "/sessions?x=1" }), expect.any(Function));
+	});
+
+	it("should refuse WebSocket upgrades outside the base path", () => {
+		const socket = { on: vi.fn(), destroy: vi.fn() };
+
+		upgradeHandler({ url: "/ws", headers: {} }, socket, Buffer.alloc(0));
+
+		expect(socket.destroy).toHaveBeenCalled();
+	});
+
+	it("should answer health checks at the root and under the base path", async () => {
+		for (const url of ["/healthz", "/wopr/healthz"]) {
+			const res = { setHeader: vi.fn(), once: vi.fn(), end: vi.fn(), statusCode: 200 };
+			requestHandler({ url, headers: {} }, res);
+			await vi.waitFor(() => expect(res.end).toHaveBeenCalled());
+			expect(JSON.parse(res.end.mock.calls[0][0])).toMatchObject({ status: expect.any(String), version: "0.2.0" });
+		}
+	});
+
+	it("should point the CSP report URI under the base path", () => {
+		requestHandler({ url: "/wopr/", headers: {} }, mockRes);
+
+		const csp = mockRes.setHeader.mock.calls.find(([name]) => name === "Content-Security-Policy")?.[1];
+		expect(csp).toContain("report-uri /wopr/csp-report");
+	});
+});
+
+describe("bootstrap and health documents", () => {
+	let plugin;
+	let requestHandler;
+	let mockRes;
+
+	beforeEach(async () => {
+		vi.spyOn(http, "createServer").mockImplementation((handler) => {
+			requestHandler = handler;
+			return createMockServer(handler);
+		});
+
+		plugin = await loadPlugin();
+		mockRes = {
+			setHeader: vi.fn(),
+			once: vi.fn(),
+			end: vi.fn(),
+			statusCode: 200,
+		};
+	});
+
+	afterEach(async () => {
+		await plugin.shutdown();
+		vi.restoreAllMocks();
+	});
+
+	it("should describe the deployment at /webui-config.json", async () => {
+		await plugin.init(
+			createMockContext({
+				getConfig: vi.fn(() => ({ basePath: "/wopr", features: { webmcp: false } })),
+			}),
+		);
+
+		requestHandler({ url: "/wopr/webui-config.json", headers: {}, method: "GET" }, mockRes);
+
+		expect(mockRes.setHeader).toHaveBeenCalledWith("Cache-Control", "no-store");
+		expect(JSON.parse(mockRes.end.mock.calls[0][0])).toEqual({
+			version: "0.2.0",
+			basePath: "/wopr",
+			apiUrl: "/wopr/api",
+			wsUrl: "/wopr/ws",
+			eventsUrl: "/wopr/events",
+			authMode: "none",
+			features: { webmcp: false, pluginComponents: true },
+		});
+	});
+
+	it("should answer health checks without a session", async () => {
+		await plugin.init(createMockContext({ getConfig: vi.fn(() => ({ authMode: "token", authToken: "t" })) }));
+
+		requestHandler({ url: "/healthz", headers: {}, method: "GET" }, mockRes);
+
+		await vi.waitFor(() => expect(mockRes.end).toHaveBeenCalled());
+		expect(mockRes.statusCode).not.toBe(401);
+		expect(JSON.parse(mockRes.end.mock.calls[0][0])).not.toHaveProperty("daemon");
+	});
+
+	it("should give the full health report to everyone when auth is off and no metrics token is set", async () => {
+		await plugin.init(createMockContext({ getConfig: vi.fn(() => ({})) }));
+
+		requestHandler({ url: "/healthz", headers: {}, method: "GET" }, mockRes);
+
+		await vi.waitFor(() => expect(mockRes.end).toHaveBeenCalled());
+		expect(JSON.parse(mockRes.end.mock.calls[0][0])).toHaveProperty("daemon");
+	});
+
+	it("should give the full health report to holders of the metrics token", async () => {
+		await plugin.init(createMockContext({ getConfig: vi.fn(() => ({ metrics: { token: "scrape" } })) }));
+
+		requestHandler({ url: "/healthz", headers: { authorization: "Bearer scrape" }, method: "GET" }, mockRes);
+
+		await vi.waitFor(() => expect(mockRes.end).toHaveBeenCalled());
+		expect(JSON.parse(mockRes.end.mock.calls[0][0])).toMatchObject({
+			websocket: { activeConnections: 0 },
+			daemon: expect.objectContaining({ host: expect.any(String) }),
+		});
+	});
+
+	it("should require a session when auth is enabled", async () => {
+		await plugin.init(createMockContext({ getConfig: vi.fn(() => ({ authMode: "token", authToken: "t" })) }));
+
+		requestHandler({ url: "/webui-config.json", headers: {}, method: "GET" }, mockRes);
+
+		expect(mockRes.statusCode).toBe(401);
+	});
+});
+
+describe("config hot reload", () => {
+	let plugin;
+	let servers;
+	let busyPorts;
+	let config;
+	let ctx;
+
+	function fakeServer(handler) {
+		const server = createMockServer(handler);
+		server.listen = vi.fn((port, host) => {
+			setImmediate(() => {
+				if (busyPorts.has(port) || busyPorts.has(`${host}:${port}`)) {
+					server.emit(
+						"error",
+						Object.assign(new Error(`listen EADDRINUSE: address already in use ${host}:${port}`), {
+							code: "EADDRINUSE",
+						}),
+					);
+				} else {
+					// Port 0 gets an ephemeral port, as from the OS
+					server.port = port || 49152;
+					server.emit("listening");
+				}
+			});
+			return server;
+		});
+		server.address = vi.fn(() => (server.port ? { address: "127.0.0.1", family: "IPv4", port: server.port } : null));
+		return server;
+	}
+
+	function changeConfig(next) {
+		config = next;
+		const [, listener] = ctx.events.on.mock.calls.find(([event]) => event === "config:change");
+		return listener({ key: "plugins.wopr-plugin-webui", oldValue: undefined, newValue: next });
+	}
+
+	beforeEach(async () => {
+		servers = [];
+		busyPorts = new Set();
+		config = {};
+		vi.spyOn(http, "createServer").mockImplementation((handler) => {
+			const server = fakeServer(handler);
+			servers.push(server);
+			return server;
+		});
+
+		plugin = await loadPlugin();
+		ctx = createMockContext({ getConfig: vi.fn(() => config) });
+		await plugin.init(ctx);
+	});
+
+	afterEach(async () => {
+		await plugin.shutdown();
+		vi.restoreAllMocks();
+	});
+
+	it("should move the server to a new port and re-register the extension", async () => {
+		await changeConfig({ port: 4000 });
+
+		expect(servers).toHaveLength(2);
+		expect(servers[1].listen).toHaveBeenCalledWith(4000, "127.0.0.1");
+		expect(servers[0].close).toHaveBeenCalled();
+		expect(ctx.unregisterWebUiExtension).toHaveBeenCalledWith("main");
+		expect(ctx.registerWebUiExtension).toHaveBeenLastCalledWith(
+			expect.objectContaining({ id: "main", url: "http://127.0.0.1:4000" }),
+		);
+	});
+
+	it("should keep the old binding when the new port is in use", async () => {
+		busyPorts.add(4000);
+
+		await changeConfig({ port: 4000, features: { webmcp: false } });
+
+		expect(servers[0].close).not.toHaveBeenCalled();
+		expect(ctx.unregisterWebUiExtension).not.toHaveBeenCalled();
+		expect(ctx.log.error).toHaveBeenCalledWith(
+			expect.stringMatching(/^Cannot bind 127\.0\.0\.1:4000: .*EADDRINUSE.*; still serving at 127\.0\.0\.1:3000$/),
+		);
+
+		// None of the other changes were applied either
+		const res = { setHeader: vi.fn(), once: vi.fn(), end: vi.fn(), statusCode: 200 };
+		servers[0].handler({ url: "/webui-config.json", headers: {}, method: "GET" }, res);
+		expect(JSON.parse(res.end.mock.calls[0][0]).features.webmcp).toBe(true);
+	});
+
+	it("should apply other settings without rebinding", async () => {
+		await changeConfig({ features: { webmcp: false } });
+
+		expect(servers).toHaveLength(1);
+		const res = { setHeader: vi.fn(), once: vi.fn(), end: vi.fn(), statusCode: 200 };
+		servers[0].handler({ url: "/webui-config.json", headers: {}, method: "GET" }, res);
+		expect(JSON.parse(res.end.mock.calls[0][0]).features.webmcp).toBe(false);
+	});
+
+	it("should keep the previous settings when the new config is invalid", async () => {
+		await changeConfig({ basePath: "/../etc" });
+
+		expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("keeping the previous settings"));
+		const res = { setHeader: vi.fn(), once: vi.fn(), end: vi.fn(), statusCode: 200 };
+		servers[0].handler({ url: "/webui-config.json", headers: {}, method: "GET" }, res);
+		expect(JSON.parse(res.end.mock.calls[0][0]).basePath).toBe("");
+	});
+
+	it("should ignore changes to other plugins", async () => {
+		config = { port: 4000 };
+		const [, listener] = ctx.events.on.mock.calls[0];
+		await listener({ key: "port", oldValue: 1, newValue: 2, plugin: "wopr-plugin-discord" });
+
+		expect(servers).toHaveLength(1);
+	});
+
+	it("should add a listen address without dropping the existing one", async () => {
+		await changeConfig({ listen: ["127.0.0.1:3000", "10.0.0.2:3000"] });
+
+		expect(servers).toHaveLength(2);
+		expect(servers[1].listen).toHaveBeenCalledWith(3000, "10.0.0.2");
+		expect(servers[0].close).not.toHaveBeenCalled();
+		expect(ctx.unregisterWebUiExtension).not.toHaveBeenCalled();
+		expect(ctx.log.info).toHaveBeenCalledWith("Web UI listening on 127.0.0.1:3000, 10.0.0.2:3000");
+	});
+
+	it("should register the port actually bound", async () => {
+		await changeConfig({ listen: ["127.0.0.1:0"] });
+
+		expect(ctx.registerWebUiExtension).toHaveBeenLastCalledWith(
+			expect.objectContaining({ url: "http://127.0.0.1:49152" }),
+		);
+		expect(plugin.manifest.requires.network.ports).toEqual([49152]);
+	});
+
+	it("should release the old listener before binding the same port on a new host", async () => {
+		await changeConfig({ host: "0.0.0.0" });
+
+		expect(servers[0].close.mock.invocationCallOrder[0]).toBeLessThan(servers[1].listen.mock.invocationCallOrder[0]);
+		expect(ctx.registerWebUiExtension).toHaveBeenLastCalledWith(
+			expect.objectContaining({ url: "http://0.0.0.0:3000" }),
+		);
+	});
+
+	it("should rebind the released listener when its replacement fails", async () => {
+		busyPorts.add("0.0.0.0:3000");
+
+		await changeConfig({ host: "0.0.0.0" });
+
+		expect(servers[0].listen).toHaveBeenCalledTimes(2);
+		expect(servers[0].listen).toHaveBeenLastCalledWith(3000, "127.0.0.1");
+		expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("still serving at 127.0.0.1:3000"));
+		expect(ctx.unregisterWebUiExtension).not.toHaveBeenCalled();
+	});
+
+	it("should unsubscribe on shutdown", async () => {
+		const unsubscribe = ctx.events.on.mock.results[0].value;
+
+		await plugin.shutdown();
+
+		expect(unsubscribe).toHaveBeenCalled();
+	});
+});
+
+describe("maintenance mode", () => {
+	let plugin;
+	let requestHandler;
+	let fsMock;
+	let ctx;
+
+	function request(url, method = "GET") {
+		const res = { setHeader: vi.fn(), once: vi.fn(), end: vi.fn(), statusCode: 200 };
+		requestHandler({ url, headers: {}, method }, res);
+		return res;
+	}
+
+	beforeEach(async () => {
+		vi.spyOn(http, "createServer").mockImplementation((handler) => {
+			requestHandler = handler;
+			return createMockServer(handler);
+		});
+
+		plugin = await loadPlugin();
+		fsMock = await import("node:fs");
+		fsMock.existsSync.mockReturnValue(false);
+		ctx = createMockContext();
+		await plugin.init(ctx);
+	});
+
+	afterEach(async () => {
+		await plugin.shutdown();
+		vi.restoreAllMocks();
+	});
+
+	it("should serve the maintenance page for dashboard routes", () => {
+		const res = request("/sessions");
+
+		expect(res.statusCode).toBe(503);
+		expect(res.setHeader).toHaveBeenCalledWith("Content-Type", "text/html; charset=utf-8");
+		expect(res.end.mock.calls[0][0]).toContain("WOPR Web UI is not built");
+		expect(res.end.mock.calls[0][0]).toContain("0.2.0");
+		expect(res.end.mock.calls[0][0]).toContain("npm run build:ui");
+	});
+
+	it("should clear the degraded flag once a build appears", () => {
+		fsMock.existsSync.mockReturnValue(true);
+
+		request("/");
+
+		expect(ctx.registerWebUiExtension).toHaveBeenLastCalledWith(expect.objectContaining({ degraded: false }));
+		expect(ctx.unregisterWebUiExtension).toHaveBeenCalledWith("main");
+	});
+
+	it("should not offer a rebuild endpoint", () => {
+		expect(request("/rebuild", "POST").statusCode).toBe(503);
+	});
+
+	it("should still serve the bootstrap document", () => {
+		const res = request("/webui-config.json");
+
+		expect(res.statusCode).toBe(200);
+	});
+});
+
+describe("access logs and rate limits", () => {
+	let plugin;
+	let requestHandler;
+	let ctx;
+
+	function createRes() {
+		const res = new EventEmitter();
+		res.statusCode = 200;
+		res.headers = {};
+		res.setHeader = vi.fn((name, value) => {
+			res.headers[name.toLowerCase()] = value;
+		});
+		res.end = vi.fn(() => {
+			res.writableFinished = true;
+			res.emit("close");
+		});
+		return res;
+	}
+
+	function request(url, { method = "GET", headers = {}, body = "" } = {}) {
+		const req = Readable.from(body ? [Buffer.from(body)] : []);
+		Object.assign(req, { url, method, headers, socket: { remoteAddress: "::ffff:10.0.0.5" } });
+		const res = createRes();
+		requestHandler(req, res);
+		return res;
+	}
+
+	async function start(config) {
+		ctx = createMockContext({ getConfig: vi.fn(() => config) });
+		await plugin.init(ctx);
+	}
+
+	beforeEach(async () => {
+		vi.spyOn(http, "createServer").mockImplementation((handler) => {
+			requestHandler = handler;
+			return createMockServer(handler);
+		});
+		plugin = await loadPlugin();
+	});
+
+	afterEach(async () => {
+		await plugin.shutdown();
+		vi.restoreAllMocks();
+	});
+
+	it("should log each request with the client IP and signed-in user", async () => {
+		await start({ authMode: "token", authToken: "secret" });
+		const login = request("/login", {
+			method: "POST",
+			headers: { "content-type": "application/x-www-form-urlencoded" },
+			body: "token=secret",
+		});
+		await vi.waitFor(() => expect(login.end).toHaveBeenCalled());
+		const cookie = login.headers["set-cookie"].split(";")[0];
+
+		request("/webui-config.json?v=1", { headers: { cookie } });
+
+		expect(ctx.log.info).toHaveBeenCalledWith(
+			expect.stringMatching(/^10\.0\.0\.5 token "GET \/webui-config\.json" 200 \d+ms$/),
+			expect.objectContaining({
+				method: "GET",
+				path: "/webui-config.json",
+				status: 200,
+				ip: "10.0.0.5",
+				user: "token",
+			}),
+		);
+	});
+
+	it("should only log sampled-out requests when they fail", async () => {
+		await start({ accessLog: { sampleRate: 0 }, authMode: "token", authToken: "secret" });
+
+		request("/healthz");
+		request("/login");
+		request("/webui-config.json");
+
+		const logged = ctx.log.info.mock.calls.filter(([, entry]) => entry?.path);
+		expect(logged).toEqual([[expect.stringContaining('"GET /webui-config.json" 401'), expect.anything()]]);
+	});
+
+	it("should limit login attempts per client", async () => {
+		await start({ authMode: "token", authToken: "secret", rateLimit: { loginBurst: 2, loginPerMinute: 1 } });
+		const attempt = () =>
+			request("/login", {
+				method: "POST",
+				headers: { "content-type": "application/x-www-form-urlencoded" },
+				body: "token=guess",
+			});
+
+		const first = attempt();
+		const second = attempt();
+		const third = attempt();
+
+		expect(third.statusCode).toBe(429);
+		expect(third.headers["retry-after"]).toBe("60");
+		await vi.waitFor(() => expect(second.end).toHaveBeenCalled());
+		expect([first.statusCode, second.statusCode]).toEqual([401, 401]);
+	});
+
+	it("should limit daemon API calls per client", async () => {
+		await start({ rateLimit: { apiBurst: 1, apiPerMinute: 30 } });
+		vi.spyOn(http, "request").mockImplementation(() => new PassThrough());
+
+		request("/api/sessions");
+		const limited = request("/api/sessions");
+
+		expect(http.request).toHaveBeenCalledTimes(1);
+		expect(limited.statusCode).toBe(429);
+		expect(limited.headers["retry-after"]).toBe("2");
+	});
+
+	it("should limit CSP reports per client", async () => {
+		await start({ rateLimit: { apiBurst: 1, apiPerMinute: 30 } });
+		const report = () =>
+			request("/csp-report", {
+				method: "POST",
+				body: JSON.stringify({ "csp-report": { "violated-directive": "img-src", "blocked-uri": "data" } }),
+			});
+
+		const first = report();
+		const limited = report();
+
+		expect(limited.statusCode).toBe(429);
+		await vi.waitFor(() => expect(first.end).toHaveBeenCalled());
+		expect(first.statusCode).toBe(204);
+	});
+
+	it("should serve metrics to scrapers with the metrics token", async () => {
+		await start({ metrics: { token: "scrape" } });
+
+		const denied = request("/metrics");
+		const scraped = request("/metrics", { headers: { authorization: "Bearer scrape" } });
+
+		expect(denied.statusCode).toBe(401);
+		expect(scraped.statusCode).toBe(200);
+		expect(scraped.headers["content-type"]).toMatch(/^text\/plain; version=0\.0\.4/);
+		expect(scraped.end).toHaveBeenCalledWith(
+			expect.stringContaining('wopr_webui_http_requests_total{route="metrics",method="GET",status="401"} 1'),
+		);
+	});
+
+	it("should not serve metrics when they are disabled", async () => {
+		await start({ metrics: { enabled: false } });
+
+		const res = request("/metrics");
+
+		expect(res.headers["content-type"]).not.toMatch(/^text\/plain/);
+	});
+
+	it("should list UI components with same-origin module URLs", async () => {
+		await start({ basePath: "/wopr" });
+		ctx.getUiComponents.mockReturnValue([
+			{ id: "panel", title: "Panel", slot: "sidebar", moduleUrl: "/fake/plugin/wopr-plugin-foo/dist/ui.js" },
+			{ id: "remote", title: "Remote", slot: "settings", moduleUrl: "https://cdn.example.com/ui.js" },
+		]);
+		vi.spyOn(http, "request");
+
+		const res = request("/wopr/api/plugins/components");
+
+		expect(http.request).not.toHaveBeenCalled();
+		expect(JSON.parse(res.end.mock.calls[0][0]).components.map((c) => c.moduleUrl)).toEqual([
+			"/wopr/plugin-assets/wopr-plugin-foo/dist/ui.js",
+			"https://cdn.example.com/ui.js",
+		]);
+		expect(res.headers["content-security-policy"]).toContain("script-src 'self' https://cdn.example.com;");
+	});
+});
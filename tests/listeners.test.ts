@@ -0,0 +1,100 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, statSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import type net from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { bindServer, listenKey, removeStaleSocket } from "../src/server/listeners";
+
+describe("listeners", () => {
+	let dir: string;
+	const servers: net.Server[] = [];
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "webui-listeners-"));
+	});
+
+	afterEach(async () => {
+		for (const server of servers.splice(0)) {
+			if (server.listening) await new Promise((resolve) => server.close(resolve));
+		}
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	function createServer(): http.Server {
+		const server = http.createServer((_req, res) => res.end("ok"));
+		servers.push(server);
+		return server;
+	}
+
+	it("reports the real port when binding port 0", async () => {
+		const server = createServer();
+
+		const bound = await bindServer(server, { type: "tcp", host: "127.0.0.1", port: 0 });
+
+		expect(bound.type === "tcp" && bound.port).toBeGreaterThan(0);
+		expect(bound).toEqual({ type: "tcp", host: "127.0.0.1", port: (server.address() as net.AddressInfo).port });
+	});
+
+	it("rejects when the address is in use", async () => {
+		const first = createServer();
+		const bound = await bindServer(first, { type: "tcp", host: "127.0.0.1", port: 0 });
+
+		await expect(bindServer(createServer(), bound)).rejects.toThrow("EADDRINUSE");
+	});
+
+	it("binds a Unix socket with its file mode", async () => {
+		const path = join(dir, "webui.sock");
+
+		await bindServer(createServer(), { type: "unix", path, mode: 0o600 });
+
+		expect(statSync(path).isSocket()).toBe(true);
+		expect(statSync(path).mode & 0o777).toBe(0o600);
+		const body = await new Promise<string>((resolve) => {
+			http.get({ socketPath: path, path: "/" }, (res) => {
+				let text = "";
+				res.on("data", (chunk) => {
+					text += chunk;
+				});
+				res.on("end", () => resolve(text));
+			});
+		});
+		expect(body).toBe("ok");
+	});
+
+	it("replaces a socket file left behind by a dead server", async () => {
+		const path = join(dir, "webui.sock");
+		// A server killed outright leaves its socket file behind
+		spawnSync(process.execPath, [
+			"-e",
+			`require("node:net").createServer().listen(${JSON.stringify(path)}, () => process.kill(process.pid, "SIGKILL"))`,
+		]);
+		expect(statSync(path).isSocket()).toBe(true);
+
+		await bindServer(createServer(), { type: "unix", path });
+
+		expect(statSync(path).isSocket()).toBe(true);
+	});
+
+	it("leaves live sockets and other files alone", async () => {
+		const live = join(dir, "live.sock");
+		await bindServer(createServer(), { type: "unix", path: live });
+		const file = join(dir, "not-a-socket");
+		writeFileSync(file, "data");
+
+		await removeStaleSocket(live);
+		await removeStaleSocket(file);
+
+		expect(statSync(live).isSocket()).toBe(true);
+		expect(statSync(file).isFile()).toBe(true);
+		await expect(bindServer(createServer(), { type: "unix", path: live })).rejects.toThrow("EADDRINUSE");
+	});
+
+	it("keys addresses without the socket mode", () => {
+		expect(listenKey({ type: "unix", path: "/run/webui.sock", mode: 0o660 })).toBe(
+			listenKey({ type: "unix", path: "/run/webui.sock" }),
+		);
+		expect(listenKey({ type: "tcp", host: "::1", port: 3000 })).toBe("[::1]:3000");
+	});
+});
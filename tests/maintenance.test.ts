@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { renderMaintenancePage } from "../src/server/maintenance";
+
+const baseOptions = {
+	version: "1.2.3",
+	settings: { URL: "http://127.0.0.1:3000/wopr", Daemon: "127.0.0.1:7437" },
+};
+
+describe("renderMaintenancePage", () => {
+	it("shows the version and settings", () => {
+		const html = renderMaintenancePage(baseOptions);
+
+		expect(html).toContain("<td>1.2.3</td>");
+		expect(html).toContain("<th>Daemon</th><td>127.0.0.1:7437</td>");
+	});
+
+	it("escapes setting values", () => {
+		const html = renderMaintenancePage({ ...baseOptions, settings: { Host: "<script>" } });
+
+		expect(html).toContain("&lt;script&gt;");
+		expect(html).not.toContain("<script>");
+	});
+
+	it("explains how to build", () => {
+		const html = renderMaintenancePage(baseOptions);
+
+		expect(html).toContain("<pre>npm run build:ui</pre>");
+		expect(html).not.toContain("<form");
+	});
+});
@@ -44,6 +44,7 @@ describe("api.getPluginManifests", () => {
 		const result = await api.getPluginManifests();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/manifests", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(manifests);
@@ -68,6 +69,7 @@ describe("api.pollPluginEndpoint", () => {
 		const result = await api.pollPluginEndpoint("@wopr-network/plugin-discord", "/healthz");
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/%40wopr-network%2Fplugin-discord/proxy/healthz", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(data);
@@ -88,6 +90,7 @@ describe("api.getPluginConfig", () => {
 		const result = await api.getPluginConfig("@wopr-network/plugin-discord");
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/%40wopr-network%2Fplugin-discord/config", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(config);
@@ -103,6 +106,7 @@ describe("api.setPluginConfigValue", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/%40wopr-network%2Fplugin-discord/config/guildId", {
 			method: "PUT",
 			body: JSON.stringify({ value: "99999" }),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import {
+	type Block,
+	type Inline,
+	type ParsedMarkdown,
+	parseBlocks,
+	parseInline,
+	parseMarkdown,
+	reuseBlocks,
+	safeHref,
+} from "../src/lib/markdown";
+
+const types = (blocks: Block[]) => blocks.map((block) => block.type);
+
+describe("safeHref", () => {
+	it("keeps web, mail and relative links", () => {
+		expect(safeHref("https://example.com/a?b=c")).toBe("https://example.com/a?b=c");
+		expect(safeHref("mailto:ops@example.com")).toBe("mailto:ops@example.com");
+		expect(safeHref("/wopr/sessions")).toBe("/wopr/sessions");
+	});
+
+	it("rejects script, data and protocol-relative links", () => {
+		expect(safeHref("javascript:alert(1)")).toBeNull();
+		expect(safeHref("JavaScript:alert(1)")).toBeNull();
+		expect(safeHref("java\tscript:alert(1)")).toBeNull();
+		expect(safeHref("data:text/html,<script>alert(1)</script>")).toBeNull();
+		expect(safeHref("//evil.example")).toBeNull();
+	});
+});
+
+describe("parseBlocks", () => {
+	it("splits headings, paragraphs, rules and quotes", () => {
+		const blocks = parseBlocks("# Title\n\nSome text\nmore text\n\n---\n\n> quoted");
+
+		expect(types(blocks)).toEqual(["heading", "paragraph", "rule", "blockquote"]);
+		expect(blocks[0]).toMatchObject({ level: 1, children: [{ type: "text", text: "Title" }] });
+		expect(blocks[1]).toMatchObject({ children: [{ type: "text", text: "Some text\nmore text" }] });
+	});
+
+	it("reads fenced code with its language", () => {
+		const [block] = parseBlocks("```ts\nconst a = 1;\n```");
+
+		expect(block).toMatchObject({ type: "code", lang: "ts", text: "const a = 1;", closed: true });
+	});
+
+	it("treats an unclosed fence as code still being written", () => {
+		const [block] = parseBlocks("```py\nprint('hi')\n# <b>");
+
+		expect(block).toMatchObject({ type: "code", lang: "py", text: "print('hi')\n# <b>", closed: false });
+	});
+
+	it("reads nested and task lists", () => {
+		const [list] = parseBlocks("- [x] done\n- [ ] todo\n  - nested\n");
+		if (list.type !== "list") throw new Error("expected a list");
+
+		expect(list.ordered).toBe(false);
+		expect(list.items.map((item) => item.checked)).toEqual([true, false]);
+		expect(types(list.items[1].children)).toEqual(["paragraph", "list"]);
+	});
+
+	it("keeps the start of a numbered list", () => {
+		const [list] = parseBlocks("3. three\n4. four");
+
+		expect(list).toMatchObject({ type: "list", ordered: true, start: 3 });
+	});
+
+	it("reads tables with alignment", () => {
+		const [table] = parseBlocks("| a | b |\n|:--|--:|\n| 1 | 2 |");
+		if (table.type !== "table") throw new Error("expected a table");
+
+		expect(table.align).toEqual(["left", "right"]);
+		expect(table.header).toEqual([[{ type: "text", text: "a" }], [{ type: "text", text: "b" }]]);
+		expect(table.rows).toEqual([[[{ type: "text", text: "1" }], [{ type: "text", text: "2" }]]]);
+	});
+
+	it("leaves raw HTML as text", () => {
+		const [block] = parseBlocks('<img src=x onerror="alert(1)">');
+
+		expect(block).toMatchObject({
+			type: "paragraph",
+			children: [{ type: "text", text: '<img src=x onerror="alert(1)">' }],
+		});
+	});
+});
+
+describe("parseInline", () => {
+	it("reads emphasis, code and strikethrough", () => {
+		expect(parseInline("**bold** *it* `x*y` ~~gone~~")).toEqual([
+			{ type: "strong", children: [{ type: "text", text: "bold" }] },
+			{ type: "text", text: " " },
+			{ type: "em", children: [{ type: "text", text: "it" }] },
+			{ type: "text", text: " " },
+			{ type: "code", text: "x*y" },
+			{ type: "text", text: " " },
+			{ type: "del", children: [{ type: "text", text: "gone" }] },
+		]);
+	});
+
+	it("leaves underscores inside words alone", () => {
+		expect(parseInline("snake_case_name")).toEqual([{ type: "text", text: "snake_case_name" }]);
+	});
+
+	it("still closes emphasis next to snake_case words", () => {
+		expect(parseInline("snake_case _emph_")).toEqual([
+			{ type: "text", text: "snake_case " },
+			{ type: "em", children: [{ type: "text", text: "emph" }] },
+		]);
+		expect(parseInline("_emph_ and snake_case_names")).toEqual([
+			{ type: "em", children: [{ type: "text", text: "emph" }] },
+			{ type: "text", text: " and snake_case_names" },
+		]);
+	});
+
+	it("closes code spans with a run of the same length", () => {
+		expect(parseInline("``a```b`` c")).toEqual([
+			{ type: "code", text: "a```b" },
+			{ type: "text", text: " c" },
+		]);
+	});
+
+	it("stays fast on unclosed brackets, delimiters and backticks", () => {
+		const started = performance.now();
+		for (const text of ["[".repeat(20_000), "*a ".repeat(20_000), "_a ".repeat(20_000), "`a``".repeat(10_000)]) {
+			parseInline(text);
+		}
+		// Scanning ahead from every opener took seconds on these
+		expect(performance.now() - started).toBeLessThan(1000);
+	});
+
+	it("leaves links nested past a limit as text", () => {
+		const nodes = parseInline(`${"[".repeat(40)}x${"](/a)".repeat(40)}`);
+		let depth = 0;
+		let node: Inline | undefined = nodes[0];
+		while (node?.type === "link") {
+			depth++;
+			node = node.children[0];
+		}
+
+		expect(depth).toBeGreaterThan(1);
+		expect(depth).toBeLessThan(40);
+		expect(node).toMatchObject({ type: "text" });
+	});
+
+	it("reads links and bare URLs", () => {
+		expect(parseInline("[docs](https://example.com) and https://wopr.network.")).toEqual([
+			{ type: "link", href: "https://example.com", children: [{ type: "text", text: "docs" }] },
+			{ type: "text", text: " and " },
+			{ type: "link", href: "https://wopr.network", children: [{ type: "text", text: "https://wopr.network" }] },
+			{ type: "text", text: "." },
+		]);
+	});
+
+	it("renders unsafe links as text", () => {
+		const nodes = parseInline("[click](javascript:alert(1))");
+
+		expect(nodes.some((node) => node.type === "link")).toBe(false);
+		expect(nodes.map((node) => (node.type === "text" ? node.text : "")).join("")).toContain("click");
+	});
+});
+
+describe("reuseBlocks", () => {
+	it("keeps unchanged blocks and replaces the one being written", () => {
+		const before = parseBlocks("# Title\n\nHel");
+		const after = reuseBlocks(before, parseBlocks("# Title\n\nHello"));
+
+		expect(after[0]).toBe(before[0]);
+		expect(after[1]).not.toBe(before[1]);
+		expect(after[1]).toMatchObject({ children: [{ type: "text", text: "Hello" }] });
+	});
+});
+
+describe("parseMarkdown", () => {
+	const reply = [
+		"# Status",
+		"",
+		"All *good*, see `ops`:",
+		"",
+		"- web",
+		"- db",
+		"",
+		"  still db",
+		"",
+		"1. first",
+		"",
+		"2. second",
+		"",
+		"| a | b |",
+		"|---|--:|",
+		"| 1 | 2 |",
+		"",
+		"```sh",
+		"uptime",
+		"```",
+		"",
+		"> done",
+	].join("\n");
+
+	it("parses a streamed reply like the whole text at every step", () => {
+		let parsed: ParsedMarkdown | undefined;
+		for (let length = 0; length <= reply.length; length++) {
+			parsed = parseMarkdown(reply.slice(0, length), parsed);
+			expect(parsed.blocks).toEqual(parseBlocks(reply.slice(0, length)));
+		}
+	});
+
+	it("keeps the blocks before the last two while the text grows", () => {
+		const before = parseMarkdown("# Title\n\nOne\n\n- a");
+		const after = parseMarkdown("# Title\n\nOne\n\n- a\n- b", before);
+
+		expect(after.blocks[0]).toBe(before.blocks[0]);
+		expect(after.blocks[1]).toBe(before.blocks[1]);
+		expect(after.blocks[2]).toMatchObject({ type: "list", items: [{}, {}] });
+	});
+
+	it("parses everything again when the text is replaced", () => {
+		const before = parseMarkdown("# Title\n\nOne\n\nTwo");
+		const after = parseMarkdown("# Title\n\nUno\n\nTwo", before);
+
+		expect(after.blocks[0]).toBe(before.blocks[0]);
+		expect(after.blocks[1]).toMatchObject({ children: [{ type: "text", text: "Uno" }] });
+		expect(after.blocks).toEqual(parseBlocks("# Title\n\nUno\n\nTwo"));
+	});
+});
@@ -0,0 +1,156 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it, vi } from "vitest";
+import { AuthManager, type AuthOptions } from "../src/server/auth";
+import { authorizeMetrics, handleMetrics, METRICS_CONTENT_TYPE, Metrics, routeOf } from "../src/server/metrics";
+
+function auth(overrides: Partial<AuthOptions> = {}) {
+	return new AuthManager({ mode: "none", username: "admin", idleTimeoutMs: 60_000, ...overrides });
+}
+
+function mockReq(headers: Record<string, string> = {}) {
+	return { method: "GET", url: "/metrics", headers } as never;
+}
+
+function mockRes() {
+	return { statusCode: 200, setHeader: vi.fn(), end: vi.fn() };
+}
+
+const gauges = { version: "1.2.3", webSockets: 2, uptimeSeconds: 90 };
+
+describe("routeOf", () => {
+	it("labels known routes", () => {
+		expect(routeOf("/api/sessions")).toBe("api");
+		expect(routeOf("/login")).toBe("login");
+		expect(routeOf("/webui-config.json")).toBe("bootstrap");
+		expect(routeOf("/metrics")).toBe("metrics");
+		expect(routeOf("/events")).toBe("events");
+	});
+
+	it("groups files into assets, pages and other static files", () => {
+		expect(routeOf("/assets/index-abc123.js")).toBe("assets");
+		expect(routeOf("/index.html")).toBe("page");
+		expect(routeOf("/sessions/main")).toBe("page");
+		expect(routeOf("/favicon.svg")).toBe("static");
+	});
+});
+
+describe("Metrics", () => {
+	it("counts requests by route, method and status", () => {
+		const metrics = new Metrics();
+		metrics.recordRequest("api", "GET", 200, 0.01);
+		metrics.recordRequest("api", "GET", 200, 0.02);
+		metrics.recordRequest("api", "POST", 502, 0.03);
+
+		const text = metrics.render(gauges);
+
+		expect(text).toContain('wopr_webui_http_requests_total{route="api",method="GET",status="200"} 2');
+		expect(text).toContain('wopr_webui_http_requests_total{route="api",method="POST",status="502"} 1');
+	});
+
+	it("renders cumulative latency buckets", () => {
+		const metrics = new Metrics();
+		metrics.recordRequest("page", "GET", 200, 0.004);
+		metrics.recordRequest("page", "GET", 200, 0.3);
+		metrics.recordRequest("page", "GET", 200, 30);
+
+		const text = metrics.render(gauges);
+
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_bucket{route="page",le="0.005"} 1');
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_bucket{route="page",le="0.25"} 1');
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_bucket{route="page",le="0.5"} 2');
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_bucket{route="page",le="10"} 2');
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_bucket{route="page",le="+Inf"} 3');
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_count{route="page"} 3');
+		expect(text).toContain('wopr_webui_http_request_duration_seconds_sum{route="page"} 30.304');
+	});
+
+	it("reports bytes, upgrades, proxy errors and gauges", () => {
+		const metrics = new Metrics();
+		metrics.recordBytes("assets", 1024);
+		metrics.recordBytes("assets", 512);
+		metrics.recordUpgrade(101);
+		metrics.recordUpgrade(401);
+		metrics.recordProxyError("http");
+
+		const text = metrics.render(gauges);
+
+		expect(text).toContain('wopr_webui_http_response_bytes_total{route="assets"} 1536');
+		expect(text).toContain('wopr_webui_websocket_upgrades_total{status="101"} 1');
+		expect(text).toContain('wopr_webui_websocket_upgrades_total{status="401"} 1');
+		expect(text).toContain('wopr_webui_proxy_errors_total{kind="http"} 1');
+		expect(text).toContain('wopr_webui_proxy_errors_total{kind="websocket"} 0');
+		expect(text).toContain("wopr_webui_websocket_sessions 2");
+		expect(text).toContain('wopr_webui_info{version="1.2.3"} 1');
+		expect(text).toContain("# HELP wopr_webui_process_uptime_seconds Seconds since the Web UI plugin started");
+		expect(text).toMatch(/^wopr_webui_process_uptime_seconds 90$/m);
+	});
+
+	it("declares every metric family once", () => {
+		const metrics = new Metrics();
+		metrics.recordRequest("api", "GET", 200, 0.01);
+		metrics.recordRequest("page", "GET", 200, 0.01);
+
+		const types = metrics.render(gauges).match(/^# TYPE \S+/gm) ?? [];
+
+		expect(new Set(types).size).toBe(types.length);
+	});
+
+	it("records a request when its response closes", () => {
+		const metrics = new Metrics();
+		const res = Object.assign(new EventEmitter(), { statusCode: 404, socket: { bytesWritten: 100 } });
+		const observed = metrics.observeRequest({ method: "BREW" } as never, res as never);
+
+		observed.route = "static";
+		res.socket.bytesWritten = 350;
+		res.emit("close");
+
+		const text = metrics.render(gauges);
+		expect(text).toContain('wopr_webui_http_requests_total{route="static",method="other",status="404"} 1');
+		expect(text).toContain('wopr_webui_http_response_bytes_total{route="static"} 250');
+	});
+});
+
+describe("authorizeMetrics", () => {
+	it("is open when neither auth nor a token is configured", () => {
+		expect(authorizeMetrics(mockReq(), { enabled: true }, auth())).toBe(true);
+	});
+
+	it("requires the token once one is set", () => {
+		const options = { enabled: true, token: "scrape" };
+
+		expect(authorizeMetrics(mockReq(), options, auth())).toBe(false);
+		expect(authorizeMetrics(mockReq({ authorization: "Bearer wrong" }), options, auth())).toBe(false);
+		expect(authorizeMetrics(mockReq({ authorization: "Bearer scrape" }), options, auth())).toBe(true);
+	});
+
+	it("accepts a dashboard session when auth is on", () => {
+		const manager = auth({ mode: "token", token: "secret" });
+		const { cookie } = manager.createSession("token");
+		const options = { enabled: true, token: "scrape" };
+
+		expect(authorizeMetrics(mockReq(), options, manager)).toBe(false);
+		expect(authorizeMetrics(mockReq({ cookie: cookie.split(";")[0] }), options, manager)).toBe(true);
+		expect(authorizeMetrics(mockReq({ authorization: "Bearer scrape" }), options, manager)).toBe(true);
+	});
+});
+
+describe("handleMetrics", () => {
+	it("serves the text format", () => {
+		const res = mockRes();
+		handleMetrics(mockReq(), res as never, { enabled: true }, auth(), () => "metrics\n");
+
+		expect(res.statusCode).toBe(200);
+		expect(res.setHeader).toHaveBeenCalledWith("Content-Type", METRICS_CONTENT_TYPE);
+		expect(res.end).toHaveBeenCalledWith("metrics\n");
+	});
+
+	it("asks unauthorized scrapers for a bearer token", () => {
+		const res = mockRes();
+		const render = vi.fn(() => "");
+		handleMetrics(mockReq(), res as never, { enabled: true, token: "scrape" }, auth(), render);
+
+		expect(res.statusCode).toBe(401);
+		expect(res.setHeader).toHaveBeenCalledWith("WWW-Authenticate", 'Bearer realm="wopr-webui"');
+		expect(render).not.toHaveBeenCalled();
+	});
+});
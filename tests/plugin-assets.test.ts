@@ -0,0 +1,157 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { UiComponentExtension } from "@wopr-network/plugin-types";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	allowedAssetDirs,
+	modulePath,
+	resolvePluginAsset,
+	rewriteComponents,
+	rewriteModuleUrl,
+	servePluginAsset,
+} from "../src/server/plugin-assets";
+
+function component(moduleUrl: string): UiComponentExtension {
+	return { id: "panel", title: "Panel", moduleUrl, slot: "sidebar" };
+}
+
+describe("modulePath", () => {
+	it("accepts absolute paths and file URLs", () => {
+		expect(modulePath("/plugins/foo/ui.js")).toBe("/plugins/foo/ui.js");
+		expect(modulePath("file:///plugins/foo/ui.js")).toBe("/plugins/foo/ui.js");
+	});
+
+	it("ignores URLs on other origins", () => {
+		expect(modulePath("http://localhost:7332/ui.js")).toBeNull();
+		expect(modulePath("./ui.js")).toBeNull();
+	});
+});
+
+describe("rewriteModuleUrl", () => {
+	it("points modules in a plugin's directory at the plugin-assets route", () => {
+		expect(rewriteModuleUrl("/plugins/wopr-plugin-foo/dist/ui.js", "/plugins")).toBe(
+			"/plugin-assets/wopr-plugin-foo/dist/ui.js",
+		);
+		expect(rewriteModuleUrl("file:///plugins/foo/ui.js", "/plugins", "/wopr")).toBe("/wopr/plugin-assets/foo/ui.js");
+	});
+
+	it("encodes path segments", () => {
+		expect(rewriteModuleUrl("/plugins/foo/my ui.js", "/plugins")).toBe("/plugin-assets/foo/my%20ui.js");
+	});
+
+	it("leaves other modules alone", () => {
+		expect(rewriteModuleUrl("http://localhost:7332/ui.js", "/plugins")).toBe("http://localhost:7332/ui.js");
+		expect(rewriteModuleUrl("/opt/elsewhere/ui.js", "/plugins")).toBe("/opt/elsewhere/ui.js");
+		expect(rewriteModuleUrl("/plugins/ui.js", "/plugins")).toBe("/plugins/ui.js");
+	});
+
+	it("rewrites every component", () => {
+		const [rewritten] = rewriteComponents([component("/plugins/foo/ui.js")], "/plugins");
+		expect(rewritten).toEqual(component("/plugin-assets/foo/ui.js"));
+	});
+});
+
+describe("allowedAssetDirs", () => {
+	it("allows the directory of each registered module", () => {
+		const allowed = allowedAssetDirs(
+			[component("/plugins/foo/dist/ui.js"), component("/plugins/foo/extra/panel.js"), component("http://x/ui.js")],
+			"/plugins",
+		);
+		expect(allowed).toEqual(new Map([["foo", ["/plugins/foo/dist", "/plugins/foo/extra"]]]));
+	});
+});
+
+describe("plugin asset serving", () => {
+	let root: string;
+	let server: http.Server;
+	let port: number;
+
+	beforeAll(async () => {
+		root = mkdtempSync(join(tmpdir(), "webui-plugin-assets-"));
+		mkdirSync(join(root, "foo", "dist", "chunks"), { recursive: true });
+		writeFileSync(join(root, "foo", "dist", "ui.js"), "export default () => null;");
+		writeFileSync(join(root, "foo", "dist", "chunks", "panel.css"), "body{}");
+		writeFileSync(join(root, "foo", "dist", "notes.txt"), "notes");
+		writeFileSync(join(root, "foo", "dist", ".env"), "SECRET=1");
+		writeFileSync(join(root, "foo", "config.json"), '{"secret":true}');
+		symlinkSync(join(root, "foo", "config.json"), join(root, "foo", "dist", "linked.json"));
+		mkdirSync(join(root, "bar"));
+		writeFileSync(join(root, "bar", "ui.js"), "export default () => null;");
+
+		const components = [component(pathToFileURL(join(root, "foo", "dist", "ui.js")).href)];
+		server = http.createServer((req, res) => {
+			servePluginAsset(req, res, (req.url ?? "/").split("?")[0], root, components);
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterAll(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	function fetchRaw(path: string): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request({ host: "127.0.0.1", port, path }, (res) => {
+				let body = "";
+				res.on("data", (chunk) => {
+					body += chunk;
+				});
+				res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+			});
+			req.on("error", reject);
+			req.end();
+		});
+	}
+
+	it("serves component modules as JavaScript", async () => {
+		const res = await fetchRaw("/plugin-assets/foo/dist/ui.js");
+		expect(res.status).toBe(200);
+		expect(res.headers["content-type"]).toBe("application/javascript");
+		expect(res.headers["cache-control"]).toBe("no-cache");
+		expect(res.body).toBe("export default () => null;");
+	});
+
+	it("serves files below the module's directory", async () => {
+		const res = await fetchRaw("/plugin-assets/foo/dist/chunks/panel.css");
+		expect(res.status).toBe(200);
+		expect(res.headers["content-type"]).toBe("text/css");
+	});
+
+	it("refuses files outside the module's directory", async () => {
+		expect((await fetchRaw("/plugin-assets/foo/config.json")).status).toBe(403);
+		expect((await fetchRaw("/plugin-assets/foo/dist/linked.json")).status).toBe(403);
+	});
+
+	it("refuses file types a component bundle does not need", async () => {
+		expect((await fetchRaw("/plugin-assets/foo/dist/notes.txt")).status).toBe(403);
+	});
+
+	it("refuses traversal and hidden files", async () => {
+		expect((await fetchRaw("/plugin-assets/foo/dist/..%2F..%2Fbar%2Fui.js")).status).toBe(404);
+		expect((await fetchRaw("/plugin-assets/foo/dist/%2e%2e/config.json")).status).toBe(404);
+		expect((await fetchRaw("/plugin-assets/foo/dist/.env")).status).toBe(404);
+	});
+
+	it("only serves plugins with a registered component", async () => {
+		expect((await fetchRaw("/plugin-assets/bar/ui.js")).status).toBe(404);
+	});
+
+	it("answers 404 for missing files", async () => {
+		expect((await fetchRaw("/plugin-assets/foo/dist/missing.js")).status).toBe(404);
+	});
+});
+
+describe("resolvePluginAsset", () => {
+	it("needs a plugin and a file", () => {
+		const allowed = new Map([["foo", ["/plugins/foo"]]]);
+		expect(resolvePluginAsset("/plugin-assets/foo", "/plugins", allowed)).toEqual({ status: 404 });
+		expect(resolvePluginAsset("/plugin-assets/foo/%E0%A4%A.js", "/plugins", allowed)).toEqual({ status: 404 });
+	});
+});
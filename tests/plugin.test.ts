@@ -1,5 +1,11 @@
+import { EventEmitter } from "node:events";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import https from "node:https";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import plugin from "../src/plugin.js";
+import { generateSelfSignedCertificate } from "../src/server/tls.js";
 
 // Mock node:fs so we can control existsSync
 vi.mock("node:fs", async () => {
@@ -13,14 +19,29 @@ vi.mock("node:fs", async () => {
 	};
 });
 
+// Stand-in for http.Server that binds as soon as listen() is called
+function createMockServer() {
+	const server = new EventEmitter() as EventEmitter & Record<string, unknown>;
+	server.listen = vi.fn(() => {
+		setImmediate(() => server.emit("listening"));
+		return server;
+	});
+	server.close = vi.fn((cb?: (err?: Error) => void) => cb?.());
+	server.address = vi.fn(() => null);
+	return server;
+}
+
 // Mock node:http to avoid binding real ports
 vi.mock("node:http", () => ({
 	default: {
-		createServer: vi.fn(() => ({
-			listen: vi.fn(),
-			close: vi.fn((cb: (err?: Error) => void) => cb()),
-			on: vi.fn(),
-		})),
+		createServer: vi.fn(() => createMockServer()),
+	},
+}));
+
+// Mock node:https the same way for TLS-enabled configs
+vi.mock("node:https", () => ({
+	default: {
+		createServer: vi.fn(() => createMockServer()),
 	},
 }));
 
@@ -32,6 +53,9 @@ function createMockContext() {
 		unregisterConfigSchema: vi.fn(),
 		registerWebUiExtension: vi.fn(),
 		unregisterWebUiExtension: vi.fn(),
+		getUiComponents: vi.fn(() => []),
+		events: { on: vi.fn(() => vi.fn()) },
+		getExtension: vi.fn(),
 		log: {
 			info: vi.fn(),
 			warn: vi.fn(),
@@ -63,6 +87,7 @@ describe("wopr-plugin-webui", () => {
 		expect(plugin.manifest!.category).toBe("ui");
 		expect(plugin.manifest!.configSchema).toBeDefined();
 		expect(plugin.manifest!.lifecycle).toBeDefined();
+		expect(plugin.manifest!.lifecycle!.healthEndpoint).toBe("/healthz");
 	});
 
 	it("registers config schema on init", async () => {
@@ -98,19 +123,50 @@ describe("wopr-plugin-webui", () => {
 		);
 	});
 
-	it("skips server start if dist/ does not exist", async () => {
+	it("registers a degraded extension if dist/ has no build", async () => {
 		const { existsSync: mockExistsSync } = await import("node:fs");
 		(mockExistsSync as any).mockReturnValue(false);
 
 		await plugin.init!(mockCtx as any);
 
-		expect(mockCtx.log.error).toHaveBeenCalledWith(expect.stringContaining("dist/ folder not found"));
-		expect(mockCtx.registerWebUiExtension).not.toHaveBeenCalled();
+		expect(mockCtx.log.error).toHaveBeenCalledWith(expect.stringContaining("dist/ folder has no build"));
+		expect(mockCtx.registerWebUiExtension).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "main", url: "http://0.0.0.0:4000", degraded: true }),
+		);
 
 		// Restore
 		(mockExistsSync as any).mockReturnValue(true);
 	});
 
+	it("registers an https URL when TLS is enabled", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "webui-plugin-"));
+		const { cert, key } = generateSelfSignedCertificate(["localhost"]);
+		writeFileSync(join(dir, "cert.pem"), cert);
+		writeFileSync(join(dir, "key.pem"), key);
+		mockCtx.getConfig.mockReturnValue({
+			port: 4443,
+			host: "127.0.0.1",
+			tls: { mode: "files", certPath: join(dir, "cert.pem"), keyPath: join(dir, "key.pem") },
+		} as any);
+
+		await plugin.init!(mockCtx as any);
+		rmSync(dir, { recursive: true, force: true });
+
+		expect(https.createServer).toHaveBeenCalledWith({ cert, key }, expect.any(Function));
+		expect(mockCtx.registerWebUiExtension).toHaveBeenCalledWith(
+			expect.objectContaining({ url: "https://127.0.0.1:4443" }),
+		);
+	});
+
+	it("does not start when the TLS certificate cannot be loaded", async () => {
+		mockCtx.getConfig.mockReturnValue({ tls: { mode: "files", certPath: "/missing.pem" } } as any);
+
+		await plugin.init!(mockCtx as any);
+
+		expect(mockCtx.log.error).toHaveBeenCalledWith(expect.stringContaining("Failed to load TLS certificate"));
+		expect(mockCtx.registerWebUiExtension).not.toHaveBeenCalled();
+	});
+
 	it("unregisters everything on shutdown", async () => {
 		await plugin.init!(mockCtx as any);
 		await plugin.shutdown!();
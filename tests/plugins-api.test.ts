@@ -35,6 +35,7 @@ describe("api.getPlugins (typed)", () => {
 		const result = await api.getPlugins();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result.plugins[0].id).toBe("discord");
@@ -59,6 +60,7 @@ describe("api.getAvailablePlugins", () => {
 		const result = await api.getAvailablePlugins();
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/available", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result.plugins).toHaveLength(1);
@@ -84,6 +86,7 @@ describe("api.installPlugin", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/install", {
 			method: "POST",
 			body: JSON.stringify({ name: "@wopr-network/plugin-voice" }),
+			signal: undefined,
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result.plugin.id).toBe("voice");
@@ -99,6 +102,7 @@ describe("api.uninstallPlugin", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/uninstall", {
 			method: "POST",
 			body: JSON.stringify({ id: "voice" }),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -112,6 +116,7 @@ describe("api.enablePlugin", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/discord/enable", {
 			method: "POST",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -133,6 +138,7 @@ describe("api.disablePlugin", () => {
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/discord/disable", {
 			method: "POST",
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
@@ -146,6 +152,7 @@ describe("api.getPluginConfig", () => {
 		const result = await api.getPluginConfig("discord");
 
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/discord/config", {
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 		expect(result).toEqual(config);
@@ -162,6 +169,7 @@ describe("api.updatePluginConfig", () => {
 		expect(mockFetch).toHaveBeenCalledWith("/api/plugins/discord/config", {
 			method: "PUT",
 			body: JSON.stringify(config),
+			signal: expect.any(AbortSignal),
 			headers: { "Content-Type": "application/json" },
 		});
 	});
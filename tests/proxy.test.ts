@@ -0,0 +1,238 @@
+import http from "node:http";
+import net, { type AddressInfo, type Socket } from "node:net";
+import type { Duplex } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isApiPath, isWsPath, proxyRequest, proxyUpgrade, rewriteApiPath } from "../src/server/proxy";
+
+const openSockets = new WeakMap<http.Server, Set<Socket>>();
+
+function listen(server: http.Server): Promise<number> {
+	const sockets = new Set<Socket>();
+	openSockets.set(server, sockets);
+	server.on("connection", (socket) => {
+		sockets.add(socket);
+		socket.on("close", () => sockets.delete(socket));
+	});
+	return new Promise((resolve) => {
+		server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+	});
+}
+
+function close(server: http.Server): Promise<void> {
+	// Upgraded sockets are not covered by closeAllConnections()
+	for (const socket of openSockets.get(server) ?? []) socket.destroy();
+	return new Promise((resolve) => server.close(() => resolve()));
+}
+
+function get(port: number, path: string, options: http.RequestOptions = {}): Promise<{ status: number; body: string }> {
+	return new Promise((resolve, reject) => {
+		const req = http.request({ host: "127.0.0.1", port, path, ...options }, (res) => {
+			let body = "";
+			res.on("data", (chunk) => {
+				body += chunk;
+			});
+			res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+		});
+		req.on("error", reject);
+		req.end(options.method === "POST" ? JSON.stringify({ message: "hi" }) : undefined);
+	});
+}
+
+describe("path helpers", () => {
+	it("matches /api and /api/* only", () => {
+		expect(isApiPath("/api")).toBe(true);
+		expect(isApiPath("/api/sessions")).toBe(true);
+		expect(isApiPath("/apiary")).toBe(false);
+		expect(isApiPath("/assets/api.js")).toBe(false);
+	});
+
+	it("matches the /ws endpoint", () => {
+		expect(isWsPath("/ws")).toBe(true);
+		expect(isWsPath("/ws/extra")).toBe(false);
+	});
+
+	it("strips the /api prefix like the Vite dev proxy", () => {
+		expect(rewriteApiPath("/api/sessions")).toBe("/sessions");
+		expect(rewriteApiPath("/api/sessions?limit=5")).toBe("/sessions?limit=5");
+		expect(rewriteApiPath("/api")).toBe("/");
+	});
+});
+
+describe("proxyRequest", () => {
+	let daemon: http.Server;
+	let proxy: http.Server;
+	let daemonPort: number;
+	let proxyPort: number;
+	const seen: { method?: string; url?: string; host?: string; body?: string }[] = [];
+
+	beforeEach(async () => {
+		seen.length = 0;
+		daemon = http.createServer((req, res) => {
+			let body = "";
+			req.on("data", (chunk) => {
+				body += chunk;
+			});
+			req.on("end", () => {
+				seen.push({ method: req.method, url: req.url, host: req.headers.host, body });
+				res.setHeader("Content-Type", "application/json");
+				res.end(JSON.stringify({ ok: true }));
+			});
+		});
+		daemonPort = await listen(daemon);
+
+		proxy = http.createServer((req, res) => {
+			proxyRequest(req, res, { host: "127.0.0.1", port: daemonPort });
+		});
+		proxyPort = await listen(proxy);
+	});
+
+	afterEach(async () => {
+		await close(proxy);
+		await close(daemon);
+	});
+
+	it("forwards the request with the /api prefix stripped", async () => {
+		const result = await get(proxyPort, "/api/sessions?x=1");
+
+		expect(result.status).toBe(200);
+		expect(JSON.parse(result.body)).toEqual({ ok: true });
+		expect(seen[0].url).toBe("/sessions?x=1");
+		expect(seen[0].host).toBe(`127.0.0.1:${daemonPort}`);
+	});
+
+	it("forwards method and body", async () => {
+		await get(proxyPort, "/api/sessions/s1/inject", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+		});
+
+		expect(seen[0].method).toBe("POST");
+		expect(JSON.parse(seen[0].body ?? "")).toEqual({ message: "hi" });
+	});
+
+	it("answers 502 with a JSON error when the daemon is unreachable", async () => {
+		const errors: Error[] = [];
+		const closed = http.createServer();
+		const closedPort = await listen(closed);
+		await close(closed);
+
+		const orphan = http.createServer((req, res) => {
+			proxyRequest(req, res, { host: "127.0.0.1", port: closedPort }, (err) => errors.push(err));
+		});
+		const orphanPort = await listen(orphan);
+
+		const result = await get(orphanPort, "/api/sessions");
+		await close(orphan);
+
+		expect(result.status).toBe(502);
+		expect(JSON.parse(result.body)).toEqual({ error: "WOPR daemon is unreachable", code: "DAEMON_UNREACHABLE" });
+		expect(errors).toHaveLength(1);
+	});
+});
+
+describe("proxyUpgrade", () => {
+	let daemon: http.Server;
+	let proxy: http.Server;
+	let proxyPort: number;
+	let connections: Map<Duplex, Duplex>;
+	// Upgrades to /slow that the daemon has not answered
+	let held: Duplex[];
+
+	beforeEach(async () => {
+		connections = new Map();
+		held = [];
+		daemon = http.createServer();
+		daemon.on("upgrade", (req, socket) => {
+			if (req.url === "/slow") {
+				held.push(socket);
+				return;
+			}
+			if (req.url !== "/ws") {
+				socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+				return;
+			}
+			socket.write("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n");
+			socket.on("data", (data) => socket.write(`echo:${data}`));
+			socket.on("end", () => socket.end());
+		});
+		const daemonPort = await listen(daemon);
+
+		proxy = http.createServer();
+		proxy.on("upgrade", (req, socket, head) => {
+			proxyUpgrade(req, socket, head, { host: "127.0.0.1", port: daemonPort }, undefined, connections);
+		});
+		proxyPort = await listen(proxy);
+	});
+
+	afterEach(async () => {
+		await close(proxy);
+		await close(daemon);
+	});
+
+	function upgrade(path: string): Promise<{ status: number; socket?: Socket }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request({
+				host: "127.0.0.1",
+				port: proxyPort,
+				path,
+				headers: { Connection: "Upgrade", Upgrade: "websocket" },
+			});
+			req.on("upgrade", (res, socket) => resolve({ status: res.statusCode ?? 0, socket }));
+			req.on("response", (res) => {
+				res.resume();
+				resolve({ status: res.statusCode ?? 0 });
+			});
+			req.on("error", reject);
+			req.end();
+		});
+	}
+
+	it("pipes an upgraded connection through to the daemon", async () => {
+		const { status, socket } = await upgrade("/ws");
+		expect(status).toBe(101);
+
+		const reply = await new Promise<string>((resolve) => {
+			socket?.once("data", (data) => resolve(String(data)));
+			socket?.write("ping");
+		});
+		expect(reply).toBe("echo:ping");
+		socket?.destroy();
+	});
+
+	it("relays a refused upgrade", async () => {
+		const { status } = await upgrade("/nope");
+		expect(status).toBe(404);
+		expect(connections.size).toBe(0);
+	});
+
+	it("survives the browser resetting while the daemon has not answered", async () => {
+		const client = net.connect(proxyPort, "127.0.0.1");
+		client.write("GET /slow HTTP/1.1\r\nHost: localhost\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n");
+		await vi.waitFor(() => expect(held).toHaveLength(1));
+
+		const [pending] = held;
+		// Server sockets allow half-open connections, so the proxy hanging up shows as the end of the stream
+		const upstreamClosed = new Promise((resolve) => pending.once("end", resolve).resume());
+		client.resetAndDestroy();
+
+		// The proxy gives up on the daemon instead of crashing on the reset
+		await upstreamClosed;
+		expect(connections.size).toBe(0);
+	});
+
+	it("tracks established connections until they close", async () => {
+		const { socket } = await upgrade("/ws");
+		await new Promise<void>((resolve) => {
+			socket?.once("data", () => resolve());
+			socket?.write("ping");
+		});
+		expect(connections.size).toBe(1);
+
+		const [tracked] = connections.keys();
+		await new Promise((resolve) => {
+			tracked.once("close", resolve);
+			socket?.destroy();
+		});
+		expect(connections.size).toBe(0);
+	});
+});
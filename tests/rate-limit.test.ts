@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { enforceRateLimit, RateLimiter, sendTooManyRequests } from "../src/server/rate-limit";
+
+function mockRes() {
+	return { statusCode: 200, setHeader: vi.fn(), end: vi.fn() };
+}
+
+describe("RateLimiter", () => {
+	it("allows a burst, then asks the client to wait", () => {
+		const limiter = new RateLimiter({ burst: 3, perMinute: 60 });
+
+		expect([0, 0, 0].map(() => limiter.take("1.2.3.4", 1000))).toEqual([0, 0, 0]);
+		expect(limiter.take("1.2.3.4", 1000)).toBe(1);
+	});
+
+	it("refills at the configured rate", () => {
+		const limiter = new RateLimiter({ burst: 1, perMinute: 6 });
+
+		expect(limiter.take("a", 0)).toBe(0);
+		expect(limiter.take("a", 0)).toBe(10);
+		expect(limiter.take("a", 5000)).toBe(5);
+		expect(limiter.take("a", 10_000)).toBe(0);
+	});
+
+	it("keeps a separate bucket per client", () => {
+		const limiter = new RateLimiter({ burst: 1, perMinute: 1 });
+
+		expect(limiter.take("a", 0)).toBe(0);
+		expect(limiter.take("b", 0)).toBe(0);
+		expect(limiter.take("a", 0)).toBeGreaterThan(0);
+		expect(limiter.size).toBe(2);
+	});
+
+	it("never exceeds the burst after a long idle period", () => {
+		const limiter = new RateLimiter({ burst: 2, perMinute: 60 });
+		limiter.take("a", 0);
+
+		const results = [0, 1, 2].map(() => limiter.take("a", 3_600_000));
+
+		expect(results).toEqual([0, 0, 1]);
+	});
+
+	it("is off when the rate is 0", () => {
+		const limiter = new RateLimiter({ burst: 5, perMinute: 0 });
+
+		expect(limiter.enabled).toBe(false);
+		for (let i = 0; i < 10; i++) expect(limiter.take("a", 0)).toBe(0);
+		expect(limiter.size).toBe(0);
+	});
+});
+
+describe("sendTooManyRequests", () => {
+	it("answers 429 with Retry-After", () => {
+		const res = mockRes();
+
+		sendTooManyRequests(res as never, 7);
+
+		expect(res.statusCode).toBe(429);
+		expect(res.setHeader).toHaveBeenCalledWith("Retry-After", "7");
+		expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ error: "Too many requests", retryAfter: 7 });
+	});
+});
+
+describe("enforceRateLimit", () => {
+	it("lets requests through until the bucket is empty", () => {
+		const limiter = new RateLimiter({ burst: 1, perMinute: 1 });
+		const res = mockRes();
+
+		expect(enforceRateLimit(limiter, "a", res as never)).toBe(true);
+		expect(res.end).not.toHaveBeenCalled();
+		expect(enforceRateLimit(limiter, "a", res as never)).toBe(false);
+		expect(res.statusCode).toBe(429);
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ReplyTracker } from "../src/lib/replies";
+import { addMessage, appendReply, finishReply, type TranscriptMessage } from "../src/lib/transcript";
+
+describe("ReplyTracker", () => {
+	it("keeps each session's reply apart", () => {
+		const replies = new ReplyTracker();
+		replies.start("a", "status?");
+		replies.markStale("a");
+
+		expect(replies.streaming("a")).toBe(true);
+		expect(replies.streaming("b")).toBe(false);
+		expect(replies.get("b").stale).toBe(false);
+	});
+
+	it("hands back the finished reply and forgets it", () => {
+		const replies = new ReplyTracker();
+		replies.start("a", "status?");
+		replies.markStale("a");
+
+		expect(replies.settle("a")).toMatchObject({ message: "status?", stale: true });
+		expect(replies.get("a")).toEqual({ message: null, echoed: false, streaming: false, stale: false });
+	});
+
+	it("hides only the echo of the message it sent", () => {
+		const replies = new ReplyTracker();
+		replies.start("a", "yes");
+
+		expect(replies.claimEcho("b", "yes")).toBe(false);
+		expect(replies.claimEcho("a", "yes")).toBe(true);
+		expect(replies.claimEcho("a", "yes")).toBe(false);
+	});
+
+	it("shows injections that repeat a message sent earlier", () => {
+		const replies = new ReplyTracker();
+		let messages: TranscriptMessage[] = [];
+		// What App does with the composer and the stream's events
+		const send = (content: string, ts: number) => {
+			messages = addMessage(messages, { role: "user", content, ts });
+			replies.start("a", content);
+		};
+		const inject = (content: string, ts: number) => {
+			if (replies.claimEcho("a", content)) return;
+			messages = addMessage(messages, { role: "injection", content, ts, from: "cron" });
+		};
+		const reply = (content: string, ts: number) => {
+			messages = finishReply(appendReply(messages, content, ts));
+			replies.settle("a");
+		};
+
+		send("yes", 1);
+		inject("yes", 2);
+		reply("ok", 3);
+		inject("yes", 4);
+		send("yes", 5);
+		inject("yes", 6);
+		reply("ok again", 7);
+		inject("yes", 8);
+
+		expect(messages.map((message) => `${message.role}:${message.content}`)).toEqual([
+			"user:yes",
+			"assistant:ok",
+			"injection:yes",
+			"user:yes",
+			"assistant:ok again",
+			"injection:yes",
+		]);
+	});
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	array,
+	boolean,
+	number,
+	object,
+	oneOf,
+	optional,
+	parse,
+	record,
+	SchemaError,
+	string,
+	unknown,
+} from "../src/lib/schema";
+
+describe("schemas", () => {
+	it("checks primitives", () => {
+		expect(string().check("x", "name")).toEqual([]);
+		expect(number().check("1", "port")).toEqual(["port: expected number, got string"]);
+		expect(boolean().check(null, "enabled")).toEqual(["enabled: expected boolean, got null"]);
+		expect(unknown().check(undefined, "anything")).toEqual([]);
+	});
+
+	it("reports every array entry that does not match", () => {
+		expect(array(string()).check(["a", 1, "b", false], "tags")).toEqual([
+			"tags[1]: expected string, got number",
+			"tags[3]: expected string, got boolean",
+		]);
+		expect(array(string()).check({}, "tags")).toEqual(["tags: expected array, got object"]);
+	});
+
+	it("checks nested object fields by path", () => {
+		const schema = object<{ daemon: { port: number; host?: string } }>({
+			daemon: object({ port: number(), host: optional(string()) }),
+		});
+
+		expect(schema.check({ daemon: { port: 7437 } }, "")).toEqual([]);
+		expect(schema.check({ daemon: { port: 7437, host: 1 } }, "")).toEqual(["daemon.host: expected string, got number"]);
+		expect(schema.check([], "")).toEqual(["response: expected object, got array"]);
+	});
+});
+
+describe("parse", () => {
+	it("returns matching values", () => {
+		const value = { name: "daily", extra: true };
+
+		expect(parse(object({ name: string() }), value, "GET", "/crons", "strict")).toBe(value);
+	});
+
+	it("throws a SchemaError naming the request and the fields", () => {
+		const run = () => parse(object({ name: string() }), {}, "GET", "/crons", "strict");
+
+		expect(run).toThrow(SchemaError);
+		expect(run).toThrow("Unexpected response from GET /crons: name: expected string, got undefined");
+	});
+});
+
+describe("lenient parse", () => {
+	const plugin = object<{ id: string; category?: "channel" | "provider"; tags: string[] }>({
+		id: string(),
+		category: optional(oneOf("channel", "provider")),
+		tags: array(string()),
+	});
+	const list = object({ plugins: array(plugin) });
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("drops malformed array entries and logs them", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const value = {
+			plugins: [
+				{ id: "a", tags: [] },
+				{ id: 1, tags: [] },
+				{ id: "c", tags: ["x", 2] },
+			],
+		};
+
+		const result = parse(list, value, "GET", "/plugins", "lenient");
+
+		expect(result).toEqual({
+			plugins: [
+				{ id: "a", tags: [] },
+				{ id: "c", tags: ["x"] },
+			],
+		});
+		expect(warn).toHaveBeenCalledWith("Dropped malformed data from GET /plugins:", [
+			"plugins[1].id: expected string, got number",
+			"plugins[2].tags[1]: expected string, got number",
+		]);
+	});
+
+	it("unsets malformed optional fields and keeps unknown ones", () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const result = parse(plugin, { id: "a", category: "toaster", tags: [], extra: 1 }, "GET", "/plugin", "lenient");
+
+		expect(result).toStrictEqual({ id: "a", tags: [], extra: 1 });
+	});
+
+	it("does not copy or log values that match", () => {
+		const warn = vi.spyOn(console, "warn");
+		const value = { plugins: [{ id: "a", tags: ["x"] }] };
+
+		expect(parse(list, value, "GET", "/plugins", "lenient")).toEqual(value);
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	it("still throws when nothing usable is left", () => {
+		expect(() => parse(list, { plugins: "none" }, "GET", "/plugins", "lenient")).toThrow(
+			"plugins: expected array, got string",
+		);
+	});
+});
+
+describe("record", () => {
+	it("checks every value", () => {
+		expect(record(number()).check({ a: 1, b: "2" }, "limits")).toEqual(["limits.b: expected number, got string"]);
+	});
+});
+
+describe("oneOf", () => {
+	it("lists the allowed values", () => {
+		expect(oneOf("a", "b").check("c", "slot")).toEqual(['slot: expected "a" | "b", got string']);
+	});
+});
@@ -0,0 +1,201 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+	applySecurityHeaders,
+	buildContentSecurityPolicy,
+	CSP_REPORT_PATH,
+	CspReportLog,
+	describeCspReports,
+	handleCspReport,
+	originOf,
+} from "../src/server/security-headers";
+
+function directive(policy: string, name: string): string | undefined {
+	return policy
+		.split("; ")
+		.find((d) => d.startsWith(`${name} `))
+		?.slice(name.length + 1);
+}
+
+describe("originOf", () => {
+	it("reduces URLs to their origin", () => {
+		expect(originOf("https://cdn.example.com/plugins/a.js?v=1")).toBe("https://cdn.example.com");
+		expect(originOf("http://127.0.0.1:7437/ui/widget.js")).toBe("http://127.0.0.1:7437");
+	});
+
+	it("rejects relative and non-http URLs", () => {
+		expect(originOf("/plugins/a.js")).toBeNull();
+		expect(originOf("data:text/javascript,alert(1)")).toBeNull();
+		expect(originOf("not a url")).toBeNull();
+	});
+});
+
+describe("buildContentSecurityPolicy", () => {
+	it("locks everything to self by default", () => {
+		const policy = buildContentSecurityPolicy([], { reportOnly: false, allowedOrigins: [] });
+		expect(directive(policy, "default-src")).toBe("'self'");
+		expect(directive(policy, "script-src")).toBe("'self'");
+		expect(directive(policy, "object-src")).toBe("'none'");
+		expect(directive(policy, "frame-ancestors")).toBe("'none'");
+		expect(directive(policy, "report-uri")).toBe(CSP_REPORT_PATH);
+	});
+
+	it("allows the origins of registered component modules", () => {
+		const policy = buildContentSecurityPolicy(
+			["https://b.example.com/x.js", "https://a.example.com/y.js", "https://a.example.com/z.js", "/local.js"],
+			{ reportOnly: false, allowedOrigins: [] },
+		);
+		expect(directive(policy, "script-src")).toBe("'self' https://a.example.com https://b.example.com");
+		expect(directive(policy, "connect-src")).toBe("'self' https://a.example.com https://b.example.com");
+	});
+
+	it("adds configured origins and skips invalid ones", () => {
+		const policy = buildContentSecurityPolicy([], {
+			reportOnly: false,
+			allowedOrigins: ["https://cdn.example.com/", "javascript:alert(1)"],
+		});
+		expect(directive(policy, "script-src")).toBe("'self' https://cdn.example.com");
+	});
+});
+
+describe("applySecurityHeaders", () => {
+	function headersFor(reportOnly: boolean): Map<string, string> {
+		const headers = new Map<string, string>();
+		const res = { setHeader: (name: string, value: string) => headers.set(name, value) };
+		applySecurityHeaders(res as unknown as http.ServerResponse, "default-src 'self'", reportOnly);
+		return headers;
+	}
+
+	it("enforces the policy by default", () => {
+		const headers = headersFor(false);
+		expect(headers.get("Content-Security-Policy")).toBe("default-src 'self'");
+		expect(headers.has("Content-Security-Policy-Report-Only")).toBe(false);
+		expect(headers.get("Cross-Origin-Opener-Policy")).toBe("same-origin");
+		expect(headers.has("X-XSS-Protection")).toBe(false);
+	});
+
+	it("only reports in report-only mode", () => {
+		const headers = headersFor(true);
+		expect(headers.get("Content-Security-Policy-Report-Only")).toBe("default-src 'self'");
+		expect(headers.has("Content-Security-Policy")).toBe(false);
+	});
+});
+
+describe("describeCspReports", () => {
+	it("reads report-uri payloads", () => {
+		const body = JSON.stringify({
+			"csp-report": {
+				"document-uri": "http://127.0.0.1:3000/",
+				"violated-directive": "script-src-elem",
+				"blocked-uri": "https://evil.example.com/x.js",
+			},
+		});
+		expect(describeCspReports(body)).toEqual([
+			"CSP violation: script-src-elem blocked https://evil.example.com/x.js on http://127.0.0.1:3000/",
+		]);
+	});
+
+	it("reads Reporting API payloads", () => {
+		const body = JSON.stringify([
+			{ type: "csp-violation", body: { documentURL: "/", effectiveDirective: "img-src", blockedURL: "data" } },
+			{ type: "deprecation", body: {} },
+		]);
+		expect(describeCspReports(body)).toEqual(["CSP violation: img-src blocked data on /"]);
+	});
+
+	it("ignores malformed bodies", () => {
+		expect(describeCspReports("{")).toEqual([]);
+		expect(describeCspReports("{}")).toEqual([]);
+	});
+});
+
+describe("CspReportLog", () => {
+	const report = { directive: "img-src", blocked: "data", document: "/" };
+
+	it("logs every violation in report-only mode", () => {
+		const log = vi.fn();
+		const reports = new CspReportLog(log);
+
+		reports.record(report, true);
+		reports.record(report, true);
+
+		expect(log).toHaveBeenCalledTimes(2);
+		expect(log).toHaveBeenCalledWith("CSP violation: img-src blocked data on /");
+	});
+
+	it("logs each directive and blocked URI once while enforcing", () => {
+		const log = vi.fn();
+		const reports = new CspReportLog(log);
+
+		reports.record(report, false);
+		reports.record({ ...report, document: "/sessions" }, false);
+		reports.record({ ...report, blocked: "https://evil.example.com/x.png" }, false);
+
+		expect(log.mock.calls).toEqual([
+			["CSP violation: img-src blocked data on /"],
+			["CSP violation: img-src blocked https://evil.example.com/x.png on /"],
+		]);
+	});
+});
+
+describe("handleCspReport", () => {
+	const log = vi.fn();
+	let server: http.Server;
+	let port: number;
+
+	beforeAll(async () => {
+		const reports = new CspReportLog(log);
+		server = http.createServer((req, res) => handleCspReport(req, res, reports, true));
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterAll(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	function send(method: string, body = ""): Promise<number> {
+		return new Promise((resolve, reject) => {
+			const req = http.request(
+				{
+					host: "127.0.0.1",
+					port,
+					path: CSP_REPORT_PATH,
+					method,
+					headers: { "Content-Type": "application/csp-report" },
+				},
+				(res) => {
+					res.resume();
+					resolve(res.statusCode ?? 0);
+				},
+			);
+			req.on("error", reject);
+			req.end(body);
+		});
+	}
+
+	it("logs violations and answers 204", async () => {
+		const status = await send(
+			"POST",
+			JSON.stringify({ "csp-report": { "violated-directive": "script-src", "blocked-uri": "inline" } }),
+		);
+		expect(status).toBe(204);
+		expect(log).toHaveBeenCalledWith("CSP violation: script-src blocked inline on unknown");
+	});
+
+	it("only accepts POST", async () => {
+		expect(await send("GET")).toBe(405);
+	});
+
+	it("refuses reports larger than 16 KiB", async () => {
+		log.mockClear();
+		const blocked = "x".repeat(17 * 1024);
+
+		const status = await send("POST", JSON.stringify({ "csp-report": { "blocked-uri": blocked } }));
+
+		expect(status).toBe(413);
+		expect(log).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,140 @@
+import http from "node:http";
+import type { AddressInfo, Socket } from "node:net";
+import type { Duplex } from "node:stream";
+import { afterEach, describe, expect, it } from "vitest";
+import { proxyUpgrade } from "../src/server/proxy";
+import { drainServer, encodeCloseFrame, trackSockets, WS_CLOSE_GOING_AWAY } from "../src/server/shutdown";
+
+function listen(server: http.Server): Promise<number> {
+	return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+}
+
+describe("encodeCloseFrame", () => {
+	it("encodes the code and reason in an unmasked close frame", () => {
+		const frame = encodeCloseFrame(1001, "bye");
+		expect([...frame]).toEqual([0x88, 5, 0x03, 0xe9, 0x62, 0x79, 0x65]);
+	});
+
+	it("keeps the payload within the control frame limit", () => {
+		expect(encodeCloseFrame(1001, "x".repeat(500))[1]).toBe(125);
+	});
+});
+
+describe("drainServer", () => {
+	const servers: http.Server[] = [];
+
+	afterEach(async () => {
+		for (const server of servers.splice(0)) {
+			server.closeAllConnections();
+			if (server.listening) await new Promise((resolve) => server.close(resolve));
+		}
+	});
+
+	async function start(handler: http.RequestListener) {
+		const server = http.createServer(handler);
+		servers.push(server);
+		const sockets = trackSockets(server);
+		const port = await listen(server);
+		return { server, sockets, port };
+	}
+
+	it("closes idle keep-alive connections right away", async () => {
+		const { server, sockets, port } = await start((_req, res) => res.end("ok"));
+		const agent = new http.Agent({ keepAlive: true });
+		await new Promise((resolve) =>
+			http.get({ host: "127.0.0.1", port, agent }, (res) => res.resume().on("end", resolve)),
+		);
+		expect(sockets.size).toBe(1);
+
+		const started = Date.now();
+		const result = await drainServer(server, { sockets, webSockets: new Map(), timeoutMs: 5000 });
+
+		expect(result.forced).toBe(0);
+		expect(Date.now() - started).toBeLessThan(1000);
+		agent.destroy();
+	});
+
+	it("lets in-flight requests finish", async () => {
+		const { server, sockets, port } = await start((_req, res) => {
+			setTimeout(() => res.end("done"), 100);
+		});
+		const response = new Promise<string>((resolve) => {
+			http.get({ host: "127.0.0.1", port }, (res) => {
+				let body = "";
+				res.on("data", (chunk) => {
+					body += chunk;
+				});
+				res.on("end", () => resolve(body));
+			});
+		});
+		await new Promise((resolve) => server.once("request", resolve));
+
+		const result = await drainServer(server, { sockets, webSockets: new Map(), timeoutMs: 5000 });
+
+		expect(await response).toBe("done");
+		expect(result.forced).toBe(0);
+	});
+
+	it("destroys connections still open at the deadline", async () => {
+		const { server, sockets, port } = await start(() => {
+			// never answers
+		});
+		const failed = new Promise<void>((resolve) => {
+			http.get({ host: "127.0.0.1", port }).on("error", () => resolve());
+		});
+		await new Promise((resolve) => server.once("request", resolve));
+
+		const result = await drainServer(server, { sockets, webSockets: new Map(), timeoutMs: 50 });
+
+		expect(result.forced).toBe(1);
+		await failed;
+	});
+
+	it("sends proxied WebSockets a going-away close frame", async () => {
+		const daemon = http.createServer();
+		servers.push(daemon);
+		daemon.on("upgrade", (_req, socket) => {
+			socket.write("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n");
+			socket.on("end", () => socket.end());
+		});
+		const daemonPort = await listen(daemon);
+
+		const webSockets = new Map<Duplex, Duplex>();
+		const { server, sockets, port } = await start(() => {});
+		server.on("upgrade", (req, socket, head) => {
+			proxyUpgrade(req, socket, head, { host: "127.0.0.1", port: daemonPort }, undefined, webSockets);
+		});
+
+		const client = await new Promise<Socket>((resolve) => {
+			http
+				.request({ host: "127.0.0.1", port, path: "/ws", headers: { Connection: "Upgrade", Upgrade: "websocket" } })
+				.on("upgrade", (_res, socket) => resolve(socket))
+				.end();
+		});
+		await new Promise<void>((resolve) => {
+			const poll = () => (webSockets.size === 1 ? resolve() : setTimeout(poll, 5));
+			poll();
+		});
+
+		const frame = new Promise<Buffer>((resolve) => client.once("data", resolve));
+		const drained = drainServer(server, { sockets, webSockets, timeoutMs: 5000 });
+
+		const received = await frame;
+		expect(received[0]).toBe(0x88);
+		expect(received.readUInt16BE(2)).toBe(WS_CLOSE_GOING_AWAY);
+
+		// The browser answers by closing its side
+		client.end();
+		expect((await drained).forced).toBe(0);
+	});
+
+	it("ends open event streams with going-away", async () => {
+		const { server, sockets } = await start(() => {});
+		const closed: number[] = [];
+		const eventStreams = new Set([{ close: (code: number) => closed.push(code) }]);
+
+		await drainServer(server, { sockets, webSockets: new Map(), eventStreams, timeoutMs: 5000 });
+
+		expect(closed).toEqual([WS_CLOSE_GOING_AWAY]);
+	});
+});
@@ -0,0 +1,285 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { brotliCompressSync, gunzipSync } from "node:zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	CONTENT_TYPES,
+	cacheControlFor,
+	computeEtag,
+	IMMUTABLE_CACHE_CONTROL,
+	injectBaseHref,
+	negotiateEncoding,
+	parseRange,
+	REVALIDATE_CACHE_CONTROL,
+	serveStatic,
+} from "../src/server/static";
+
+describe("negotiateEncoding", () => {
+	it("prefers brotli over gzip", () => {
+		expect(negotiateEncoding("gzip, deflate, br")).toBe("br");
+	});
+
+	it("falls back to gzip", () => {
+		expect(negotiateEncoding("gzip, deflate")).toBe("gzip");
+		expect(negotiateEncoding("br;q=0, gzip")).toBe("gzip");
+	});
+
+	it("honors the wildcard and q=0", () => {
+		expect(negotiateEncoding("*")).toBe("br");
+		expect(negotiateEncoding("*;q=0")).toBeNull();
+		expect(negotiateEncoding("identity")).toBeNull();
+		expect(negotiateEncoding(undefined)).toBeNull();
+	});
+});
+
+describe("cacheControlFor", () => {
+	it("treats hashed Vite assets as immutable", () => {
+		expect(cacheControlFor("/assets/index-BxK3a9.js")).toBe(IMMUTABLE_CACHE_CONTROL);
+	});
+
+	it("revalidates everything else", () => {
+		expect(cacheControlFor("/index.html")).toBe(REVALIDATE_CACHE_CONTROL);
+		expect(cacheControlFor("/favicon.svg")).toBe(REVALIDATE_CACHE_CONTROL);
+	});
+});
+
+describe("computeEtag", () => {
+	it("distinguishes encoded representations", () => {
+		expect(computeEtag(10, 1000)).toBe('W/"a-3e8"');
+		expect(computeEtag(10, 1000, "br")).toBe('W/"a-3e8-br"');
+	});
+});
+
+describe("injectBaseHref", () => {
+	it("adds a base element at the start of head", () => {
+		expect(injectBaseHref('<html><head lang="en"><title>x</title></head></html>', "/wopr")).toBe(
+			'<html><head lang="en">\n    <base href="/wopr/"><title>x</title></head></html>',
+		);
+	});
+
+	it("uses the root when there is no base path", () => {
+		expect(injectBaseHref("<head></head>", "")).toContain('<base href="/">');
+	});
+});
+
+describe("parseRange", () => {
+	it("parses closed, open-ended and suffix ranges", () => {
+		expect(parseRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+		expect(parseRange("bytes=900-", 1000)).toEqual({ start: 900, end: 999 });
+		expect(parseRange("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+	});
+
+	it("clamps ranges that run past the end", () => {
+		expect(parseRange("bytes=500-5000", 1000)).toEqual({ start: 500, end: 999 });
+		expect(parseRange("bytes=-5000", 1000)).toEqual({ start: 0, end: 999 });
+	});
+
+	it("rejects ranges that start past the end", () => {
+		expect(parseRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+		expect(parseRange("bytes=-0", 1000)).toBe("unsatisfiable");
+	});
+
+	it("ignores malformed, multiple and non-byte ranges", () => {
+		expect(parseRange(undefined, 1000)).toBeNull();
+		expect(parseRange("bytes=-", 1000)).toBeNull();
+		expect(parseRange("bytes=50-10", 1000)).toBeNull();
+		expect(parseRange("bytes=0-1,5-6", 1000)).toBeNull();
+		expect(parseRange("items=0-1", 1000)).toBeNull();
+	});
+});
+
+describe("CONTENT_TYPES", () => {
+	it("covers media, WebAssembly, source maps and manifests", () => {
+		expect(CONTENT_TYPES[".wasm"]).toBe("application/wasm");
+		expect(CONTENT_TYPES[".webp"]).toBe("image/webp");
+		expect(CONTENT_TYPES[".mp3"]).toBe("audio/mpeg");
+		expect(CONTENT_TYPES[".mp4"]).toBe("video/mp4");
+		expect(CONTENT_TYPES[".map"]).toBe("application/json");
+		expect(CONTENT_TYPES[".txt"]).toBe("text/plain");
+		expect(CONTENT_TYPES[".webmanifest"]).toBe("application/manifest+json");
+	});
+});
+
+describe("serveStatic", () => {
+	let root: string;
+	let distDir: string;
+	let server: http.Server;
+	let port: number;
+	const bundle = `console.log(${JSON.stringify("x".repeat(4096))});`;
+	const video = Buffer.from(Array.from({ length: 4096 }, (_, i) => i % 251));
+
+	beforeAll(async () => {
+		root = mkdtempSync(join(tmpdir(), "webui-static-"));
+		distDir = join(root, "dist");
+		mkdirSync(join(distDir, "assets"), { recursive: true });
+		mkdirSync(join(root, "dist2"));
+		writeFileSync(join(distDir, "index.html"), "<!DOCTYPE html><head></head><div id=root></div>");
+		writeFileSync(join(distDir, "assets", "index-abc123.js"), bundle);
+		writeFileSync(join(distDir, "assets", "index-abc123.js.br"), brotliCompressSync(bundle));
+		writeFileSync(join(distDir, "assets", "app-def456.css"), `body{color:red}${" ".repeat(2048)}`);
+		writeFileSync(join(distDir, "logo.png"), Buffer.alloc(2048, 1));
+		writeFileSync(join(distDir, "clip.mp4"), video);
+		writeFileSync(join(root, "dist2", "secret.txt"), "secret");
+
+		server = http.createServer((req, res) => {
+			serveStatic(req, res, distDir, (req.url ?? "/").split("?")[0], "/wopr");
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterAll(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	function fetchRaw(
+		path: string,
+		headers: Record<string, string> = {},
+		method = "GET",
+	): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request({ host: "127.0.0.1", port, path, headers, method }, (res) => {
+				const chunks: Buffer[] = [];
+				res.on("data", (chunk) => chunks.push(chunk));
+				res.on("end", () =>
+					resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) }),
+				);
+			});
+			req.on("error", reject);
+			req.end();
+		});
+	}
+
+	it("serves hashed assets as immutable", async () => {
+		const res = await fetchRaw("/assets/index-abc123.js");
+		expect(res.status).toBe(200);
+		expect(res.headers["cache-control"]).toBe(IMMUTABLE_CACHE_CONTROL);
+		expect(res.headers.etag).toMatch(/^W\/"/);
+		expect(res.headers["last-modified"]).toBeDefined();
+		expect(res.body.toString()).toBe(bundle);
+	});
+
+	it("serves index.html with revalidation", async () => {
+		const res = await fetchRaw("/sessions/abc");
+		expect(res.status).toBe(200);
+		expect(res.headers["content-type"]).toBe("text/html");
+		expect(res.headers["cache-control"]).toBe(REVALIDATE_CACHE_CONTROL);
+	});
+
+	it("answers 304 when the ETag matches", async () => {
+		const first = await fetchRaw("/index.html");
+		const second = await fetchRaw("/index.html", { "If-None-Match": first.headers.etag ?? "" });
+		expect(second.status).toBe(304);
+		expect(second.body.length).toBe(0);
+	});
+
+	it("answers 304 when not modified since", async () => {
+		const first = await fetchRaw("/logo.png");
+		const second = await fetchRaw("/logo.png", { "If-Modified-Since": first.headers["last-modified"] ?? "" });
+		expect(second.status).toBe(304);
+	});
+
+	it("injects the base path into index.html", async () => {
+		const res = await fetchRaw("/sessions/abc");
+		expect(res.body.toString()).toContain('<base href="/wopr/">');
+		expect(res.headers["last-modified"]).toBeUndefined();
+	});
+
+	it("serves the full file when the ETag is stale", async () => {
+		const res = await fetchRaw("/index.html", { "If-None-Match": 'W/"0-0"' });
+		expect(res.status).toBe(200);
+	});
+
+	it("prefers a precompressed .br file", async () => {
+		const res = await fetchRaw("/assets/index-abc123.js", { "Accept-Encoding": "gzip, br" });
+		expect(res.headers["content-encoding"]).toBe("br");
+		expect(res.headers.vary).toBe("Accept-Encoding");
+		expect(res.headers.etag).toMatch(/-br"$/);
+		expect(res.body.equals(brotliCompressSync(bundle))).toBe(true);
+	});
+
+	it("compresses on the fly when no precompressed file exists", async () => {
+		const res = await fetchRaw("/assets/app-def456.css", { "Accept-Encoding": "gzip" });
+		expect(res.headers["content-encoding"]).toBe("gzip");
+		expect(res.headers["content-length"]).toBeUndefined();
+		expect(gunzipSync(res.body).toString()).toMatch(/^body\{color:red\}/);
+	});
+
+	it("does not compress small or already-compressed files", async () => {
+		const small = await fetchRaw("/index.html", { "Accept-Encoding": "gzip" });
+		expect(small.headers["content-encoding"]).toBeUndefined();
+
+		const image = await fetchRaw("/logo.png", { "Accept-Encoding": "gzip" });
+		expect(image.headers["content-encoding"]).toBeUndefined();
+		expect(image.headers["content-length"]).toBe("2048");
+	});
+
+	it("sends headers only for HEAD", async () => {
+		const res = await fetchRaw("/assets/index-abc123.js", {}, "HEAD");
+		expect(res.status).toBe(200);
+		expect(res.headers["content-length"]).toBe(String(bundle.length));
+		expect(res.body.length).toBe(0);
+	});
+
+	it("advertises byte ranges", async () => {
+		const res = await fetchRaw("/clip.mp4");
+		expect(res.status).toBe(200);
+		expect(res.headers["accept-ranges"]).toBe("bytes");
+		expect(res.headers["content-type"]).toBe("video/mp4");
+	});
+
+	it("serves a byte range as 206 Partial Content", async () => {
+		const res = await fetchRaw("/clip.mp4", { Range: "bytes=100-199" });
+		expect(res.status).toBe(206);
+		expect(res.headers["content-range"]).toBe("bytes 100-199/4096");
+		expect(res.headers["content-length"]).toBe("100");
+		expect(res.body.equals(video.subarray(100, 200))).toBe(true);
+	});
+
+	it("resumes from an offset to the end of the file", async () => {
+		const res = await fetchRaw("/clip.mp4", { Range: "bytes=4000-" });
+		expect(res.status).toBe(206);
+		expect(res.headers["content-range"]).toBe("bytes 4000-4095/4096");
+		expect(res.body.equals(video.subarray(4000))).toBe(true);
+	});
+
+	it("answers 416 for a range past the end", async () => {
+		const res = await fetchRaw("/clip.mp4", { Range: "bytes=5000-" });
+		expect(res.status).toBe(416);
+		expect(res.headers["content-range"]).toBe("bytes */4096");
+		expect(res.body.length).toBe(0);
+	});
+
+	it("sends the whole file when If-Range no longer matches", async () => {
+		const first = await fetchRaw("/clip.mp4");
+		const current = await fetchRaw("/clip.mp4", { Range: "bytes=0-9", "If-Range": first.headers.etag ?? "" });
+		const stale = await fetchRaw("/clip.mp4", { Range: "bytes=0-9", "If-Range": 'W/"0-0"' });
+		expect(current.status).toBe(206);
+		expect(stale.status).toBe(200);
+		expect(stale.body.length).toBe(4096);
+	});
+
+	it("serves ranges of compressible files unencoded", async () => {
+		const res = await fetchRaw("/assets/index-abc123.js", { Range: "bytes=0-10", "Accept-Encoding": "br" });
+		expect(res.status).toBe(206);
+		expect(res.headers["content-encoding"]).toBeUndefined();
+		expect(res.body.toString()).toBe(bundle.slice(0, 11));
+	});
+
+	it("sends range headers only for HEAD", async () => {
+		const res = await fetchRaw("/clip.mp4", { Range: "bytes=0-9" }, "HEAD");
+		expect(res.status).toBe(206);
+		expect(res.headers["content-length"]).toBe("10");
+		expect(res.body.length).toBe(0);
+	});
+
+	it("blocks traversal into sibling directories", async () => {
+		const res = await fetchRaw("/../dist2/secret.txt");
+		expect(res.status).toBe(403);
+	});
+});
@@ -0,0 +1,539 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	CLOSE_HEARTBEAT_TIMEOUT,
+	parseStreamEvent,
+	reconnectDelay,
+	replyTo,
+	StreamClient,
+	type StreamClientOptions,
+} from "../src/lib/stream";
+
+class FakeWebSocket {
+	static instances: FakeWebSocket[] = [];
+	readyState = 0;
+	sent: unknown[] = [];
+	onopen: (() => void) | null = null;
+	onmessage: ((event: { data: unknown }) => void) | null = null;
+	onclose: ((event: { code: number }) => void) | null = null;
+	close = vi.fn();
+
+	constructor(readonly url: string) {
+		FakeWebSocket.instances.push(this);
+	}
+
+	send(data: string) {
+		this.sent.push(JSON.parse(data));
+	}
+
+	open() {
+		this.readyState = 1;
+		this.onopen?.();
+	}
+
+	receive(data: unknown) {
+		this.onmessage?.({ data: typeof data === "string" ? data : JSON.stringify(data) });
+	}
+
+	drop(code = 1006) {
+		this.readyState = 3;
+		this.onclose?.({ code });
+	}
+}
+
+class FakeEventSource {
+	static instances: FakeEventSource[] = [];
+	onopen: (() => void) | null = null;
+	onmessage: ((event: { data: unknown }) => void) | null = null;
+	onerror: (() => void) | null = null;
+	listeners = new Map<string, (event: { data: unknown }) => void>();
+	close = vi.fn();
+
+	constructor(readonly url: string) {
+		FakeEventSource.instances.push(this);
+	}
+
+	addEventListener(type: string, listener: (event: { data: unknown }) => void) {
+		this.listeners.set(type, listener);
+	}
+
+	/** Sessions and resume cursors in the stream's URL */
+	get query() {
+		const params = new URL(this.url, "http://localhost").searchParams;
+		const resume = params.get("resume");
+		return { sessions: params.getAll("session"), resume: resume === null ? undefined : JSON.parse(resume) };
+	}
+
+	open() {
+		this.onopen?.();
+	}
+
+	receive(data: unknown) {
+		this.onmessage?.({ data: JSON.stringify(data) });
+	}
+
+	end(code: number) {
+		this.listeners.get("close")?.({ data: String(code) });
+	}
+
+	heartbeat() {
+		this.listeners.get("heartbeat")?.({ data: "" });
+	}
+}
+
+function latest(): FakeWebSocket {
+	return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+function client(options: Partial<StreamClientOptions> = {}) {
+	return new StreamClient({
+		url: () => "ws://localhost/ws",
+		WebSocket: FakeWebSocket as unknown as typeof WebSocket,
+		random: () => 1,
+		...options,
+	});
+}
+
+const textEvent = (session: string, content: string) => ({
+	type: "stream",
+	session,
+	message: { type: "text", content },
+});
+
+beforeEach(() => {
+	FakeWebSocket.instances = [];
+	FakeEventSource.instances = [];
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe("StreamClient", () => {
+	it("reports its connection state", () => {
+		const stream = client();
+		stream.connect();
+		expect(stream.state()).toBe("connecting");
+
+		latest().open();
+		expect(stream.state()).toBe("open");
+
+		stream.close();
+		expect(stream.state()).toBe("offline");
+		expect(latest().close).toHaveBeenCalled();
+	});
+
+	it("subscribes per session and delivers only matching events", () => {
+		const stream = client();
+		stream.connect();
+		latest().open();
+		const onStream = vi.fn();
+		const onInjection = vi.fn();
+
+		stream.subscribe("main", "stream", onStream);
+		stream.subscribe("main", "injection", onInjection);
+		latest().receive(textEvent("main", "hello"));
+		latest().receive(textEvent("other", "ignored"));
+
+		expect(latest().sent).toEqual([{ type: "subscribe", sessions: ["main"] }]);
+		expect(onStream).toHaveBeenCalledTimes(1);
+		expect(onStream).toHaveBeenCalledWith(textEvent("main", "hello"));
+		expect(onInjection).not.toHaveBeenCalled();
+	});
+
+	it("unsubscribes from the daemon when the last handler goes", () => {
+		const stream = client();
+		stream.connect();
+		latest().open();
+
+		const first = stream.subscribe("main", "stream", vi.fn());
+		const second = stream.subscribe("main", "injection", vi.fn());
+		first();
+		second();
+		second();
+
+		expect(latest().sent).toEqual([
+			{ type: "subscribe", sessions: ["main"] },
+			{ type: "unsubscribe", sessions: ["main"] },
+		]);
+	});
+
+	it("ignores malformed frames", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const stream = client();
+		stream.connect();
+		latest().open();
+		const handler = vi.fn();
+		stream.subscribe("main", "stream", handler);
+
+		latest().receive("{not json");
+		latest().receive(textEvent("main", "still here"));
+
+		expect(warn).toHaveBeenCalledWith("Ignoring malformed stream event:", "{not json");
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+
+	it("reconnects with backoff and restores subscriptions", () => {
+		const stream = client({ baseDelayMs: 1000 });
+		stream.connect();
+		latest().open();
+		stream.subscribe("main", "stream", vi.fn());
+		stream.subscribe("ops", "stream", vi.fn());
+
+		latest().drop(1001);
+		expect(stream.state()).toBe("reconnecting");
+		expect(stream.closeCode()).toBe(1001);
+
+		vi.advanceTimersByTime(1000);
+		expect(FakeWebSocket.instances).toHaveLength(2);
+		latest().drop();
+		vi.advanceTimersByTime(1999);
+		expect(FakeWebSocket.instances).toHaveLength(2);
+		vi.advanceTimersByTime(1);
+		expect(FakeWebSocket.instances).toHaveLength(3);
+
+		latest().open();
+		expect(stream.state()).toBe("open");
+		expect(stream.closeCode()).toBeNull();
+		expect(latest().sent).toEqual([{ type: "subscribe", sessions: ["main", "ops"], resume: {} }]);
+	});
+
+	it("repeats the subscribe for a reply, and reconnects when the daemon goes quiet", () => {
+		const stream = client({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 2500 });
+		stream.connect();
+		const socket = latest();
+		socket.open();
+		stream.subscribe("main", "stream", vi.fn());
+		socket.sent = [];
+
+		vi.advanceTimersByTime(1000);
+		expect(socket.sent).toEqual([{ type: "subscribe", sessions: ["main"] }]);
+
+		// The daemon's reply to every subscribe
+		socket.receive({ type: "subscribed" });
+		vi.advanceTimersByTime(2000);
+		expect(socket.close).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(1000);
+		expect(socket.close).toHaveBeenCalledWith(CLOSE_HEARTBEAT_TIMEOUT, "Heartbeat timeout");
+		expect(stream.state()).toBe("reconnecting");
+	});
+
+	it("keeps a connection with no subscriptions open without asking for replies", () => {
+		const stream = client({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 2500 });
+		stream.connect();
+		const socket = latest();
+		socket.open();
+
+		vi.advanceTimersByTime(10_000);
+
+		expect(socket.sent).toEqual([]);
+		expect(stream.state()).toBe("open");
+	});
+
+	it("stops reconnecting once closed", () => {
+		const stream = client();
+		stream.connect();
+		latest().drop();
+
+		stream.close();
+		vi.advanceTimersByTime(60_000);
+
+		expect(FakeWebSocket.instances).toHaveLength(1);
+		expect(stream.state()).toBe("offline");
+	});
+});
+
+describe("StreamClient resume", () => {
+	function reconnect() {
+		latest().drop();
+		vi.advanceTimersByTime(1000);
+		latest().open();
+	}
+
+	it("asks the daemon to replay from the last event seen", () => {
+		const stream = client();
+		stream.connect();
+		latest().open();
+		stream.subscribe("main", "stream", vi.fn());
+		stream.subscribe("ops", "stream", vi.fn());
+		latest().receive({ ...textEvent("main", "a"), seq: 41, ts: 1000 });
+
+		reconnect();
+
+		expect(latest().sent).toEqual([
+			{ type: "subscribe", sessions: ["main", "ops"], resume: { main: { seq: 41, ts: 1000 } } },
+		]);
+	});
+
+	it("leaves the heartbeat subscribe out while a resume is unanswered", () => {
+		const stream = client({ heartbeatIntervalMs: 1000, resumeTimeoutMs: 5000 });
+		stream.connect();
+		latest().open();
+		stream.subscribe("main", "stream", vi.fn());
+
+		reconnect();
+		vi.advanceTimersByTime(2000);
+
+		// Only the resume, whose "subscribed" reply decides what is a gap
+		expect(latest().sent).toEqual([{ type: "subscribe", sessions: ["main"], resume: {} }]);
+	});
+
+	it("skips events it has already delivered", () => {
+		const stream = client();
+		stream.connect();
+		latest().open();
+		const handler = vi.fn();
+		stream.subscribe("main", "stream", handler);
+		latest().receive({ ...textEvent("main", "a"), seq: 1 });
+		latest().receive({ ...textEvent("main", "b"), seq: 2 });
+
+		reconnect();
+		latest().receive({ ...textEvent("main", "b"), seq: 2 });
+		latest().receive({ ...textEvent("main", "c"), seq: 3 });
+
+		expect(handler.mock.calls.map(([event]) => event.message.content)).toEqual(["a", "b", "c"]);
+	});
+
+	it("reports a gap for sessions the daemon does not replay", () => {
+		const stream = client();
+		stream.connect();
+		latest().open();
+		stream.subscribe("main", "stream", vi.fn());
+		stream.subscribe("ops", "stream", vi.fn());
+		const onGap = vi.fn();
+		stream.onGap("main", onGap);
+		stream.onGap("ops", onGap);
+
+		reconnect();
+		latest().receive({ type: "subscribed", resumed: ["main"] });
+
+		expect(onGap).toHaveBeenCalledTimes(1);
+		expect(onGap).toHaveBeenCalledWith("ops");
+	});
+
+	it("reports a gap when the daemon never confirms the resume", () => {
+		const stream = client({ resumeTimeoutMs: 5000 });
+		stream.connect();
+		latest().open();
+		stream.subscribe("main", "stream", vi.fn());
+		const onGap = vi.fn();
+		stream.onGap("main", onGap);
+
+		reconnect();
+		vi.advanceTimersByTime(4999);
+		expect(onGap).not.toHaveBeenCalled();
+		vi.advanceTimersByTime(1);
+
+		expect(onGap).toHaveBeenCalledWith("main");
+	});
+
+	it("does not report gaps on the first connect", () => {
+		const stream = client();
+		stream.subscribe("main", "stream", vi.fn());
+		const onGap = vi.fn();
+		stream.onGap("main", onGap);
+
+		stream.connect();
+		latest().open();
+		vi.advanceTimersByTime(10_000);
+
+		expect(latest().sent).toEqual([{ type: "subscribe", sessions: ["main"] }]);
+		expect(onGap).not.toHaveBeenCalled();
+	});
+});
+
+describe("StreamClient SSE fallback", () => {
+	function sseClient(options: Partial<StreamClientOptions> = {}) {
+		return client({
+			eventsUrl: () => "/events",
+			EventSource: FakeEventSource as unknown as typeof EventSource,
+			fallbackAfter: 2,
+			...options,
+		});
+	}
+
+	function latestSource(): FakeEventSource {
+		return FakeEventSource.instances[FakeEventSource.instances.length - 1];
+	}
+
+	/** Fail WebSockets until the client falls back, then open the event stream */
+	function fallBack(stream: StreamClient) {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		stream.connect();
+		latest().drop();
+		vi.advanceTimersByTime(1000);
+		latest().drop();
+		vi.advanceTimersByTime(1000);
+		latestSource().open();
+	}
+
+	it("switches to SSE after WebSockets fail to open repeatedly", () => {
+		const stream = sseClient();
+		stream.connect();
+		expect(stream.transport()).toBe("websocket");
+
+		latest().drop();
+		vi.advanceTimersByTime(1000);
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		latest().drop();
+		expect(stream.transport()).toBe("sse");
+
+		vi.advanceTimersByTime(1000);
+		expect(FakeWebSocket.instances).toHaveLength(2);
+		expect(latestSource().url).toBe("/events");
+		latestSource().open();
+		expect(stream.state()).toBe("open");
+	});
+
+	it("keeps to WebSockets when they open between failures", () => {
+		const stream = sseClient();
+		stream.connect();
+		latest().drop();
+		vi.advanceTimersByTime(1000);
+		latest().open();
+		latest().drop();
+		vi.advanceTimersByTime(1000);
+		latest().drop();
+
+		expect(stream.transport()).toBe("websocket");
+	});
+
+	it("needs an events URL to fall back", () => {
+		const stream = sseClient({ eventsUrl: undefined });
+		stream.connect();
+		for (let i = 0; i < 5; i++) {
+			latest().drop();
+			vi.advanceTimersByTime(60_000);
+		}
+
+		expect(stream.transport()).toBe("websocket");
+		expect(FakeEventSource.instances).toHaveLength(0);
+	});
+
+	it("delivers events from the stream", () => {
+		const stream = sseClient();
+		const handler = vi.fn();
+		stream.subscribe("main", "stream", handler);
+		fallBack(stream);
+
+		expect(latestSource().query).toEqual({ sessions: ["main"], resume: undefined });
+		latestSource().receive(textEvent("main", "hello"));
+		expect(handler).toHaveBeenCalledWith(textEvent("main", "hello"));
+	});
+
+	it("reopens the stream once when subscriptions change", async () => {
+		const stream = sseClient();
+		fallBack(stream);
+		const first = latestSource();
+
+		const unsubscribe = stream.subscribe("main", "stream", vi.fn());
+		stream.subscribe("ops", "stream", vi.fn());
+		await Promise.resolve();
+
+		expect(first.close).toHaveBeenCalled();
+		expect(FakeEventSource.instances).toHaveLength(2);
+		expect(latestSource().query.sessions).toEqual(["main", "ops"]);
+		expect(stream.state()).toBe("open");
+
+		latestSource().open();
+		unsubscribe();
+		await Promise.resolve();
+		expect(latestSource().query.sessions).toEqual(["ops"]);
+	});
+
+	it("reconnects with resume cursors and the close code the server sent", () => {
+		const stream = sseClient();
+		stream.subscribe("main", "stream", vi.fn());
+		fallBack(stream);
+		latestSource().receive({ ...textEvent("main", "a"), seq: 7, ts: 500 });
+
+		const dropped = latestSource();
+		dropped.end(1001);
+		expect(dropped.close).toHaveBeenCalled();
+		expect(stream.state()).toBe("reconnecting");
+		expect(stream.closeCode()).toBe(1001);
+
+		vi.advanceTimersByTime(1000);
+		expect(latestSource().query).toEqual({ sessions: ["main"], resume: { main: { seq: 7, ts: 500 } } });
+		expect(stream.transport()).toBe("sse");
+	});
+
+	it("stays open on the server's heartbeats, and reconnects without them", () => {
+		const stream = sseClient({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 2500 });
+		stream.subscribe("main", "stream", vi.fn());
+		fallBack(stream);
+		const source = latestSource();
+
+		for (let i = 0; i < 5; i++) {
+			vi.advanceTimersByTime(1000);
+			source.heartbeat();
+		}
+		expect(source.close).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(3000);
+		expect(source.close).toHaveBeenCalled();
+		expect(stream.closeCode()).toBe(CLOSE_HEARTBEAT_TIMEOUT);
+	});
+
+	it("takes over reconnecting from the EventSource after an error", () => {
+		const stream = sseClient();
+		fallBack(stream);
+		const failed = latestSource();
+
+		failed.onerror?.();
+		expect(failed.close).toHaveBeenCalled();
+		expect(stream.state()).toBe("reconnecting");
+		vi.advanceTimersByTime(1000);
+		expect(FakeEventSource.instances).toHaveLength(2);
+	});
+});
+
+describe("replyTo", () => {
+	const entry = (type: string, content: string) => ({
+		ts: 0,
+		from: type === "response" ? "wopr" : "web",
+		type,
+		content,
+	});
+
+	it("finds the reply to the last time the message was sent", () => {
+		const history = [
+			entry("message", "status?"),
+			entry("response", "all good"),
+			entry("message", "status?"),
+			entry("context", "note"),
+			entry("response", "still good"),
+		];
+
+		expect(replyTo(history, "status?")).toBe("still good");
+	});
+
+	it("is null while the reply is still being written", () => {
+		expect(replyTo([entry("message", "status?")], "status?")).toBeNull();
+		expect(replyTo([], "status?")).toBeNull();
+	});
+});
+
+describe("parseStreamEvent", () => {
+	it("accepts objects with a type", () => {
+		expect(parseStreamEvent('{"type":"connected"}')).toEqual({ type: "connected" });
+	});
+
+	it("rejects everything else", () => {
+		expect(parseStreamEvent("not json")).toBeNull();
+		expect(parseStreamEvent("[1]")).toBeNull();
+		expect(parseStreamEvent("null")).toBeNull();
+		expect(parseStreamEvent(new ArrayBuffer(1))).toBeNull();
+	});
+});
+
+describe("reconnectDelay", () => {
+	it("doubles up to the cap, with full jitter", () => {
+		expect(reconnectDelay(0, 1000, 30_000, () => 1)).toBe(1000);
+		expect(reconnectDelay(3, 1000, 30_000, () => 1)).toBe(8000);
+		expect(reconnectDelay(3, 1000, 30_000, () => 0.25)).toBe(2000);
+		expect(reconnectDelay(10, 1000, 30_000, () => 1)).toBe(30_000);
+	});
+});
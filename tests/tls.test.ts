@@ -0,0 +1,217 @@
+import { createPrivateKey, randomBytes, X509Certificate } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	certificateNames,
+	createRedirectServer,
+	generateSelfSignedCertificate,
+	loadTlsCredentials,
+	SELF_SIGNED_CERT,
+	SELF_SIGNED_DIR,
+	SELF_SIGNED_KEY,
+} from "../src/server/tls";
+
+// Serials come from randomBytes; let a test pick the bytes
+vi.mock("node:crypto", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("node:crypto")>();
+	return { ...actual, randomBytes: vi.fn(actual.randomBytes) };
+});
+
+/** The serial number INTEGER of a PEM certificate, tag and length included */
+function serialField(cert: string): Buffer {
+	const der = Buffer.from(cert.replace(/-----[^-]+-----|\s/g, ""), "base64");
+	// Skip a tag and its length, landing on the content
+	const enter = (at: number) => at + 2 + (der[at + 1] & 0x80 ? der[at + 1] & 0x7f : 0);
+	const skip = (at: number) => {
+		const length = der[at + 1] & 0x80 ? der.readUIntBE(at + 2, der[at + 1] & 0x7f) : der[at + 1];
+		return enter(at) + length;
+	};
+	// Certificate > TBSCertificate > [0] version, then the serial
+	const serial = skip(enter(enter(0)));
+	return der.subarray(serial, skip(serial));
+}
+
+describe("generateSelfSignedCertificate", () => {
+	it("produces a certificate Node can parse and verify", () => {
+		const { cert } = generateSelfSignedCertificate(["localhost", "127.0.0.1"]);
+		const x509 = new X509Certificate(cert);
+
+		expect(x509.subject).toBe("CN=WOPR Web UI");
+		expect(x509.verify(x509.publicKey)).toBe(true);
+	});
+
+	it("covers the requested host names and addresses", () => {
+		const { cert } = generateSelfSignedCertificate(["localhost", "wopr.lan", "127.0.0.1", "::1", "fe80::1"]);
+		const x509 = new X509Certificate(cert);
+
+		expect(x509.checkHost("localhost")).toBe("localhost");
+		expect(x509.checkHost("wopr.lan")).toBe("wopr.lan");
+		expect(x509.checkIP("127.0.0.1")).toBe("127.0.0.1");
+		expect(x509.checkIP("::1")).toBe("::1");
+		expect(x509.checkIP("fe80::1")).toBe("fe80::1");
+		expect(x509.checkHost("example.com")).toBeUndefined();
+	});
+
+	it("pairs the certificate with its private key", () => {
+		const { cert, key } = generateSelfSignedCertificate(["localhost"]);
+		expect(new X509Certificate(cert).checkPrivateKey(createPrivateKey(key))).toBe(true);
+	});
+
+	it("encodes serial numbers as minimal positive DER integers", () => {
+		const highBit = Buffer.from([0x80, ...Array(15).fill(0x11)]);
+		vi.mocked(randomBytes).mockReturnValueOnce(highBit as never);
+		// A zero byte is needed to keep it positive, but no more
+		expect(serialField(generateSelfSignedCertificate(["localhost"]).cert)).toEqual(
+			Buffer.from([0x02, 17, 0x00, ...highBit]),
+		);
+
+		const leadingZeros = Buffer.from([0, 0, 0x12, ...Array(13).fill(0x34)]);
+		vi.mocked(randomBytes).mockReturnValueOnce(leadingZeros as never);
+		// Redundant leading zeros are dropped
+		const { cert } = generateSelfSignedCertificate(["localhost"]);
+		expect(serialField(cert)).toEqual(Buffer.from([0x02, 14, ...leadingZeros.subarray(2)]));
+		expect(new X509Certificate(cert).serialNumber).toBe(leadingZeros.subarray(2).toString("hex").toUpperCase());
+	});
+
+	it("serves a TLS handshake that trusts it as a CA", async () => {
+		const credentials = generateSelfSignedCertificate(["localhost", "127.0.0.1"]);
+		const server = https.createServer(credentials, (_req, res) => res.end("secure"));
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		const { port } = server.address() as AddressInfo;
+
+		const body = await new Promise<string>((resolve, reject) => {
+			https
+				.get({ host: "127.0.0.1", port, ca: credentials.cert }, (res) => {
+					let data = "";
+					res.on("data", (chunk) => {
+						data += chunk;
+					});
+					res.on("end", () => resolve(data));
+				})
+				.on("error", reject);
+		});
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+
+		expect(body).toBe("secure");
+	});
+});
+
+describe("certificateNames", () => {
+	it("always covers loopback", () => {
+		expect(certificateNames("127.0.0.1")).toEqual(["localhost", "127.0.0.1", "::1"]);
+	});
+
+	it("adds a specific bind address but not wildcards", () => {
+		expect(certificateNames("192.168.1.20")).toContain("192.168.1.20");
+		expect(certificateNames("0.0.0.0")).toEqual(["localhost", "127.0.0.1", "::1"]);
+	});
+
+	it("covers every listen host", () => {
+		expect(certificateNames(["127.0.0.1", "192.168.1.20", "0.0.0.0", "wopr.lan"])).toEqual([
+			"localhost",
+			"127.0.0.1",
+			"::1",
+			"192.168.1.20",
+			"wopr.lan",
+		]);
+	});
+});
+
+describe("loadTlsCredentials", () => {
+	let pluginDir: string;
+
+	beforeEach(() => {
+		pluginDir = mkdtempSync(join(tmpdir(), "webui-tls-"));
+	});
+
+	afterEach(() => {
+		rmSync(pluginDir, { recursive: true, force: true });
+	});
+
+	it("generates and stores a self-signed certificate in the plugin dir", () => {
+		const created = loadTlsCredentials(pluginDir, { mode: "self-signed" }, "127.0.0.1");
+		const certPath = join(pluginDir, SELF_SIGNED_DIR, SELF_SIGNED_CERT);
+		const keyPath = join(pluginDir, SELF_SIGNED_DIR, SELF_SIGNED_KEY);
+
+		expect(readFileSync(certPath, "utf8")).toBe(created.cert);
+		expect(readFileSync(keyPath, "utf8")).toBe(created.key);
+		expect(statSync(keyPath).mode & 0o777).toBe(0o600);
+	});
+
+	it("reuses a stored certificate that still fits", () => {
+		const first = loadTlsCredentials(pluginDir, { mode: "self-signed" }, "127.0.0.1");
+		const second = loadTlsCredentials(pluginDir, { mode: "self-signed" }, "127.0.0.1");
+		expect(second.cert).toBe(first.cert);
+	});
+
+	it("regenerates when the bind host is not covered", () => {
+		const first = loadTlsCredentials(pluginDir, { mode: "self-signed" }, "127.0.0.1");
+		const second = loadTlsCredentials(pluginDir, { mode: "self-signed" }, "10.1.2.3");
+		expect(second.cert).not.toBe(first.cert);
+		expect(new X509Certificate(second.cert).checkIP("10.1.2.3")).toBe("10.1.2.3");
+	});
+
+	it("reads user-provided files", () => {
+		const stored = loadTlsCredentials(pluginDir, { mode: "self-signed" }, "127.0.0.1");
+		const loaded = loadTlsCredentials(
+			"/unused",
+			{
+				mode: "files",
+				certPath: join(pluginDir, SELF_SIGNED_DIR, SELF_SIGNED_CERT),
+				keyPath: join(pluginDir, SELF_SIGNED_DIR, SELF_SIGNED_KEY),
+			},
+			"127.0.0.1",
+		);
+		expect(loaded).toEqual(stored);
+	});
+
+	it("throws when files mode is missing a path", () => {
+		expect(() => loadTlsCredentials(pluginDir, { mode: "files", certPath: "/x.pem" }, "127.0.0.1")).toThrow(
+			"needs both a certificate path and a key path",
+		);
+	});
+});
+
+describe("createRedirectServer", () => {
+	let server: http.Server;
+	let port: number;
+
+	beforeEach(async () => {
+		server = createRedirectServer(8443);
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterEach(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	function location(host: string, path: string): Promise<{ status: number; location?: string }> {
+		return new Promise((resolve, reject) => {
+			http
+				.get({ host: "127.0.0.1", port, path, headers: { Host: host } }, (res) => {
+					res.resume();
+					resolve({ status: res.statusCode ?? 0, location: res.headers.location });
+				})
+				.on("error", reject);
+		});
+	}
+
+	it("redirects to the HTTPS port on the same host, keeping the path", async () => {
+		expect(await location("wopr.lan:8080", "/settings?tab=1")).toEqual({
+			status: 301,
+			location: "https://wopr.lan:8443/settings?tab=1",
+		});
+	});
+
+	it("keeps IPv6 literals bracketed", async () => {
+		expect((await location("[::1]:8080", "/")).location).toBe("https://[::1]:8443/");
+	});
+});
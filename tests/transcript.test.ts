@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+	addMessage,
+	appendReply,
+	finishReply,
+	formatTimestamp,
+	fromHistory,
+	mergeHistory,
+	setReply,
+	type TranscriptMessage,
+} from "../src/lib/transcript";
+
+const user = (content: string, ts = 1): TranscriptMessage => ({ role: "user", content, ts });
+const reply = (content: string, ts = 2, streaming = false): TranscriptMessage => ({
+	role: "assistant",
+	content,
+	ts,
+	streaming,
+});
+
+describe("fromHistory", () => {
+	it("maps history entries to roles", () => {
+		const messages = fromHistory([
+			{ ts: 1, from: "web", content: "status?", type: "message" },
+			{ ts: 2, from: "wopr", content: "all good", type: "response" },
+			{ ts: 3, from: "cron", content: "nightly report", type: "context" },
+		]);
+
+		expect(messages.map((message) => message.role)).toEqual(["user", "assistant", "injection"]);
+		expect(messages[2]).toEqual({ role: "injection", content: "nightly report", ts: 3, from: "cron" });
+	});
+});
+
+describe("mergeHistory", () => {
+	it("keeps live messages newer than the history", () => {
+		const loaded = [user("a", 1), reply("b", 2)];
+		const live = [reply("b", 2), user("c", 5)];
+
+		expect(mergeHistory(loaded, live)).toEqual([...loaded, user("c", 5)]);
+	});
+
+	it("keeps a reply that is still streaming", () => {
+		const loaded = [user("a", 10)];
+		const streaming = reply("par", 5, true);
+
+		expect(mergeHistory(loaded, [streaming])).toEqual([user("a", 10), streaming]);
+	});
+
+	it("drops live messages the history already logged", () => {
+		const loaded = [user("a", 10)];
+
+		expect(mergeHistory(loaded, [user("a", 11)])).toEqual(loaded);
+	});
+});
+
+describe("replies", () => {
+	it("streams text into a new reply and finishes it", () => {
+		let messages = [user("hi")];
+		messages = appendReply(messages, "Hel", 3);
+		messages = appendReply(messages, "lo", 4);
+
+		expect(messages[1]).toEqual(reply("Hello", 3, true));
+		expect(finishReply(messages)[1]).toEqual(reply("Hello", 3, false));
+	});
+
+	it("starts a new reply after a finished one", () => {
+		const messages = appendReply([reply("first")], "second", 5);
+
+		expect(messages).toHaveLength(2);
+		expect(messages[1]).toEqual(reply("second", 5, true));
+	});
+
+	it("leaves lists without a streaming reply alone", () => {
+		const messages = [user("hi")];
+		expect(finishReply(messages)).toBe(messages);
+	});
+
+	it("does not change the list it was given", () => {
+		const messages = [user("hi")];
+		addMessage(messages, user("again"));
+		appendReply(messages, "text", 2);
+
+		expect(messages).toEqual([user("hi")]);
+	});
+
+	it("replaces the reply to the last user message", () => {
+		const messages = [user("one"), reply("first"), user("two"), reply("trunc", 4, true)];
+
+		expect(setReply(messages, "truncated no more", 9)).toEqual([
+			user("one"),
+			reply("first"),
+			user("two"),
+			reply("truncated no more", 4, false),
+		]);
+	});
+
+	it("adds the reply when none arrived", () => {
+		expect(setReply([user("one")], "whole", 9)).toEqual([user("one"), { role: "assistant", content: "whole", ts: 9 }]);
+	});
+});
+
+describe("formatTimestamp", () => {
+	it("shows the time for today and the date before that", () => {
+		const now = new Date(2026, 4, 10, 15, 0).getTime();
+		const today = formatTimestamp(new Date(2026, 4, 10, 9, 30).getTime(), now);
+		const earlier = formatTimestamp(new Date(2026, 4, 8, 9, 30).getTime(), now);
+
+		expect(today).not.toContain(new Date(2026, 4, 10).toLocaleDateString());
+		expect(earlier).toContain(new Date(2026, 4, 8).toLocaleDateString());
+		expect(earlier.endsWith(today)).toBe(true);
+	});
+});
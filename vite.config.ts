@@ -1,9 +1,43 @@
-import { defineConfig } from "vite";
+import { readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+import { brotliCompressSync, constants, gzipSync } from "node:zlib";
+import { defineConfig, type Plugin } from "vite";
 import solid from "vite-plugin-solid";
 import tailwindcss from "@tailwindcss/vite";
+import { COMPRESSIBLE_EXTENSIONS, MIN_COMPRESS_BYTES } from "./src/server/static";
+
+// Write .br and .gz files next to compressible build output so the
+// plugin server can send them without compressing on every request.
+// index.html is skipped: the server rewrites it per request.
+function precompress(outDir: string): Plugin {
+  const walk = (dir: string): string[] =>
+    readdirSync(dir).flatMap((name) => {
+      const path = join(dir, name);
+      return statSync(path).isDirectory() ? walk(path) : [path];
+    });
+
+  return {
+    name: "wopr-precompress",
+    apply: "build",
+    closeBundle() {
+      for (const file of walk(outDir)) {
+        if (!COMPRESSIBLE_EXTENSIONS.has(extname(file)) || basename(file) === "index.html") continue;
+        const content = readFileSync(file);
+        if (content.length < MIN_COMPRESS_BYTES) continue;
+        writeFileSync(`${file}.gz`, gzipSync(content, { level: 9 }));
+        writeFileSync(
+          `${file}.br`,
+          brotliCompressSync(content, { params: { [constants.BROTLI_PARAM_QUALITY]: 11 } }),
+        );
+      }
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [tailwindcss(), solid()],
+  // Relative asset URLs; the plugin server injects <base href> for its basePath
+  base: "./",
+  plugins: [tailwindcss(), solid(), precompress("dist")],
   server: {
     port: 3000,
     proxy: {